@@ -1,212 +1,430 @@
 import express from 'express';
 import cors from 'cors';
-import { readFile } from 'fs/promises';
-import { join, dirname } from 'path';
+import multer from 'multer';
+import { readFile, access, stat } from 'fs/promises';
+import { join, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
+import { parseCSV, streamCSV, createParseReport } from './server/csv.js';
+import { SIGNAL_DATA_SCHEMA, TOWER_SCHEMA, COVERAGE_SCHEMA, CELL_SITE_SCHEMA } from './server/schemas.js';
+import { parseDataQuery, matchesFilters, encodeCursor, parseTime } from './server/query.js';
+import { DEFAULT_DATASET, listDatasets, findDataset, importDataset, importSurvey } from './server/datasets.js';
+import { computeSummary, computeCoverage } from './server/summary.js';
+import { listProfiles, resolveProfile, createProfile, updateProfile, deleteProfile } from './server/profiles.js';
+import { localize } from './server/localization.js';
+import { getWiFiInfo, scanWiFi } from './server/wifi/index.js';
+import { createWiFiHistory, DEFAULT_INTERVAL_MS } from './server/wifi/history.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const app = express();
-app.use(cors());
-app.use(express.json());
+app.use(cors({ exposedHeaders: ['X-Total-Count', 'X-Next-Cursor', 'X-Rejected-Rows', 'X-Summary-Source'] }));
+// Survey uploads post every measurement of a session in one body
+app.use(express.json({ limit: '50mb' }));
 
 // Serve data files from the parent directory's cellular_planning_results folder
 const DATA_DIR = join(__dirname, '..', 'cellular_planning_results');
+const DATASETS_DIR = join(DATA_DIR, 'datasets');
 
-app.get('/api/summary', async (req, res) => {
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 200 * 1024 * 1024 } });
+
+// Most recent parse report per data file, keyed by its path under DATA_DIR
+const parseReports = new Map();
+
+async function loadCSV(filePath, schema) {
+  const report = createParseReport(relative(DATA_DIR, filePath));
+  const rows = parseCSV(await readFile(filePath, 'utf-8'), schema, report);
+  parseReports.set(report.source, report);
+  return { rows, report };
+}
+
+// Read endpoints take ?dataset=<id>; without it they read DATA_DIR itself
+async function resolveDataset(req, res, next) {
+  const id = req.query.dataset;
+  if (!id || id === DEFAULT_DATASET) {
+    req.dataDir = DATA_DIR;
+    return next();
+  }
   try {
-    const data = await readFile(join(DATA_DIR, 'summary_statistics.json'), 'utf-8');
-    res.json(JSON.parse(data));
+    const entry = await findDataset(DATASETS_DIR, String(id));
+    if (!entry) return res.status(404).json({ error: `Dataset not found: ${id}` });
+    req.dataDir = join(DATASETS_DIR, entry.id);
+    next();
   } catch (error) {
-    res.status(404).json({ error: 'Summary statistics not found' });
+    next(error);
+  }
+}
+
+app.get('/api/datasets', async (req, res) => {
+  try {
+    const uploaded = await listDatasets(DATASETS_DIR);
+    res.json([{ id: DEFAULT_DATASET, name: 'Planning results', builtIn: true }, ...uploaded]);
+  } catch (error) {
+    console.error('Error listing datasets:', error);
+    res.status(500).json({ error: 'Unable to list datasets' });
   }
 });
 
-function parseCSV(csvText) {
-  const lines = csvText.trim().split('\n');
-  if (lines.length === 0) return [];
-  
-  const headers = lines[0].split(',').map(h => h.trim());
-  const rows = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    // Handle CSV with potential commas in quoted fields
-    const line = lines[i];
-    const values = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+// Multipart upload: `file` (CSV or JSON drive-test data) and an optional `name`
+app.post('/api/datasets', upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'Missing file field' });
+  }
+  try {
+    const { dataset, report } = await importDataset(DATASETS_DIR, req.file, req.body.name);
+    parseReports.set(report.source, report);
+    res.status(201).json({ dataset, report });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, report: error.report });
     }
-    values.push(current.trim()); // Add last value
-    
-    const row = {};
-    headers.forEach((header, idx) => {
-      const val = (values[idx] || '').trim().replace(/^"|"$/g, '');
-      // Parse numbers, but keep strings as strings
-      if (val === '' || val === 'null' || val === 'undefined') {
-        row[header] = null;
-      } else if (!isNaN(val) && val !== '') {
-        row[header] = parseFloat(val);
-      } else {
-        row[header] = val;
-      }
-    });
-    rows.push(row);
+    console.error('Error importing dataset:', error);
+    res.status(500).json({ error: 'Unable to store dataset' });
+  }
+});
+
+// JSON body: { name, rows } with one SignalData row per IndoorMapper measurement
+app.post('/api/surveys', async (req, res) => {
+  try {
+    const { dataset, report } = await importSurvey(DATASETS_DIR, req.body);
+    parseReports.set(report.source, report);
+    res.status(201).json({ dataset, report });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, report: error.report });
+    }
+    console.error('Error importing survey:', error);
+    res.status(500).json({ error: 'Unable to store survey' });
+  }
+});
+
+// Signal-quality profiles: built-ins plus custom ones stored alongside the data
+app.get('/api/quality-profiles', async (req, res) => {
+  try {
+    res.json(await listProfiles(DATA_DIR));
+  } catch (error) {
+    console.error('Error listing quality profiles:', error);
+    res.status(500).json({ error: 'Unable to list quality profiles' });
+  }
+});
+
+// JSON body: { name, description, thresholds: { <metric>: { excellent, good, fair } } }
+app.post('/api/quality-profiles', async (req, res) => {
+  try {
+    res.status(201).json(await createProfile(DATA_DIR, req.body));
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ error: error.message });
+    console.error('Error creating quality profile:', error);
+    res.status(500).json({ error: 'Unable to store quality profile' });
+  }
+});
+
+app.put('/api/quality-profiles/:id', async (req, res) => {
+  try {
+    res.json(await updateProfile(DATA_DIR, req.params.id, req.body));
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ error: error.message });
+    console.error('Error updating quality profile:', error);
+    res.status(500).json({ error: 'Unable to store quality profile' });
+  }
+});
+
+app.delete('/api/quality-profiles/:id', async (req, res) => {
+  try {
+    await deleteProfile(DATA_DIR, req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ error: error.message });
+    console.error('Error deleting quality profile:', error);
+    res.status(500).json({ error: 'Unable to delete quality profile' });
+  }
+});
+
+// Computed summaries and coverage tables keyed by signal data file and quality
+// profile, reused until the file, the profile's thresholds or any other input the
+// caller names (such as the recommended tower count) change
+const summaryCache = new Map();
+
+// Runs compute over the file's normalized rows, classified with the given profile.
+// inputs: anything else compute depends on, compared as JSON
+async function computeFromSignalData(kind, filePath, profile, compute, inputs = null) {
+  const { mtimeMs, size } = await stat(filePath);
+  const thresholds = JSON.stringify(profile.thresholds);
+  const extra = JSON.stringify(inputs);
+  const cacheKey = `${kind}|${filePath}|${profile.id}`;
+  const cached = summaryCache.get(cacheKey);
+  if (
+    cached && cached.mtimeMs === mtimeMs && cached.size === size &&
+    cached.thresholds === thresholds && cached.extra === extra
+  ) {
+    return cached.result;
+  }
+
+  const report = createParseReport(relative(DATA_DIR, filePath));
+  const rows = (async function* () {
+    for await (const row of streamCSV(filePath, SIGNAL_DATA_SCHEMA, report)) {
+      yield normalizeSignalRow(row);
+    }
+  })();
+  const result = await compute(rows);
+  parseReports.set(report.source, report);
+  summaryCache.set(cacheKey, { mtimeMs, size, thresholds, extra, result });
+  return result;
+}
+
+// Towers listed in the dataset's recommendation file, or null when it has none
+async function recommendedTowerCount(dir) {
+  try {
+    const { rows } = await loadCSV(join(dir, 'all_users_tower_recommendations.csv'), TOWER_SCHEMA);
+    const listed = rows.filter(row => typeof row.recommended_towers === 'number');
+    return listed.length > 0 ? listed.reduce((sum, row) => sum + row.recommended_towers, 0) : rows.length;
+  } catch {
+    return null;
   }
-  
-  return rows;
 }
 
-app.get('/api/towers', async (req, res) => {
+// Serves summary_statistics.json (or <user>/summary_statistics.json) when present,
+// otherwise computes the stats from the signal data, classified with ?profile=<id>.
+// X-Summary-Source says which.
+app.get('/api/summary/:user?', resolveDataset, async (req, res) => {
+  const { user } = req.params;
+  const scopeDir = user && user !== 'all' ? join(req.dataDir, user) : req.dataDir;
+
+  try {
+    const data = await readFile(join(scopeDir, 'summary_statistics.json'), 'utf-8');
+    res.set('X-Summary-Source', 'file');
+    return res.json(JSON.parse(data));
+  } catch {
+    // No precomputed summary; fall through and compute one
+  }
+
+  try {
+    const filePath = await signalDataFile(req.dataDir, user);
+    const profile = await resolveProfile(DATA_DIR, req.query.profile && String(req.query.profile));
+    const towerCount = await recommendedTowerCount(scopeDir);
+    const stats = await computeFromSignalData(
+      'summary',
+      filePath,
+      profile,
+      rows => computeSummary(rows, towerCount, profile.thresholds),
+      { towerCount }
+    );
+
+    res.set('X-Summary-Source', 'computed');
+    res.json(stats);
+  } catch (error) {
+    res.status(404).json({ error: 'Summary statistics not found' });
+  }
+});
+
+app.get('/api/towers', resolveDataset, async (req, res) => {
   try {
-    const data = await readFile(join(DATA_DIR, 'all_users_tower_recommendations.csv'), 'utf-8');
-    const rows = parseCSV(data);
+    const { rows, report } = await loadCSV(join(req.dataDir, 'all_users_tower_recommendations.csv'), TOWER_SCHEMA);
+    res.set('X-Rejected-Rows', String(report.rowsRejected));
     res.json(rows);
   } catch (error) {
     res.status(404).json({ error: 'Tower recommendations not found' });
   }
 });
 
-app.get('/api/coverage', async (req, res) => {
+// Serves all_users_coverage_summary.csv when present, otherwise computes one row per
+// cell from the signal data, classified with ?profile=<id>. X-Summary-Source says which.
+app.get('/api/coverage', resolveDataset, async (req, res) => {
+  try {
+    const { rows, report } = await loadCSV(join(req.dataDir, 'all_users_coverage_summary.csv'), COVERAGE_SCHEMA);
+    res.set('X-Rejected-Rows', String(report.rowsRejected));
+    res.set('X-Summary-Source', 'file');
+    return res.json(rows);
+  } catch {
+    // No coverage file; fall through and compute one
+  }
+
   try {
-    const data = await readFile(join(DATA_DIR, 'all_users_coverage_summary.csv'), 'utf-8');
-    const rows = parseCSV(data);
+    const filePath = await signalDataFile(req.dataDir);
+    const profile = await resolveProfile(DATA_DIR, req.query.profile && String(req.query.profile));
+    const rows = await computeFromSignalData('coverage', filePath, profile, rows => computeCoverage(rows, profile.thresholds));
+    res.set('X-Summary-Source', 'computed');
     res.json(rows);
   } catch (error) {
     res.status(404).json({ error: 'Coverage summary not found' });
   }
 });
 
-app.get('/api/data/:user?', async (req, res) => {
+const GEO_ALIASES = [['latitude', 'lat'], ['longitude', 'lon'], ['lng', 'lon']];
+
+// signal_strength is an older name for rssi. It only fills a missing rssi; a
+// recorded rssi (even an implausible 0) is kept so classification can reject it.
+function normalizeSignalRow(row) {
+  if ((row.rssi === undefined || row.rssi === null) && typeof row.signal_strength === 'number') {
+    row.rssi = row.signal_strength;
+  }
+  // Drive-test exports spell coordinates several ways; clients only see lat/lon
+  for (const [alias, name] of GEO_ALIASES) {
+    if (alias in row) {
+      if (row[name] === undefined || row[name] === null) row[name] = typeof row[alias] === 'number' ? row[alias] : null;
+      delete row[alias];
+    }
+  }
+  return row;
+}
+
+// Signal data for one user, or for everyone when user is omitted or 'all'
+async function signalDataFile(dataDir, user) {
+  if (user && user !== 'all') {
+    return join(dataDir, user, 'processed_data.csv');
+  }
+  // Prefer location data for network planning (has x,y coordinates)
+  // Fallback to combined if location file doesn't exist
+  const withLocation = join(dataDir, 'cellular_merged_with_location.csv');
   try {
-    const { user } = req.params;
-    let filePath;
-    
-    if (user && user !== 'all') {
-      filePath = join(DATA_DIR, user, 'processed_data.csv');
-    } else {
-      // Prefer location data for network planning (has x,y coordinates)
-      // Fallback to combined if location file doesn't exist
-      filePath = join(DATA_DIR, 'cellular_merged_with_location.csv');
-      try {
-        await readFile(filePath);
-      } catch {
-        filePath = join(DATA_DIR, 'all_users_combined.csv');
-      }
+    await access(withLocation);
+    return withLocation;
+  } catch {
+    return join(dataDir, 'all_users_combined.csv');
+  }
+}
+
+// Paginated signal data. Query: limit, offset or cursor, rssi_min, rssi_max,
+// cell_id and body_position (comma-separated), start and end (epoch or ISO).
+// The full matching row count is returned in X-Total-Count.
+app.get('/api/data/:user?', resolveDataset, async (req, res) => {
+  let query;
+  try {
+    query = parseDataQuery(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const filePath = await signalDataFile(req.dataDir, req.params.user);
+    const rows = [];
+    let total = 0;
+    const report = createParseReport(relative(DATA_DIR, filePath));
+    for await (const row of streamCSV(filePath, SIGNAL_DATA_SCHEMA, report)) {
+      if (!matchesFilters(normalizeSignalRow(row), query.filters)) continue;
+      if (total >= query.offset && rows.length < query.limit) rows.push(row);
+      total++;
     }
     
-    const data = await readFile(filePath, 'utf-8');
-    const rows = parseCSV(data).slice(0, 10000); // Limit to 10k rows for performance
-    
-    // Ensure RSSI is properly parsed - check if signal_strength exists and use it if rssi is missing/invalid
-    const processedRows = rows.map(row => {
-      // If rssi is 0, null, or missing, try to use signal_strength
-      if ((!row.rssi || row.rssi === 0) && row.signal_strength !== undefined && row.signal_strength !== null) {
-        row.rssi = parseFloat(row.signal_strength);
-      }
-      // Ensure rssi is a number
-      if (row.rssi !== undefined && row.rssi !== null) {
-        row.rssi = parseFloat(row.rssi);
-      }
-      return row;
-    });
-    
-    res.json(processedRows);
+    parseReports.set(report.source, report);
+    res.set('X-Total-Count', String(total));
+    res.set('X-Rejected-Rows', String(report.rowsRejected));
+    if (query.offset + rows.length < total) {
+      res.set('X-Next-Cursor', encodeCursor(query.offset + rows.length));
+    }
+    res.json(rows);
   } catch (error) {
     console.error('Error loading data:', error);
     res.status(404).json({ error: 'Data not found', details: error.message });
   }
 });
 
-app.get('/api/user/:user/summary', async (req, res) => {
+// Cell-site locations for trilateration; datasets without cell_sites.csv have none
+async function loadCellSites(dataDir) {
+  try {
+    const { rows } = await loadCSV(join(dataDir, 'cell_sites.csv'), CELL_SITE_SCHEMA);
+    return rows;
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Located signal readings in meters. Takes the /api/data filters; limit and offset
+// page the located points. frame is 'local' (the data's x/y), 'enu' (lat/lon around
+// origin) or null when no row could be placed.
+app.get('/api/positions/:user?', resolveDataset, async (req, res) => {
+  let query;
+  try {
+    query = parseDataQuery(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const filePath = await signalDataFile(req.dataDir, req.params.user);
+    const rows = [];
+    const report = createParseReport(relative(DATA_DIR, filePath));
+    for await (const row of streamCSV(filePath, SIGNAL_DATA_SCHEMA, report)) {
+      if (matchesFilters(normalizeSignalRow(row), query.filters)) rows.push(row);
+    }
+    parseReports.set(report.source, report);
+
+    const { points, ...located } = localize(rows, await loadCellSites(req.dataDir));
+    res.json({
+      ...located,
+      total: points.length,
+      points: points.slice(query.offset, query.offset + query.limit).map(({ index, ...point }) => point),
+    });
+  } catch (error) {
+    console.error('Error localizing data:', error);
+    res.status(404).json({ error: 'Data not found', details: error.message });
+  }
+});
+
+app.get('/api/user/:user/summary', resolveDataset, async (req, res) => {
   try {
     const { user } = req.params;
-    const filePath = join(DATA_DIR, user, 'coverage_summary.csv');
-    const data = await readFile(filePath, 'utf-8');
-    const rows = parseCSV(data);
+    const filePath = join(req.dataDir, user, 'coverage_summary.csv');
+    const { rows, report } = await loadCSV(filePath, COVERAGE_SCHEMA);
+    res.set('X-Rejected-Rows', String(report.rowsRejected));
     res.json(rows);
   } catch (error) {
     res.status(404).json({ error: 'User summary not found' });
   }
 });
 
+// Rows rejected by the CSV schemas, from the last time each file was read
+app.get('/api/parse-reports', (req, res) => {
+  res.json(Array.from(parseReports.values()));
+});
+
+// Background WiFi sampling. WIFI_SAMPLE_INTERVAL_MS=0 turns it off;
+// WIFI_LOG_FILE keeps every sample on disk as JSON lines.
+const wifiHistory = createWiFiHistory({
+  readInfo: () => getWiFiInfo(),
+  intervalMs: process.env.WIFI_SAMPLE_INTERVAL_MS !== undefined
+    ? Number(process.env.WIFI_SAMPLE_INTERVAL_MS)
+    : DEFAULT_INTERVAL_MS,
+  logFile: process.env.WIFI_LOG_FILE || null,
+});
+
+// Current WiFi connection from the platform's provider; `simulated` marks demo values
 app.get('/api/wifi', async (req, res) => {
   try {
-    // Try to get WiFi info from system (macOS)
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-    
-    try {
-      // Get current WiFi network (macOS)
-      const { stdout: ssidOutput } = await execAsync('/System/Library/PrivateFrameworks/Apple80211.framework/Versions/Current/Resources/airport -I');
-      const ssidMatch = ssidOutput.match(/SSID: (.+)/);
-      const rssiMatch = ssidOutput.match(/agrCtlRSSI: (-?\d+)/);
-      const bssidMatch = ssidOutput.match(/BSSID: ([a-fA-F0-9:]+)/);
-      const channelMatch = ssidOutput.match(/channel: (\d+)/);
-      
-      const ssid = ssidMatch ? ssidMatch[1].trim() : 'Unknown';
-      const rssi = rssiMatch ? parseInt(rssiMatch[1]) : -70;
-      const bssid = bssidMatch ? bssidMatch[1] : 'N/A';
-      const channel = channelMatch ? parseInt(channelMatch[1]) : 0;
-      
-      // Determine frequency based on channel
-      const frequency = channel <= 14 ? 2400 : 5000;
-      
-      // Determine quality
-      let quality = 'poor';
-      if (rssi > -50) quality = 'excellent';
-      else if (rssi > -70) quality = 'good';
-      else if (rssi > -85) quality = 'fair';
-      
-      res.json({
-        ssid,
-        bssid,
-        signalStrength: rssi,
-        frequency,
-        channel,
-        security: 'WPA2/WPA3',
-        quality,
-        speed: '150 Mbps',
-        ipAddress: '192.168.1.100',
-        subnet: '255.255.255.0',
-        gateway: '192.168.1.1'
-      });
-    } catch (execError) {
-      // Fallback to demo data if system command fails
-      res.json({
-        ssid: 'Your WiFi Network',
-        bssid: 'XX:XX:XX:XX:XX:XX',
-        signalStrength: -65,
-        frequency: 2400,
-        channel: 6,
-        security: 'WPA2/WPA3',
-        quality: 'good',
-        speed: '150 Mbps',
-        ipAddress: '192.168.1.100',
-        subnet: '255.255.255.0',
-        gateway: '192.168.1.1'
-      });
-    }
+    res.json(await getWiFiInfo());
   } catch (error) {
     console.error('WiFi info error:', error);
     res.status(500).json({ error: 'Unable to fetch WiFi information' });
   }
 });
 
+// Neighbouring access points with channel, width, band, RSSI and security
+app.get('/api/wifi/scan', async (req, res) => {
+  try {
+    res.json(await scanWiFi());
+  } catch (error) {
+    console.error('WiFi scan error:', error);
+    res.status(500).json({ error: 'Unable to scan WiFi networks' });
+  }
+});
+
+// Recorded WiFi samples with roaming events. Query: since (epoch or ISO), limit
+app.get('/api/wifi/history', (req, res) => {
+  const since = parseTime(req.query.since);
+  const limit = req.query.limit !== undefined ? parseInt(req.query.limit, 10) : undefined;
+  if (req.query.since !== undefined && since === undefined) {
+    return res.status(400).json({ error: `Invalid since: ${req.query.since}` });
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return res.status(400).json({ error: `Invalid limit: ${req.query.limit}` });
+  }
+  res.json(wifiHistory.query({ since, limit }));
+});
+
 const PORT = 3001;
 app.listen(PORT, () => {
   console.log(`🚀 Data server running on http://localhost:${PORT}`);
+  wifiHistory.start();
 });
 
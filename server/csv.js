@@ -0,0 +1,278 @@
+import { createReadStream } from 'fs';
+
+// RFC 4180 CSV parsing with per-file column schemas.
+// Quoted fields may contain commas, newlines and escaped quotes (""). Rows that
+// do not fit the schema are skipped and described in a parse report instead of
+// being returned with null values.
+
+const NULL_TOKENS = new Set(['', 'null', 'undefined', 'NA', 'N/A']);
+const MAX_REPORTED_ERRORS = 100;
+
+// Incremental tokenizer: feed it chunks, get back complete records
+class CsvTokenizer {
+  constructor() {
+    this.field = '';
+    this.fields = [];
+    this.inQuotes = false;
+    this.quotePending = false; // saw a quote inside a quoted field, waiting to see if it is escaped
+    this.afterQuote = false;   // closing quote seen, only a delimiter may follow
+    this.line = 1;
+    this.recordLine = 1;
+    this.error = null;
+    this.started = false;
+  }
+
+  push(chunk, records) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+        this.afterQuote = true;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === ',') {
+        this.endField();
+      } else if (char === '\n') {
+        this.endRecord(records);
+        this.line++;
+        this.recordLine = this.line;
+      } else if (char === '\r') {
+        // CRLF line endings; the \n ends the record
+      } else if (char === '"' && this.field === '' && !this.afterQuote) {
+        this.inQuotes = true;
+        this.started = true;
+      } else {
+        if (this.afterQuote || char === '"') {
+          this.error = this.error || 'Unexpected character around a quoted field';
+        }
+        this.field += char;
+        this.started = true;
+      }
+    }
+  }
+
+  end(records) {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      this.error = this.error || 'Unterminated quoted field';
+    }
+    if (this.started || this.fields.length > 0 || this.field !== '') {
+      this.endRecord(records);
+    }
+  }
+
+  endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.afterQuote = false;
+    this.started = true;
+  }
+
+  endRecord(records) {
+    if (!this.started && this.fields.length === 0 && this.field === '') return; // blank line
+    this.endField();
+    records.push({ fields: this.fields, line: this.recordLine, error: this.error });
+    this.fields = [];
+    this.error = null;
+    this.started = false;
+  }
+}
+
+export function createParseReport(source) {
+  return { source, rowsParsed: 0, rowsRejected: 0, errors: [], truncated: false };
+}
+
+function reportError(report, error) {
+  report.rowsRejected++;
+  if (report.errors.length < MAX_REPORTED_ERRORS) {
+    report.errors.push(error);
+  } else {
+    report.truncated = true;
+  }
+}
+
+function convert(value, type) {
+  switch (type) {
+    case 'string':
+      return { value };
+    case 'number':
+    case 'integer': {
+      const num = Number(value);
+      if (!Number.isFinite(num)) return { error: `Expected a number` };
+      if (type === 'integer' && !Number.isInteger(num)) return { error: 'Expected an integer' };
+      return { value: num };
+    }
+    case 'timestamp': {
+      const num = Number(value);
+      if (Number.isFinite(num)) return { value: num };
+      const ms = Date.parse(value);
+      if (Number.isNaN(ms)) return { error: 'Expected an epoch or ISO 8601 timestamp' };
+      return { value: ms };
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (['true', '1', 'yes'].includes(lower)) return { value: true };
+      if (['false', '0', 'no'].includes(lower)) return { value: false };
+      return { error: 'Expected a boolean' };
+    }
+    default: {
+      // 'auto': columns a schema does not declare keep the legacy number-or-string inference
+      const num = Number(value);
+      return { value: Number.isFinite(num) ? num : value };
+    }
+  }
+}
+
+function buildRow(headers, record, schema, report) {
+  if (record.error) {
+    reportError(report, { line: record.line, message: record.error });
+    return null;
+  }
+  if (record.fields.length !== headers.length) {
+    reportError(report, {
+      line: record.line,
+      message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+    });
+    return null;
+  }
+
+  const row = {};
+  for (let idx = 0; idx < headers.length; idx++) {
+    const header = headers[idx];
+    const column = schema.columns[header] || { type: schema.otherColumns || 'auto' };
+    const raw = record.fields[idx].trim();
+
+    if (NULL_TOKENS.has(raw)) {
+      if (column.required) {
+        reportError(report, { line: record.line, column: header, value: raw, message: 'Missing required value' });
+        return null;
+      }
+      row[header] = null;
+      continue;
+    }
+
+    const { value, error } = convert(raw, column.type);
+    if (error) {
+      reportError(report, { line: record.line, column: header, value: raw, message: error });
+      return null;
+    }
+    row[header] = value;
+  }
+
+  report.rowsParsed++;
+  return row;
+}
+
+function readHeaders(record) {
+  return record.fields.map((h, idx) => (idx === 0 ? h.replace(/^\uFEFF/, '') : h).trim());
+}
+
+function checkRequiredColumns(headers, schema) {
+  const missing = Object.entries(schema.columns)
+    .filter(([name, column]) => column.required && !headers.includes(name))
+    .map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+}
+
+export function parseCSV(csvText, schema, report = createParseReport('inline')) {
+  const tokenizer = new CsvTokenizer();
+  const records = [];
+  tokenizer.push(csvText, records);
+  tokenizer.end(records);
+  if (records.length === 0) return [];
+
+  const headers = readHeaders(records[0]);
+  checkRequiredColumns(headers, schema);
+  return records
+    .slice(1)
+    .map(record => buildRow(headers, record, schema, report))
+    .filter(row => row !== null);
+}
+
+// Yield rows one at a time so large files never sit in memory
+export async function* streamCSV(filePath, schema, report = createParseReport(filePath)) {
+  const input = createReadStream(filePath, { encoding: 'utf-8' });
+  const tokenizer = new CsvTokenizer();
+  let headers = null;
+
+  try {
+    let records = [];
+    const drain = function* () {
+      for (const record of records) {
+        if (!headers) {
+          headers = readHeaders(record);
+          checkRequiredColumns(headers, schema);
+          continue;
+        }
+        const row = buildRow(headers, record, schema, report);
+        if (row) yield row;
+      }
+      records = [];
+    };
+
+    for await (const chunk of input) {
+      tokenizer.push(chunk, records);
+      yield* drain();
+    }
+    tokenizer.end(records);
+    yield* drain();
+  } finally {
+    input.destroy();
+  }
+}
+
+// Validate already-structured records (e.g. an uploaded JSON array) against a schema
+export function parseObjects(objects, schema, report = createParseReport('inline')) {
+  const headers = [];
+  objects.forEach(obj => {
+    Object.keys(obj).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+  });
+  checkRequiredColumns(headers, schema);
+
+  return objects
+    .map((obj, idx) => {
+      const fields = headers.map(h => (obj[h] === undefined || obj[h] === null ? '' : String(obj[h])));
+      return buildRow(headers, { fields, line: idx + 1, error: null }, schema, report);
+    })
+    .filter(row => row !== null);
+}
+
+function quoteField(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCSV(rows) {
+  const headers = [];
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+  });
+  const lines = [headers.map(quoteField).join(',')];
+  rows.forEach(row => lines.push(headers.map(h => quoteField(row[h])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
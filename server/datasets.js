@@ -0,0 +1,157 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join, extname, basename } from 'path';
+import { parseCSV, parseObjects, formatCSV, createParseReport } from './csv.js';
+import { SIGNAL_DATA_SCHEMA, SURVEY_SCHEMA } from './schemas.js';
+import { headlineLevel } from './metrics.js';
+
+// Registry of uploaded drive-test datasets. Each upload gets its own directory
+// laid out like DATA_DIR, so every read endpoint resolves files the same way.
+
+export const DEFAULT_DATASET = 'default';
+
+// Uploaded rows are stored under the name /api/data falls back to for all users
+export const DATASET_FILE = 'all_users_combined.csv';
+
+const REGISTRY_FILE = 'registry.json';
+
+// Serialize registry writes so concurrent uploads don't drop each other
+let registryQueue = Promise.resolve();
+
+function validationError(message, report) {
+  const error = new Error(message);
+  error.status = 400;
+  error.report = report;
+  return error;
+}
+
+export async function listDatasets(datasetsDir) {
+  try {
+    return JSON.parse(await readFile(join(datasetsDir, REGISTRY_FILE), 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+export async function findDataset(datasetsDir, id) {
+  const datasets = await listDatasets(datasetsDir);
+  return datasets.find(d => d.id === id) || null;
+}
+
+function slugify(name) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'dataset';
+}
+
+function detectFormat(file) {
+  const ext = extname(file.originalname || '').toLowerCase();
+  if (ext === '.json' || file.mimetype === 'application/json') return 'json';
+  return 'csv';
+}
+
+function parseUpload(file, format, report) {
+  const text = file.buffer.toString('utf-8');
+  if (format === 'csv') return parseCSV(text, SIGNAL_DATA_SCHEMA, report);
+
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw validationError(`Invalid JSON: ${error.message}`, report);
+  }
+  const records = Array.isArray(parsed) ? parsed : parsed?.data;
+  if (!Array.isArray(records) || records.some(r => typeof r !== 'object' || r === null || Array.isArray(r))) {
+    throw validationError('JSON uploads must be an array of objects (or { "data": [...] })', report);
+  }
+  return parseObjects(records, SIGNAL_DATA_SCHEMA, report);
+}
+
+function datasetId(displayName) {
+  return `${slugify(displayName)}-${Date.now().toString(36)}`;
+}
+
+// Write parsed rows into the dataset's directory and add it to the registry
+async function registerDataset(datasetsDir, id, rows, report, details) {
+  const dir = join(datasetsDir, id);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, DATASET_FILE), formatCSV(rows), 'utf-8');
+
+  const entry = {
+    id,
+    ...details,
+    rows: rows.length,
+    rejectedRows: report.rowsRejected,
+    columns: Object.keys(rows[0]),
+    uploadedAt: new Date().toISOString(),
+  };
+
+  const write = registryQueue.then(async () => {
+    const datasets = await listDatasets(datasetsDir);
+    datasets.push(entry);
+    await writeFile(join(datasetsDir, REGISTRY_FILE), JSON.stringify(datasets, null, 2), 'utf-8');
+  });
+  registryQueue = write.catch(() => {});
+  await write;
+
+  return { dataset: entry, report };
+}
+
+// Validate an uploaded file against the SignalData schema and register it
+export async function importDataset(datasetsDir, file, name) {
+  const format = detectFormat(file);
+  const original = file.originalname ? basename(file.originalname, extname(file.originalname)) : '';
+  const displayName = (name || original || 'Uploaded dataset').trim();
+  const id = datasetId(displayName);
+  const report = createParseReport(join('datasets', id, DATASET_FILE));
+
+  let rows;
+  try {
+    rows = parseUpload(file, format, report);
+  } catch (error) {
+    if (error.status) throw error;
+    throw validationError(error.message, report);
+  }
+
+  if (!rows.some(row => typeof row.signal_strength === 'number' || headlineLevel(row) !== null)) {
+    throw validationError('No rows with a signal level (rssi, signal_strength, rsrp, ss_rsrp, rscp or rxlev)', report);
+  }
+
+  return registerDataset(datasetsDir, id, rows, report, {
+    name: displayName,
+    format,
+    originalName: file.originalname || null,
+  });
+}
+
+// Register an IndoorMapper survey posted as { name, rows } where every row
+// carries x/y in meters, rssi and timestamp
+export async function importSurvey(datasetsDir, body) {
+  const displayName = (typeof body?.name === 'string' && body.name.trim()) || 'Indoor survey';
+  const id = datasetId(displayName);
+  const report = createParseReport(join('datasets', id, DATASET_FILE));
+
+  const records = body?.rows;
+  if (!Array.isArray(records) || records.some(r => typeof r !== 'object' || r === null || Array.isArray(r))) {
+    throw validationError('Surveys must be posted as { "name": ..., "rows": [...] }', report);
+  }
+
+  let rows;
+  try {
+    rows = parseObjects(records, SURVEY_SCHEMA, report);
+  } catch (error) {
+    throw validationError(error.message, report);
+  }
+  if (rows.length === 0) {
+    throw validationError('Survey has no valid measurements', report);
+  }
+  // A simulated RSSI is a placeholder, not a reading; it must not reach the analysis pages
+  const simulated = rows.filter(row => row.rssi_simulated === true).length;
+  if (simulated > 0) {
+    throw validationError(`Survey has ${simulated} measurement(s) with simulated RSSI (rssi_simulated: true); remove them before uploading`, report);
+  }
+
+  return registerDataset(datasetsDir, id, rows, report, {
+    name: displayName,
+    format: 'survey',
+    originalName: null,
+  });
+}
@@ -0,0 +1,16 @@
+// Types for server/geodesy.js, which src/utils/geo.ts imports
+
+export interface Geodetic {
+  lat: number
+  lon: number
+  alt?: number // meters above the ellipsoid
+}
+
+export interface EnuFrame {
+  toLocal: (point: Geodetic) => { x: number, y: number }
+  toGeographic: (point: { x: number, y: number }) => { lat: number, lon: number }
+}
+
+export function toEcef(point: Geodetic): [number, number, number]
+export function fromEcef(ecef: [number, number, number]): { lat: number, lon: number }
+export function enuFrame(origin: Geodetic): EnuFrame
@@ -0,0 +1,61 @@
+// WGS84 and the local East-North-Up tangent plane. The one implementation: the
+// server's /api/positions and the dashboard's map projection (src/utils/geo.ts)
+// both import it, so a lat/lon lands on the same meters in either.
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+
+const toRadians = deg => (deg * Math.PI) / 180;
+const toDegrees = rad => (rad * 180) / Math.PI;
+
+export function toEcef({ lat, lon, alt = 0 }) {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+  return [
+    (n + alt) * Math.cos(phi) * Math.cos(lambda),
+    (n + alt) * Math.cos(phi) * Math.sin(lambda),
+    (n * (1 - E2) + alt) * Math.sin(phi),
+  ];
+}
+
+// Geodetic latitude by fixed-point iteration; converges to well under a millimeter
+export function fromEcef([x, y, z]) {
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - E2));
+  for (let i = 0; i < 5; i++) {
+    const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+    const h = p / Math.cos(phi) - n;
+    phi = Math.atan2(z, p * (1 - (E2 * n) / (n + h)));
+  }
+  return { lat: toDegrees(phi), lon: toDegrees(Math.atan2(y, x)) };
+}
+
+// Tangent plane at origin: x east, y north, in meters. Points on the plane are mapped
+// back at zero height, which is exact enough for the few kilometers a drive test covers.
+export function enuFrame(origin) {
+  const phi = toRadians(origin.lat);
+  const lambda = toRadians(origin.lon);
+  const [sinPhi, cosPhi, sinLambda, cosLambda] = [Math.sin(phi), Math.cos(phi), Math.sin(lambda), Math.cos(lambda)];
+  const [x0, y0, z0] = toEcef(origin);
+
+  return {
+    toLocal: point => {
+      const [x, y, z] = toEcef(point);
+      const [dx, dy, dz] = [x - x0, y - y0, z - z0];
+      return {
+        x: -sinLambda * dx + cosLambda * dy,
+        y: -sinPhi * cosLambda * dx - sinPhi * sinLambda * dy + cosPhi * dz,
+      };
+    },
+    toGeographic: ({ x: east, y: north }) => {
+      // Place the plane point in ECEF, then drop it onto the ellipsoid
+      const dx = -sinLambda * east - sinPhi * cosLambda * north;
+      const dy = cosLambda * east - sinPhi * sinLambda * north;
+      const dz = cosPhi * north;
+      return fromEcef([x0 + dx, y0 + dy, z0 + dz]);
+    },
+  };
+}
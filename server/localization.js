@@ -0,0 +1,176 @@
+import { enuFrame } from './geodesy.js';
+
+// Positions for signal rows, from whatever the data actually records: x/y in meters,
+// lat/lon projected to a local East-North-Up frame, or trilateration of readings
+// that share a timestamp against known cell-site locations. Rows with none of these
+// stay unlocated; nothing is invented.
+
+const LAT_COLUMNS = ['lat', 'latitude'];
+const LON_COLUMNS = ['lon', 'lng', 'longitude'];
+const ALT_COLUMNS = ['alt', 'altitude'];
+
+// Log-distance defaults for sites that don't list their own (matches the planners)
+export const DEFAULT_TX_POWER_DBM = 43;
+export const DEFAULT_FREQUENCY_MHZ = 1800;
+export const DEFAULT_PATH_LOSS_EXPONENT = 3.5;
+
+// Fewer distinct sites than this leave a fix ambiguous
+const MIN_TRILATERATION_SITES = 3;
+const MAX_ITERATIONS = 20;
+
+function firstNumber(row, columns) {
+  for (const column of columns) {
+    const value = row[column];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+function latLon(row) {
+  const lat = firstNumber(row, LAT_COLUMNS);
+  const lon = firstNumber(row, LON_COLUMNS);
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon, alt: firstNumber(row, ALT_COLUMNS) ?? 0 };
+}
+
+function localXY(row) {
+  return typeof row.x === 'number' && Number.isFinite(row.x) && typeof row.y === 'number' && Number.isFinite(row.y)
+    ? { x: row.x, y: row.y }
+    : null;
+}
+
+// Inverts the log-distance model: free-space loss to 1 m, then 10·n·log10(d)
+export function rssiToDistance(rssi, site) {
+  const pathLoss = site.txPowerDbm - rssi;
+  const referenceLoss = 20 * Math.log10(0.001) + 20 * Math.log10(site.frequencyMhz) + 32.44;
+  return Math.pow(10, (pathLoss - referenceLoss) / (10 * site.pathLossExponent));
+}
+
+// Least-squares position from ranges to three or more sites (Gauss-Newton from the
+// range-weighted centroid). accuracy is the RMS range residual in meters.
+export function trilaterate(ranges) {
+  const weights = ranges.map(r => 1 / Math.max(r.distance, 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let x = ranges.reduce((sum, r, i) => sum + r.x * weights[i], 0) / total;
+  let y = ranges.reduce((sum, r, i) => sum + r.y * weights[i], 0) / total;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let jtj00 = 0, jtj01 = 0, jtj11 = 0, jtr0 = 0, jtr1 = 0;
+    ranges.forEach((r, i) => {
+      const dist = Math.max(Math.hypot(x - r.x, y - r.y), 1e-6);
+      const residual = dist - r.distance;
+      const jx = (x - r.x) / dist;
+      const jy = (y - r.y) / dist;
+      const w = weights[i] ** 2;
+      jtj00 += w * jx * jx;
+      jtj01 += w * jx * jy;
+      jtj11 += w * jy * jy;
+      jtr0 += w * jx * residual;
+      jtr1 += w * jy * residual;
+    });
+    const det = jtj00 * jtj11 - jtj01 * jtj01;
+    // Relative to the matrix's own scale: the (1/d)² weights shrink det as 1/d⁴,
+    // so an absolute cutoff would reject well-spread sites a few km away
+    const trace = jtj00 + jtj11;
+    if (det < 1e-12 * trace * trace) return null; // sites are collinear
+    const stepX = (jtj11 * jtr0 - jtj01 * jtr1) / det;
+    const stepY = (jtj00 * jtr1 - jtj01 * jtr0) / det;
+    x -= stepX;
+    y -= stepY;
+    if (Math.hypot(stepX, stepY) < 0.01) break;
+  }
+
+  const rms = Math.sqrt(ranges.reduce((sum, r) => sum + (Math.hypot(x - r.x, y - r.y) - r.distance) ** 2, 0) / ranges.length);
+  return { x, y, accuracy: rms };
+}
+
+function meanOrigin(points) {
+  const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const lon = points.reduce((sum, p) => sum + p.lon, 0) / points.length;
+  return { lat, lon, alt: 0 };
+}
+
+// Picks one frame for the rows and the sites. Measured x/y win, since mixing them
+// with projected coordinates would put two maps on top of each other.
+function chooseFrame(rows, sites) {
+  if (rows.some(localXY)) return { frame: 'local', origin: null };
+  const geodetic = [...rows, ...sites].map(latLon).filter(Boolean);
+  if (geodetic.length > 0) return { frame: 'enu', origin: meanOrigin(geodetic) };
+  if (sites.some(localXY)) return { frame: 'local', origin: null };
+  return { frame: null, origin: null };
+}
+
+function position(row, frame, enu) {
+  if (frame === 'local') return localXY(row);
+  if (frame === 'enu') {
+    const geo = latLon(row);
+    return geo ? enu.toLocal(geo) : null;
+  }
+  return null;
+}
+
+// Positions the rows in one frame. Returns { frame, origin, points, sites, unlocated }
+// where each point keeps its row's index, rssi, timestamp and cell_id and says which
+// source placed it: 'xy', 'gnss' or 'trilateration'.
+export function localize(rows, cellSites = []) {
+  const { frame, origin } = chooseFrame(rows, cellSites);
+  const enu = origin ? enuFrame(origin) : null;
+  const sites = new Map();
+  cellSites.forEach(site => {
+    const pos = site.cell_id !== null && site.cell_id !== undefined ? position(site, frame, enu) : null;
+    if (!pos) return;
+    sites.set(String(site.cell_id), {
+      cell_id: String(site.cell_id),
+      ...pos,
+      txPowerDbm: site.tx_power_dbm ?? DEFAULT_TX_POWER_DBM,
+      frequencyMhz: site.frequency_mhz ?? DEFAULT_FREQUENCY_MHZ,
+      pathLossExponent: site.path_loss_exponent ?? DEFAULT_PATH_LOSS_EXPONENT,
+    });
+  });
+
+  const points = [];
+  // Readings from one user at one timestamp were heard at the same place
+  const fixes = new Map();
+  rows.forEach((row, index) => {
+    if (typeof row.rssi !== 'number') return;
+    const pos = position(row, frame, enu);
+    if (pos) {
+      points.push({ index, ...pos, rssi: row.rssi, timestamp: row.timestamp ?? null, cell_id: row.cell_id ?? null, source: frame === 'enu' ? 'gnss' : 'xy' });
+      return;
+    }
+    const site = row.cell_id !== null && row.cell_id !== undefined ? sites.get(String(row.cell_id)) : undefined;
+    if (!site || row.timestamp === null || row.timestamp === undefined) return;
+    const key = `${row.user ?? ''}|${row.timestamp}`;
+    if (!fixes.has(key)) fixes.set(key, []);
+    fixes.get(key).push({ index, row, site });
+  });
+
+  fixes.forEach(readings => {
+    // Strongest reading per site; repeated readings of one site add no geometry
+    const bySite = new Map();
+    readings.forEach(reading => {
+      const best = bySite.get(reading.site.cell_id);
+      if (!best || reading.row.rssi > best.row.rssi) bySite.set(reading.site.cell_id, reading);
+    });
+    if (bySite.size < MIN_TRILATERATION_SITES) return;
+    const fix = trilaterate(Array.from(bySite.values(), ({ row, site }) => ({
+      x: site.x,
+      y: site.y,
+      distance: rssiToDistance(row.rssi, site),
+    })));
+    if (!fix) return;
+    readings.forEach(({ index, row }) => {
+      points.push({ index, x: fix.x, y: fix.y, rssi: row.rssi, timestamp: row.timestamp, cell_id: row.cell_id, source: 'trilateration', accuracy: fix.accuracy });
+    });
+  });
+
+  points.sort((a, b) => a.index - b.index);
+  const withRssi = rows.filter(row => typeof row.rssi === 'number').length;
+  return {
+    frame: points.length > 0 ? frame : null,
+    origin: points.length > 0 && origin ? { lat: origin.lat, lon: origin.lon } : null,
+    points,
+    sites: Array.from(sites.values(), ({ cell_id, x, y }) => ({ cell_id, x, y })),
+    unlocated: withRssi - points.length,
+  };
+}
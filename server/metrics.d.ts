@@ -0,0 +1,34 @@
+// Types for server/metrics.js, which src/utils/metrics.ts imports
+
+export type Technology = 'GSM' | 'UMTS' | 'LTE' | 'NR'
+
+export type MetricKey = 'rssi' | 'rxlev' | 'rscp' | 'ecno' | 'rsrp' | 'rsrq' | 'sinr' | 'ss_rsrp' | 'ss_sinr'
+
+// Metrics a quality profile has bands for; `wifi` is WiFi RSSI from the WiFi Analyzer
+export type ThresholdKey = MetricKey | 'wifi'
+
+// Inclusive lower bounds: at or above `excellent` is excellent, at or above `good` is good,
+// at or above `fair` is fair
+export interface Thresholds {
+  excellent: number
+  good: number
+  fair: number
+}
+
+export interface MetricDefinition {
+  key: MetricKey
+  label: string
+  unit: 'dBm' | 'dB'
+  technology: Technology | null // null for metrics every technology reports
+  range: [number, number] // values outside are measurement errors
+}
+
+type Row = { [key: string]: any }
+
+export const METRICS: Record<MetricKey, MetricDefinition>
+export const STANDARD_THRESHOLDS: Record<ThresholdKey, Thresholds>
+export const HEADLINE_METRIC: Record<Technology, MetricKey>
+
+export function metricValue(row: Row, metric: MetricKey): number | null
+export function technologyOf(row: Row): Technology | null
+export function headlineLevel(row: Row): { metric: MetricKey, value: number } | null
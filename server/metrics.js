@@ -0,0 +1,77 @@
+// Technology-specific signal metrics and the Standard quality bands. The one copy:
+// computed summaries and the dashboard (src/utils/metrics.ts) both import it, so
+// the server classifies rows exactly the way the pages do.
+
+// Plausible value range of each metric; readings outside it are measurement errors
+export const METRICS = {
+  rssi: { key: 'rssi', label: 'RSSI', unit: 'dBm', technology: null, range: [-140, -1] },
+  rxlev: { key: 'rxlev', label: 'GSM RxLev', unit: 'dBm', technology: 'GSM', range: [-110, -20] },
+  rscp: { key: 'rscp', label: 'UMTS RSCP', unit: 'dBm', technology: 'UMTS', range: [-120, -20] },
+  ecno: { key: 'ecno', label: 'UMTS Ec/No', unit: 'dB', technology: 'UMTS', range: [-24, 0] },
+  rsrp: { key: 'rsrp', label: 'LTE RSRP', unit: 'dBm', technology: 'LTE', range: [-140, -44] },
+  rsrq: { key: 'rsrq', label: 'LTE RSRQ', unit: 'dB', technology: 'LTE', range: [-34, 3] },
+  sinr: { key: 'sinr', label: 'LTE SINR', unit: 'dB', technology: 'LTE', range: [-23, 40] },
+  ss_rsrp: { key: 'ss_rsrp', label: 'NR SS-RSRP', unit: 'dBm', technology: 'NR', range: [-156, -31] },
+  ss_sinr: { key: 'ss_sinr', label: 'NR SS-SINR', unit: 'dB', technology: 'NR', range: [-23, 40] },
+};
+
+// Inclusive lower bounds of the excellent, good and fair bands in the Standard quality
+// profile; `wifi` is WiFi RSSI from the WiFi Analyzer
+export const STANDARD_THRESHOLDS = {
+  rssi: { excellent: -70, good: -85, fair: -100 },
+  rxlev: { excellent: -70, good: -85, fair: -100 },
+  rscp: { excellent: -75, good: -85, fair: -95 },
+  ecno: { excellent: -6, good: -10, fair: -15 },
+  rsrp: { excellent: -80, good: -90, fair: -100 },
+  rsrq: { excellent: -10, good: -15, fair: -20 },
+  sinr: { excellent: 20, good: 13, fair: 0 },
+  ss_rsrp: { excellent: -80, good: -90, fair: -100 },
+  ss_sinr: { excellent: 20, good: 13, fair: 0 },
+  wifi: { excellent: -50, good: -70, fair: -85 },
+};
+
+// The coverage metric each technology is judged by; quality metrics (RSRQ, SINR, Ec/No)
+// are shown alongside it
+export const HEADLINE_METRIC = {
+  GSM: 'rxlev',
+  UMTS: 'rscp',
+  LTE: 'rsrp',
+  NR: 'ss_rsrp',
+};
+
+// Newest first: NR-NSA rows can carry LTE metrics too
+const TECHNOLOGY_ORDER = ['NR', 'LTE', 'UMTS', 'GSM'];
+
+const TECHNOLOGY_NAMES = {
+  gsm: 'GSM', '2g': 'GSM', gprs: 'GSM', edge: 'GSM',
+  umts: 'UMTS', '3g': 'UMTS', wcdma: 'UMTS', hspa: 'UMTS', 'hspa+': 'UMTS',
+  lte: 'LTE', '4g': 'LTE', 'lte-a': 'LTE',
+  nr: 'NR', '5g': 'NR', '5g nr': 'NR', 'nr-sa': 'NR', 'nr-nsa': 'NR',
+};
+
+export function metricValue(row, metric) {
+  const value = row[metric];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  const [min, max] = METRICS[metric].range;
+  return value >= min && value <= max ? value : null;
+}
+
+// From a technology column when there is one, otherwise from the metrics the row reports
+export function technologyOf(row) {
+  const named = row.technology ?? row.tech ?? row.rat;
+  if (typeof named === 'string' && TECHNOLOGY_NAMES[named.trim().toLowerCase()]) {
+    return TECHNOLOGY_NAMES[named.trim().toLowerCase()];
+  }
+  return TECHNOLOGY_ORDER.find(tech => metricValue(row, HEADLINE_METRIC[tech]) !== null) ?? null;
+}
+
+// { metric, value } a row is classified by: its technology's headline metric, else RSSI
+export function headlineLevel(row) {
+  const technology = technologyOf(row);
+  if (technology) {
+    const value = metricValue(row, HEADLINE_METRIC[technology]);
+    if (value !== null) return { metric: HEADLINE_METRIC[technology], value };
+  }
+  const rssi = metricValue(row, 'rssi');
+  return rssi !== null ? { metric: 'rssi', value: rssi } : null;
+}
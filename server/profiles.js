@@ -0,0 +1,149 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { STANDARD_THRESHOLDS } from './metrics.js';
+
+// Signal-quality profiles: named tables of excellent/good/fair lower bounds, one per
+// metric. Built-in profiles are fixed; custom ones are stored in PROFILES_FILE and
+// edited from the Settings page.
+
+export const DEFAULT_PROFILE = 'standard';
+
+const PROFILES_FILE = 'quality_profiles.json';
+
+const THRESHOLD_KEYS = Object.keys(STANDARD_THRESHOLDS);
+
+const LTE_RSRP = { excellent: -80, good: -90, fair: -100 };
+
+const BUILT_IN_PROFILES = [
+  {
+    id: DEFAULT_PROFILE,
+    name: 'Standard',
+    description: 'Bands for each technology\'s own metrics; -70/-85/-100 dBm for RSSI',
+    builtIn: true,
+    thresholds: STANDARD_THRESHOLDS,
+  },
+  {
+    id: '3gpp-lte-rsrp',
+    name: '3GPP LTE RSRP',
+    description: 'LTE RSRP bands (-80/-90/-100 dBm) for every coverage level, whatever the technology',
+    builtIn: true,
+    thresholds: { ...STANDARD_THRESHOLDS, rssi: LTE_RSRP, rxlev: LTE_RSRP, rscp: LTE_RSRP, ss_rsrp: LTE_RSRP },
+  },
+  {
+    id: 'wifi',
+    name: 'WiFi',
+    description: 'WiFi bands (-50/-70/-85 dBm) for RSSI, for indoor WiFi surveys',
+    builtIn: true,
+    thresholds: { ...STANDARD_THRESHOLDS, rssi: STANDARD_THRESHOLDS.wifi },
+  },
+];
+
+// Serialize writes so concurrent edits don't drop each other
+let writeQueue = Promise.resolve();
+
+function profileError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+async function readCustomProfiles(dataDir) {
+  try {
+    return JSON.parse(await readFile(join(dataDir, PROFILES_FILE), 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function updateCustomProfiles(dataDir, update) {
+  const write = writeQueue.then(async () => {
+    const profiles = await readCustomProfiles(dataDir);
+    const result = update(profiles);
+    await mkdir(dataDir, { recursive: true });
+    await writeFile(join(dataDir, PROFILES_FILE), JSON.stringify(profiles, null, 2), 'utf-8');
+    return result;
+  });
+  writeQueue = write.catch(() => {});
+  return write;
+}
+
+export async function listProfiles(dataDir) {
+  return [...BUILT_IN_PROFILES, ...(await readCustomProfiles(dataDir))];
+}
+
+// The profile with this id, or Standard when there is none
+export async function resolveProfile(dataDir, id) {
+  if (!id) return BUILT_IN_PROFILES[0];
+  const profiles = await listProfiles(dataDir);
+  return profiles.find(p => p.id === id) || BUILT_IN_PROFILES[0];
+}
+
+// Metrics left out keep their Standard bands; each set must be strictly descending
+function parseThresholds(input) {
+  if (input !== undefined && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+    throw profileError(400, 'thresholds must be an object keyed by metric');
+  }
+  const thresholds = {};
+  THRESHOLD_KEYS.forEach(key => {
+    const bands = input?.[key];
+    if (bands === undefined) {
+      thresholds[key] = STANDARD_THRESHOLDS[key];
+      return;
+    }
+    const values = [bands?.excellent, bands?.good, bands?.fair];
+    if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      throw profileError(400, `${key}: excellent, good and fair must be numbers`);
+    }
+    if (!(values[0] > values[1] && values[1] > values[2])) {
+      throw profileError(400, `${key}: thresholds must satisfy excellent > good > fair`);
+    }
+    thresholds[key] = { excellent: values[0], good: values[1], fair: values[2] };
+  });
+  return thresholds;
+}
+
+function parseProfile(body) {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) throw profileError(400, 'Profile name is required');
+  return {
+    name: name.slice(0, 60),
+    description: typeof body.description === 'string' ? body.description.trim().slice(0, 200) : '',
+    thresholds: parseThresholds(body.thresholds),
+  };
+}
+
+function slugify(name) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'profile';
+}
+
+export async function createProfile(dataDir, body) {
+  const profile = {
+    id: `${slugify(body?.name ?? '')}-${Date.now().toString(36)}`,
+    ...parseProfile(body),
+    builtIn: false,
+    updatedAt: new Date().toISOString(),
+  };
+  await updateCustomProfiles(dataDir, profiles => profiles.push(profile));
+  return profile;
+}
+
+export async function updateProfile(dataDir, id, body) {
+  if (BUILT_IN_PROFILES.some(p => p.id === id)) throw profileError(400, 'Built-in profiles cannot be changed');
+  const fields = parseProfile(body);
+  return updateCustomProfiles(dataDir, profiles => {
+    const index = profiles.findIndex(p => p.id === id);
+    if (index === -1) throw profileError(404, `Profile not found: ${id}`);
+    profiles[index] = { ...profiles[index], ...fields, updatedAt: new Date().toISOString() };
+    return profiles[index];
+  });
+}
+
+export async function deleteProfile(dataDir, id) {
+  if (BUILT_IN_PROFILES.some(p => p.id === id)) throw profileError(400, 'Built-in profiles cannot be deleted');
+  await updateCustomProfiles(dataDir, profiles => {
+    const index = profiles.findIndex(p => p.id === id);
+    if (index === -1) throw profileError(404, `Profile not found: ${id}`);
+    profiles.splice(index, 1);
+  });
+}
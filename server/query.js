@@ -0,0 +1,95 @@
+// Pagination and filtering for signal data endpoints
+
+export const DEFAULT_LIMIT = 10000;
+export const MAX_LIMIT = 50000;
+
+function parseNumber(value, name) {
+  if (value === undefined || value === '') return undefined;
+  const num = Number(value);
+  if (!Number.isFinite(num)) throw new Error(`Invalid ${name}: ${value}`);
+  return num;
+}
+
+// Drive-test exports use epoch seconds, IndoorMapper sessions milliseconds; same rule
+// as toMillis in src/utils/api.ts
+const toMillis = (timestamp) => (timestamp < 1e11 ? timestamp * 1000 : timestamp);
+
+// Timestamps may be epoch seconds, epoch milliseconds or ISO strings; all come back
+// as epoch milliseconds so bounds and rows compare in one unit
+export function parseTime(value) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(value);
+  if (Number.isFinite(num)) return toMillis(num);
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function parseList(value) {
+  if (value === undefined || value === '') return undefined;
+  return String(value).split(',').map(v => v.trim()).filter(Boolean);
+}
+
+export function encodeCursor(offset) {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+export function parseDataQuery(query) {
+  const limit = parseNumber(query.limit, 'limit') ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  let offset = parseNumber(query.offset, 'offset') ?? 0;
+  if (query.cursor) offset = decodeCursor(query.cursor);
+  if (!Number.isInteger(offset) || offset < 0) throw new Error('offset must be a non-negative integer');
+
+  const start = parseTime(query.start);
+  const end = parseTime(query.end);
+  if (query.start && start === undefined) throw new Error(`Invalid start: ${query.start}`);
+  if (query.end && end === undefined) throw new Error(`Invalid end: ${query.end}`);
+
+  return {
+    limit,
+    offset,
+    filters: {
+      rssiMin: parseNumber(query.rssi_min, 'rssi_min'),
+      rssiMax: parseNumber(query.rssi_max, 'rssi_max'),
+      cellIds: parseList(query.cell_id),
+      bodyPositions: parseList(query.body_position)?.map(p => p.toLowerCase()),
+      start,
+      end,
+    },
+  };
+}
+
+export function matchesFilters(row, filters) {
+  const { rssiMin, rssiMax, cellIds, bodyPositions, start, end } = filters;
+
+  if (rssiMin !== undefined || rssiMax !== undefined) {
+    if (typeof row.rssi !== 'number' || Number.isNaN(row.rssi)) return false;
+    if (rssiMin !== undefined && row.rssi < rssiMin) return false;
+    if (rssiMax !== undefined && row.rssi > rssiMax) return false;
+  }
+  if (cellIds && !cellIds.includes(String(row.cell_id))) return false;
+  if (bodyPositions) {
+    const position = typeof row.body_position === 'string' ? row.body_position.trim().toLowerCase() : '';
+    if (!bodyPositions.includes(position)) return false;
+  }
+  if (start !== undefined || end !== undefined) {
+    const time = parseTime(row.timestamp);
+    if (time === undefined) return false;
+    if (start !== undefined && time < start) return false;
+    if (end !== undefined && time > end) return false;
+  }
+  return true;
+}
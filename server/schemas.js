@@ -0,0 +1,92 @@
+// Column schemas for the CSV files the server reads.
+// Types: string, number, integer, timestamp (epoch or ISO 8601, returned as a number),
+// boolean. Columns a schema does not list fall back to `otherColumns`.
+
+export const SIGNAL_DATA_SCHEMA = {
+  columns: {
+    timestamp: { type: 'timestamp' },
+    cell_id: { type: 'string' }, // identifiers keep leading zeros
+    rssi: { type: 'number' },
+    signal_strength: { type: 'number' },
+    body_position: { type: 'string' },
+    user: { type: 'string' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    lat: { type: 'number' }, // WGS84 degrees; latitude/longitude/lng are renamed to these
+    lon: { type: 'number' },
+    // Technology-specific metrics (see server/metrics.js)
+    technology: { type: 'string' },
+    rxlev: { type: 'number' },
+    rscp: { type: 'number' },
+    ecno: { type: 'number' },
+    rsrp: { type: 'number' },
+    rsrq: { type: 'number' },
+    sinr: { type: 'number' },
+    ss_rsrp: { type: 'number' },
+    ss_sinr: { type: 'number' },
+    // Written by IndoorMapper surveys
+    room: { type: 'string' },
+    anchor: { type: 'boolean' },
+    rssi_simulated: { type: 'boolean' },
+  },
+  otherColumns: 'auto',
+};
+
+// IndoorMapper surveys: the SignalData columns, with a position and reading on every row
+export const SURVEY_SCHEMA = {
+  columns: {
+    ...SIGNAL_DATA_SCHEMA.columns,
+    timestamp: { type: 'timestamp', required: true },
+    rssi: { type: 'number', required: true },
+    x: { type: 'number', required: true },
+    y: { type: 'number', required: true },
+  },
+  otherColumns: 'auto',
+};
+
+export const TOWER_SCHEMA = {
+  columns: {
+    cluster_id: { type: 'string' },
+    num_cells: { type: 'integer' },
+    avg_signal_dbm: { type: 'number' },
+    recommended_towers: { type: 'integer' },
+    priority: { type: 'string' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    lat: { type: 'number' },
+    lon: { type: 'number' },
+    tower_id: { type: 'integer' },
+  },
+  otherColumns: 'auto',
+};
+
+// Optional cell_sites.csv: where each cell's antenna is, for trilateration. Sites give
+// lat/lon or x/y in the data's own frame; the radio columns fall back to planner defaults.
+export const CELL_SITE_SCHEMA = {
+  columns: {
+    cell_id: { type: 'string', required: true },
+    lat: { type: 'number' },
+    lon: { type: 'number' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    tx_power_dbm: { type: 'number' },
+    frequency_mhz: { type: 'number' },
+    path_loss_exponent: { type: 'number' },
+  },
+  otherColumns: 'auto',
+};
+
+export const COVERAGE_SCHEMA = {
+  columns: {
+    cell_id: { type: 'string', required: true },
+    rssi_mean: { type: 'number' },
+    rssi_std: { type: 'number' },
+    rssi_min: { type: 'number' },
+    rssi_max: { type: 'number' },
+    rssi_count: { type: 'integer' },
+    stability_score: { type: 'number' },
+    coverage_score: { type: 'number' },
+    low_quality: { type: 'boolean' },
+  },
+  otherColumns: 'auto',
+};
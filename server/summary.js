@@ -0,0 +1,174 @@
+// SummaryStats and per-cell CoverageSummary rows computed from signal rows, for
+// datasets without summary_statistics.json or all_users_coverage_summary.csv
+
+import { STANDARD_THRESHOLDS, headlineLevel } from './metrics.js';
+
+// Each row is judged by its technology's headline metric (RSSI when it has none).
+// Below the profile's good threshold for it is a coverage gap (-85 dBm for RSSI in
+// the Standard profile, the planners' default); at or above excellent it is good signal.
+function weakMargin(level, thresholds) {
+  return level.value - thresholds[level.metric].good;
+}
+
+// Same grid the planning pages bin measurements into
+const GRID_SIZE = 2.0;
+
+function round(value, digits = 2) {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function median(values) {
+  if (values.length === 0) return 0;
+  const sorted = Float64Array.from(values).sort();
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Contiguous runs of weak grid cells; each hole needs at least one new site
+function countCoverageHoles(grid) {
+  const weak = new Set();
+  grid.forEach((cell, key) => {
+    if (cell.sum / cell.count < 0) weak.add(key);
+  });
+
+  const seen = new Set();
+  let holes = 0;
+  weak.forEach(start => {
+    if (seen.has(start)) return;
+    holes++;
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const [gx, gy] = stack.pop().split(',').map(Number);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const key = `${gx + dx},${gy + dy}`;
+          if (weak.has(key) && !seen.has(key)) {
+            seen.add(key);
+            stack.push(key);
+          }
+        }
+      }
+    }
+  });
+  return holes;
+}
+
+// rows: any (async) iterable of normalized signal rows.
+// towerCount: recommended towers from a tower file, when the dataset has one.
+// thresholds: the quality profile's bands per metric.
+export async function computeSummary(rows, towerCount = null, thresholds = STANDARD_THRESHOLDS) {
+  const rssiValues = [];
+  const cellIds = new Set();
+  const grid = new Map();
+  let total = 0;
+  let sum = 0;
+  let weak = 0;
+  let good = 0;
+  let measured = 0;
+
+  for await (const row of rows) {
+    total++;
+    if (row.cell_id !== null && row.cell_id !== undefined) cellIds.add(String(row.cell_id));
+
+    const rssi = row.rssi;
+    if (typeof rssi === 'number' && Number.isFinite(rssi) && rssi < 0) {
+      rssiValues.push(rssi);
+      sum += rssi;
+    }
+
+    const level = headlineLevel(row);
+    if (!level) continue;
+    measured++;
+    const margin = weakMargin(level, thresholds);
+    if (margin < 0) weak++;
+    if (level.value >= thresholds[level.metric].excellent) good++;
+
+    // Cells average the margin over the weak threshold, so mixed technologies compare in dB
+    if (typeof row.x === 'number' && typeof row.y === 'number') {
+      const key = `${Math.floor(row.x / GRID_SIZE)},${Math.floor(row.y / GRID_SIZE)}`;
+      const cell = grid.get(key) || { sum: 0, count: 0 };
+      cell.sum += margin;
+      cell.count++;
+      grid.set(key, cell);
+    }
+  }
+
+  const percent = (count, of) => (of > 0 ? round((count / of) * 100) : 0);
+
+  // Located data: share of occupied grid cells above the weak threshold.
+  // Without positions the best proxy is the share of measurements above it.
+  let coveragePercent;
+  if (grid.size > 0) {
+    let covered = 0;
+    grid.forEach(cell => {
+      if (cell.sum / cell.count >= 0) covered++;
+    });
+    coveragePercent = percent(covered, grid.size);
+  } else {
+    coveragePercent = percent(measured - weak, measured);
+  }
+
+  return {
+    total_records: total,
+    unique_cell_ids: cellIds.size,
+    mean_rssi: rssiValues.length > 0 ? round(sum / rssiValues.length) : 0,
+    median_rssi: round(median(rssiValues)),
+    weak_signal_count: weak,
+    weak_signal_percent: percent(weak, measured),
+    good_signal_count: good,
+    good_signal_percent: percent(good, measured),
+    recommended_towers: towerCount ?? countCoverageHoles(grid),
+    coverage_area_percent: coveragePercent,
+  };
+}
+
+// One CoverageSummary row per cell, most-measured first. The rssi_* fields describe
+// each reading's headline level, and `metric` names it when the cell is not RSSI.
+// stability_score is 1 / (1 + rssi_std); coverage_score is the share of readings
+// that are not weak, and a cell is low_quality when most of them are.
+export async function computeCoverage(rows, thresholds = STANDARD_THRESHOLDS) {
+  const cells = new Map();
+
+  for await (const row of rows) {
+    if (row.cell_id === null || row.cell_id === undefined) continue;
+    const level = headlineLevel(row);
+    if (!level) continue;
+
+    const id = String(row.cell_id);
+    let cell = cells.get(id);
+    if (!cell) {
+      cell = { count: 0, sum: 0, sumSq: 0, min: Infinity, max: -Infinity, weak: 0, metrics: new Map() };
+      cells.set(id, cell);
+    }
+    cell.count++;
+    cell.sum += level.value;
+    cell.sumSq += level.value * level.value;
+    cell.min = Math.min(cell.min, level.value);
+    cell.max = Math.max(cell.max, level.value);
+    if (weakMargin(level, thresholds) < 0) cell.weak++;
+    cell.metrics.set(level.metric, (cell.metrics.get(level.metric) ?? 0) + 1);
+  }
+
+  return Array.from(cells, ([cellId, cell]) => {
+    const mean = cell.sum / cell.count;
+    // Sample standard deviation, as the offline pipeline reports it
+    const variance = cell.count > 1 ? Math.max(0, (cell.sumSq - cell.count * mean * mean) / (cell.count - 1)) : 0;
+    const std = Math.sqrt(variance);
+    const coverage = (cell.count - cell.weak) / cell.count;
+    const metric = Array.from(cell.metrics).sort((a, b) => b[1] - a[1])[0][0];
+    return {
+      cell_id: cellId,
+      rssi_mean: round(mean),
+      rssi_std: round(std),
+      rssi_min: cell.min,
+      rssi_max: cell.max,
+      rssi_count: cell.count,
+      stability_score: round(1 / (1 + std), 4),
+      coverage_score: round(coverage, 4),
+      low_quality: coverage < 0.5,
+      ...(metric !== 'rssi' && { metric }),
+    };
+  }).sort((a, b) => b.rssi_count - a.rssi_count);
+}
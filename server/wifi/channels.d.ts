@@ -0,0 +1,10 @@
+// Types for server/wifi/channels.js, which src/utils/wifiChannels.ts imports
+
+export type Band = '2.4' | '5' | '6'
+
+export const CHANNELS: { band: Band, channel: number, frequency: number }[]
+
+export function channelFrequency(band: Band, channel: number): number
+export function channelToFrequency(channel: number, band?: Band | null): number | null
+export function frequencyToChannel(frequency: number): number | null
+export function frequencyToBand(frequency: number): Band | null
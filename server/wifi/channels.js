@@ -0,0 +1,41 @@
+// IEEE 802.11 channel numbering for the 2.4, 5 and 6 GHz bands
+
+function range(start, end, step) {
+  const values = [];
+  for (let v = start; v <= end; v += step) values.push(v);
+  return values;
+}
+
+// Centre frequency in MHz of a channel in a band. The one copy of the formulas: the
+// WiFi Analyzer's overlap scoring (src/utils/wifiChannels.ts) imports it too.
+export function channelFrequency(band, channel) {
+  if (band === '2.4') return channel === 14 ? 2484 : 2407 + channel * 5;
+  if (band === '5') return 5000 + channel * 5;
+  return channel === 2 ? 5935 : 5950 + channel * 5;
+}
+
+const channelsIn = (band, channels) => channels.map(channel => ({ band, channel, frequency: channelFrequency(band, channel) }));
+
+// Every 20 MHz channel with its centre frequency in MHz
+export const CHANNELS = [
+  ...channelsIn('2.4', range(1, 14, 1)),
+  ...channelsIn('5', [...range(32, 144, 4), ...range(149, 177, 4)]),
+  ...channelsIn('6', [2, ...range(1, 233, 4)]),
+];
+
+const BY_FREQUENCY = new Map(CHANNELS.map(c => [c.frequency, c]));
+
+// Channel numbers repeat between bands (6 GHz restarts at 1), so without a band
+// hint 1-14 are read as 2.4 GHz and everything else as 5 GHz
+export function channelToFrequency(channel, band = null) {
+  const resolvedBand = band ?? (channel <= 14 ? '2.4' : '5');
+  return CHANNELS.find(c => c.band === resolvedBand && c.channel === channel)?.frequency ?? null;
+}
+
+export function frequencyToChannel(frequency) {
+  return BY_FREQUENCY.get(Math.round(frequency))?.channel ?? null;
+}
+
+export function frequencyToBand(frequency) {
+  return BY_FREQUENCY.get(Math.round(frequency))?.band ?? null;
+}
@@ -0,0 +1,136 @@
+import { appendFile } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+// Rolling WiFi sample history. The server samples on its own timer so the history
+// keeps growing while no page is open; simulated readings are never recorded.
+// With a log file every sample is also appended as a JSON line, and the most
+// recent lines are reloaded on startup.
+
+export const DEFAULT_CAPACITY = 17280; // 24 hours at the default 5 second interval
+export const DEFAULT_INTERVAL_MS = 5000;
+
+function parseSpeed(speed) {
+  const mbps = parseFloat(speed ?? '');
+  return Number.isFinite(mbps) ? mbps : null;
+}
+
+export function toSample(info, timestamp = Date.now()) {
+  return {
+    timestamp,
+    ssid: info.ssid,
+    bssid: info.bssid,
+    signalStrength: info.signalStrength,
+    speedMbps: parseSpeed(info.speed),
+    channel: info.channel,
+    frequency: info.frequency,
+    provider: info.provider,
+  };
+}
+
+// A roaming event is a change of access point between consecutive samples
+export function findRoamingEvents(samples) {
+  const events = [];
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    if (previous.bssid && current.bssid && previous.bssid !== current.bssid) {
+      events.push({
+        timestamp: current.timestamp,
+        from: previous.bssid,
+        to: current.bssid,
+        fromChannel: previous.channel,
+        toChannel: current.channel,
+      });
+    }
+  }
+  return events;
+}
+
+export function createWiFiHistory({ readInfo, capacity = DEFAULT_CAPACITY, intervalMs = DEFAULT_INTERVAL_MS, logFile = null }) {
+  const samples = [];
+  let timer = null;
+  let sampling = false;
+
+  const push = (sample) => {
+    samples.push(sample);
+    if (samples.length > capacity) samples.splice(0, samples.length - capacity);
+  };
+
+  const record = async (info) => {
+    if (!info || info.simulated) return null;
+    const sample = toSample(info);
+    push(sample);
+    if (logFile) {
+      try {
+        await appendFile(logFile, JSON.stringify(sample) + '\n', 'utf-8');
+      } catch (error) {
+        console.error('WiFi log write failed:', error.message);
+      }
+    }
+    return sample;
+  };
+
+  const loadLog = async () => {
+    if (!logFile) return;
+    try {
+      const loaded = [];
+      const lines = createInterface({ input: createReadStream(logFile, { encoding: 'utf-8' }), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          loaded.push(JSON.parse(line));
+        } catch {
+          // skip a partially written line
+        }
+        // Trim in batches; a long-running log can hold far more than fits in memory
+        if (loaded.length >= capacity * 2) loaded.splice(0, loaded.length - capacity);
+      }
+      loaded.slice(-capacity).forEach(push);
+    } catch (error) {
+      if (error.code !== 'ENOENT') console.error('WiFi log read failed:', error.message);
+    }
+  };
+
+  const sampleOnce = async () => {
+    if (sampling) return;
+    sampling = true;
+    try {
+      await record(await readInfo());
+    } catch (error) {
+      console.error('WiFi sampling failed:', error.message);
+    } finally {
+      sampling = false;
+    }
+  };
+
+  return {
+    record,
+
+    async start() {
+      await loadLog();
+      if (intervalMs > 0 && !timer) {
+        timer = setInterval(sampleOnce, intervalMs);
+        timer.unref();
+        sampleOnce();
+      }
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    query({ since, limit } = {}) {
+      let selected = since !== undefined ? samples.filter(s => s.timestamp >= since) : samples;
+      if (limit !== undefined && selected.length > limit) selected = selected.slice(selected.length - limit);
+      return {
+        samples: selected,
+        roamingEvents: findRoamingEvents(selected),
+        intervalMs,
+        capacity,
+        logging: logFile !== null,
+      };
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+import { readLinuxWiFi, scanLinuxWiFi } from './linux.js';
+import { readMacWiFi, scanMacWiFi } from './macos.js';
+import { channelToFrequency } from './channels.js';
+import { STANDARD_THRESHOLDS } from '../metrics.js';
+
+// Pluggable WiFi providers. Each one reads the live connection for its platform
+// and returns null when it can't; fields it cannot determine are null rather than
+// guessed. Only when every provider fails does the response fall back to demo
+// values, and then it is flagged `simulated: true`.
+
+const execFileAsync = promisify(execFile);
+const COMMAND_TIMEOUT_MS = 3000;
+
+const PROVIDERS = [
+  { name: 'linux', platforms: ['linux'], read: readLinuxWiFi, scan: scanLinuxWiFi },
+  { name: 'macos', platforms: ['darwin'], read: readMacWiFi, scan: scanMacWiFi },
+];
+
+const systemEnv = {
+  run: async (cmd, args) => (await execFileAsync(cmd, args, { timeout: COMMAND_TIMEOUT_MS })).stdout,
+  readText: (path) => readFile(path, 'utf-8'),
+};
+
+// Standard profile's WiFi bands, inclusive at each lower bound like the dashboard's
+// classify; the dashboard reclassifies with the active profile
+export function signalQuality(rssi, thresholds = STANDARD_THRESHOLDS.wifi) {
+  if (rssi === null || rssi === undefined) return null;
+  if (rssi >= thresholds.excellent) return 'excellent';
+  if (rssi >= thresholds.good) return 'good';
+  if (rssi >= thresholds.fair) return 'fair';
+  return 'poor';
+}
+
+const SIMULATED = {
+  interface: null,
+  ssid: 'Your WiFi Network',
+  bssid: 'XX:XX:XX:XX:XX:XX',
+  signalStrength: -65,
+  frequency: 2400,
+  channel: 6,
+  security: 'WPA2/WPA3',
+  speed: '150 Mbps',
+  ipAddress: '192.168.1.100',
+  subnet: '255.255.255.0',
+  gateway: '192.168.1.1',
+};
+
+export async function getWiFiInfo(env = systemEnv, platform = process.platform) {
+  for (const provider of PROVIDERS) {
+    if (!provider.platforms.includes(platform)) continue;
+    const info = await provider.read(env);
+    if (info) {
+      return { ...info, quality: signalQuality(info.signalStrength), provider: provider.name, simulated: false };
+    }
+  }
+  return { ...SIMULATED, quality: signalQuality(SIMULATED.signalStrength), provider: 'simulated', simulated: true };
+}
+
+function simulatedNetwork(ssid, bssid, band, channel, width, signalStrength, security, connected = false) {
+  return {
+    ssid, bssid, channel, frequency: channelToFrequency(channel, band), band, width,
+    signalStrength, rssiEstimated: false, security, connected,
+  };
+}
+
+const SIMULATED_SCAN = [
+  simulatedNetwork('Your WiFi Network', 'XX:XX:XX:XX:XX:XX', '2.4', 6, 20, -65, 'WPA2/WPA3', true),
+  simulatedNetwork('Neighbor-2G', '02:00:00:00:00:01', '2.4', 1, 20, -72, 'WPA2'),
+  simulatedNetwork('Office Guest', '02:00:00:00:00:02', '2.4', 6, 40, -80, 'Open'),
+  simulatedNetwork('Printer', '02:00:00:00:00:03', '2.4', 11, 20, -84, 'WPA2'),
+  simulatedNetwork('Neighbor-5G', '02:00:00:00:00:04', '5', 36, 80, -70, 'WPA2'),
+  simulatedNetwork('Cafe 5G', '02:00:00:00:00:05', '5', 149, 80, -78, 'WPA2/WPA3'),
+  simulatedNetwork('Neighbor-6G', '02:00:00:00:00:06', '6', 37, 160, -74, 'WPA3'),
+];
+
+// All visible access points; `simulated` marks demo results
+export async function scanWiFi(env = systemEnv, platform = process.platform) {
+  for (const provider of PROVIDERS) {
+    if (!provider.platforms.includes(platform)) continue;
+    const networks = await provider.scan(env);
+    if (networks) return { networks, provider: provider.name, simulated: false };
+  }
+  return { networks: SIMULATED_SCAN, provider: 'simulated', simulated: true };
+}
@@ -0,0 +1,276 @@
+import { frequencyToChannel, frequencyToBand } from './channels.js';
+
+// Linux provider: NetworkManager (nmcli), iw and /proc/net/wireless.
+// The parse* functions take raw command output so they can be checked against
+// captured samples without a wireless card.
+
+// Split one line of `nmcli -t` output; colons inside values are escaped as \:
+export function splitTerse(line) {
+  const fields = [];
+  let field = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\' && i + 1 < line.length) {
+      field += line[++i];
+    } else if (char === ':') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// `nmcli -t -f DEVICE,TYPE,STATE dev`: the first connected wifi interface
+export function parseNmcliDevices(output) {
+  for (const line of output.split('\n')) {
+    const [device, type, state] = splitTerse(line.trim());
+    if (type === 'wifi' && state === 'connected') return device;
+  }
+  return null;
+}
+
+// `nmcli -t -f ACTIVE,SSID,BSSID,CHAN,FREQ,RATE,SIGNAL,SECURITY dev wifi list`: the active access point
+export function parseNmcliWifiList(output) {
+  for (const line of output.split('\n')) {
+    const [active, ssid, bssid, chan, freq, rate, signal, security] = splitTerse(line.trim());
+    if (active !== 'yes') continue;
+    const channel = parseInt(chan, 10);
+    const frequency = parseInt(freq, 10);
+    const rateMbps = parseFloat(rate);
+    const signalPercent = parseInt(signal, 10);
+    return {
+      ssid: ssid || null,
+      bssid: bssid ? bssid.toUpperCase() : null,
+      channel: Number.isFinite(channel) ? channel : null,
+      frequency: Number.isFinite(frequency) ? frequency : null,
+      speed: Number.isFinite(rateMbps) ? `${rateMbps} Mbps` : null,
+      signalPercent: Number.isFinite(signalPercent) ? signalPercent : null,
+      security: security && security !== '--' ? security.trim().split(/\s+/).join('/') : 'Open',
+    };
+  }
+  return null;
+}
+
+function prefixToSubnet(prefix) {
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return [24, 16, 8, 0].map(shift => (mask >>> shift) & 255).join('.');
+}
+
+// `nmcli -t -f IP4.ADDRESS,IP4.GATEWAY dev show <iface>`
+export function parseNmcliDeviceShow(output) {
+  const result = { ipAddress: null, subnet: null, gateway: null };
+  for (const line of output.split('\n')) {
+    const [key, value] = splitTerse(line.trim());
+    if (!value) continue;
+    if (key.startsWith('IP4.ADDRESS') && !result.ipAddress) {
+      const [address, prefix] = value.split('/');
+      result.ipAddress = address;
+      const bits = parseInt(prefix, 10);
+      if (Number.isInteger(bits) && bits >= 0 && bits <= 32) result.subnet = prefixToSubnet(bits);
+    } else if (key === 'IP4.GATEWAY' && value !== '--') {
+      result.gateway = value;
+    }
+  }
+  return result;
+}
+
+// `iw dev <iface> link`
+export function parseIwLink(output) {
+  const connected = output.match(/^Connected to ([0-9a-fA-F:]{17})/m);
+  if (!connected) return null;
+
+  const ssid = output.match(/^\s*SSID: (.*)$/m);
+  const freq = output.match(/^\s*freq: ([\d.]+)/m);
+  const signal = output.match(/^\s*signal: (-?\d+) dBm/m);
+  const rxRate = output.match(/^\s*rx bitrate: ([\d.]+) MBit\/s/m);
+  const txRate = output.match(/^\s*tx bitrate: ([\d.]+) MBit\/s/m);
+  const frequency = freq ? Math.round(parseFloat(freq[1])) : null;
+  const rate = txRate || rxRate;
+
+  return {
+    bssid: connected[1].toUpperCase(),
+    ssid: ssid ? ssid[1].trim() : null,
+    frequency,
+    channel: frequency ? frequencyToChannel(frequency) : null,
+    signalStrength: signal ? parseInt(signal[1], 10) : null,
+    speed: rate ? `${parseFloat(rate[1])} Mbps` : null,
+  };
+}
+
+// /proc/net/wireless: signal level per interface (dBm, or 0-255 scaled on old drivers)
+export function parseProcWireless(output, iface = null) {
+  for (const line of output.split('\n').slice(2)) {
+    const match = line.match(/^\s*([^:\s]+):\s+\S+\s+(-?[\d.]+)\s+(-?[\d.]+)/);
+    if (!match || (iface && match[1] !== iface)) continue;
+    let level = parseFloat(match[3]);
+    if (level > 0) level -= 256;
+    return { interface: match[1], signalStrength: Math.round(level) };
+  }
+  return null;
+}
+
+// Reads the live connection through whichever tools are installed.
+// run(cmd, args) resolves to stdout or rejects; readText(path) resolves to the file contents.
+export async function readLinuxWiFi({ run, readText }) {
+  const attempt = async (fn) => {
+    try {
+      return await fn();
+    } catch {
+      return null;
+    }
+  };
+
+  const proc = await attempt(async () => parseProcWireless(await readText('/proc/net/wireless')));
+  const iface = (await attempt(async () => parseNmcliDevices(await run('nmcli', ['-t', '-f', 'DEVICE,TYPE,STATE', 'dev']))))
+    || proc?.interface
+    || null;
+  if (!iface) return null;
+
+  const link = await attempt(async () => parseIwLink(await run('iw', ['dev', iface, 'link'])));
+  const ap = await attempt(async () => parseNmcliWifiList(await run('nmcli', [
+    '-t', '-f', 'ACTIVE,SSID,BSSID,CHAN,FREQ,RATE,SIGNAL,SECURITY', 'dev', 'wifi', 'list', 'ifname', iface, '--rescan', 'no',
+  ])));
+  const address = await attempt(async () => parseNmcliDeviceShow(await run('nmcli', [
+    '-t', '-f', 'IP4.ADDRESS,IP4.GATEWAY', 'dev', 'show', iface,
+  ])));
+  const ifaceLevel = proc && proc.interface === iface ? proc : null;
+
+  // iw reports dBm directly; /proc/net/wireless is the fallback. nmcli only has a percentage.
+  const signalStrength = link?.signalStrength ?? ifaceLevel?.signalStrength ?? null;
+  const ssid = link?.ssid ?? ap?.ssid ?? null;
+  if (ssid === null && signalStrength === null) return null;
+
+  const frequency = link?.frequency ?? ap?.frequency ?? null;
+  return {
+    interface: iface,
+    ssid,
+    bssid: link?.bssid ?? ap?.bssid ?? null,
+    signalStrength,
+    frequency,
+    channel: link?.channel ?? ap?.channel ?? (frequency ? frequencyToChannel(frequency) : null),
+    security: ap?.security ?? null,
+    speed: link?.speed ?? ap?.speed ?? null,
+    ipAddress: address?.ipAddress ?? null,
+    subnet: address?.subnet ?? null,
+    gateway: address?.gateway ?? null,
+  };
+}
+
+// NetworkManager (nm_wifi_utils_level_to_quality) clamps dBm to -100..-40 and scales
+// that range linearly to 0-100%; invert that
+export function percentToDbm(percent) {
+  return Math.round(percent * 0.6 - 100);
+}
+
+function securityFromBlock(block) {
+  const rsn = block.match(/^\s*RSN:[\s\S]*?Authentication suites: (.*)$/m)?.[1] ?? null;
+  if (rsn) {
+    const suites = rsn.split(/\s+/);
+    const wpa3 = suites.includes('SAE');
+    const wpa2 = suites.includes('PSK');
+    if (suites.includes('IEEE') || rsn.includes('802.1X')) return 'WPA2-Enterprise';
+    if (wpa3 && wpa2) return 'WPA2/WPA3';
+    if (wpa3) return 'WPA3';
+    return 'WPA2';
+  }
+  if (/^\s*WPA:/m.test(block)) return 'WPA';
+  if (/capability:.*\bPrivacy\b/.test(block)) return 'WEP';
+  return 'Open';
+}
+
+function widthFromBlock(block) {
+  const sixGhz = block.match(/Channel Width:\s*(\d+)\s*MHz/i);
+  if (sixGhz) return parseInt(sixGhz[1], 10);
+  const vht = block.match(/^\s*\* channel width: (\d)/m);
+  if (vht && vht[1] === '1') return 80;
+  if (vht && (vht[1] === '2' || vht[1] === '3')) return 160;
+  if (/secondary channel offset: (above|below)/.test(block)) return 40;
+  return 20;
+}
+
+// `iw dev <iface> scan dump`: cached scan results with real dBm values
+export function parseIwScan(output) {
+  return output
+    .split(/^BSS /m)
+    .slice(1)
+    .map(block => {
+      const bssid = block.match(/^([0-9a-fA-F:]{17})/)?.[1];
+      const freq = block.match(/^\s*freq: ([\d.]+)/m);
+      const signal = block.match(/^\s*signal: (-?[\d.]+) dBm/m);
+      if (!bssid || !freq) return null;
+      const frequency = Math.round(parseFloat(freq[1]));
+      return {
+        ssid: block.match(/^\s*SSID: (.*)$/m)?.[1].trim() || null,
+        bssid: bssid.toUpperCase(),
+        channel: frequencyToChannel(frequency),
+        frequency,
+        band: frequencyToBand(frequency),
+        width: widthFromBlock(block),
+        signalStrength: signal ? Math.round(parseFloat(signal[1])) : null,
+        rssiEstimated: false,
+        security: securityFromBlock(block),
+        connected: /^[0-9a-fA-F:]{17}\(on [^)]*\) -- associated/.test(block),
+      };
+    })
+    .filter(network => network !== null && network.band !== null);
+}
+
+// `nmcli -t -f IN-USE,SSID,BSSID,FREQ,SIGNAL,SECURITY[,BANDWIDTH] dev wifi list`
+export function parseNmcliScan(output) {
+  return output
+    .split('\n')
+    .map(line => {
+      const [inUse, ssid, bssid, freq, signal, security, bandwidth] = splitTerse(line.trim());
+      const frequency = parseInt(freq, 10);
+      const percent = parseInt(signal, 10);
+      if (!bssid || !Number.isFinite(frequency)) return null;
+      const width = parseInt(bandwidth ?? '', 10);
+      return {
+        ssid: ssid || null,
+        bssid: bssid.toUpperCase(),
+        channel: frequencyToChannel(frequency),
+        frequency,
+        band: frequencyToBand(frequency),
+        width: Number.isFinite(width) ? width : null,
+        signalStrength: Number.isFinite(percent) ? percentToDbm(percent) : null,
+        rssiEstimated: true,
+        security: security && security !== '--' ? security.trim().split(/\s+/).join('/') : 'Open',
+        connected: inUse === '*',
+      };
+    })
+    .filter(network => network !== null && network.band !== null);
+}
+
+// Visible access points: iw's cached scan first (real dBm), nmcli as the fallback
+export async function scanLinuxWiFi({ run, readText }) {
+  const attempt = async (fn) => {
+    try {
+      return await fn();
+    } catch {
+      return null;
+    }
+  };
+
+  const proc = await attempt(async () => parseProcWireless(await readText('/proc/net/wireless')));
+  const iface = (await attempt(async () => parseNmcliDevices(await run('nmcli', ['-t', '-f', 'DEVICE,TYPE,STATE', 'dev']))))
+    || proc?.interface
+    || null;
+
+  if (iface) {
+    const iwNetworks = await attempt(async () => parseIwScan(await run('iw', ['dev', iface, 'scan', 'dump'])));
+    if (iwNetworks && iwNetworks.length > 0) return iwNetworks;
+  }
+
+  const ifaceArgs = iface ? ['ifname', iface] : [];
+  // BANDWIDTH needs NetworkManager 1.44+; older versions reject the field
+  for (const fields of ['IN-USE,SSID,BSSID,FREQ,SIGNAL,SECURITY,BANDWIDTH', 'IN-USE,SSID,BSSID,FREQ,SIGNAL,SECURITY']) {
+    const networks = await attempt(async () => parseNmcliScan(await run('nmcli', [
+      '-t', '-f', fields, 'dev', 'wifi', 'list', ...ifaceArgs, '--rescan', 'no',
+    ])));
+    if (networks && networks.length > 0) return networks;
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+import { channelToFrequency } from './channels.js';
+
+// macOS provider: the airport utility bundled with Apple80211.framework
+
+const AIRPORT = '/System/Library/PrivateFrameworks/Apple80211.framework/Versions/Current/Resources/airport';
+
+// airport writes channels as "6", "36,+1" / "6,-1" (40 MHz) or "149,80" (80 MHz)
+function parseAirportChannel(text) {
+  const [primary, extra] = text.split(',');
+  const channel = parseInt(primary, 10);
+  if (!Number.isFinite(channel)) return { channel: null, width: null };
+  let width = 20;
+  if (extra === '+1' || extra === '-1') width = 40;
+  else if (/^\d+$/.test(extra ?? '')) width = parseInt(extra, 10);
+  return { channel, width };
+}
+
+// `airport -I`
+export function parseAirport(output) {
+  const field = (name) => output.match(new RegExp(`^\\s*${name}: (.*)$`, 'm'))?.[1].trim() ?? null;
+
+  const ssid = field('SSID');
+  const rssi = parseInt(field('agrCtlRSSI') ?? '', 10);
+  if (!ssid && !Number.isFinite(rssi)) return null;
+
+  const { channel } = parseAirportChannel(field('channel') ?? '');
+  const txRate = parseFloat(field('lastTxRate') ?? '');
+  const auth = field('link auth');
+
+  return {
+    interface: null,
+    ssid,
+    bssid: field('BSSID')?.toUpperCase() ?? null,
+    signalStrength: Number.isFinite(rssi) ? rssi : null,
+    frequency: channel !== null ? channelToFrequency(channel) : null,
+    channel,
+    security: auth ? auth.toUpperCase() : null,
+    speed: Number.isFinite(txRate) ? `${txRate} Mbps` : null,
+    ipAddress: null,
+    subnet: null,
+    gateway: null,
+  };
+}
+
+export async function readMacWiFi({ run }) {
+  try {
+    return parseAirport(await run(AIRPORT, ['-I']));
+  } catch {
+    return null;
+  }
+}
+
+// `airport -s`: SSID BSSID RSSI CHANNEL HT CC SECURITY, with SSIDs right-aligned
+export function parseAirportScan(output) {
+  return output
+    .split('\n')
+    .slice(1)
+    .map(line => {
+      const match = line.match(/^\s*(.*?)\s+([0-9a-fA-F:]{11,17})\s+(-?\d+)\s+(\S+)\s+[YN]\s+\S+\s+(.*)$/);
+      if (!match) return null;
+      const { channel, width } = parseAirportChannel(match[4]);
+      if (channel === null) return null;
+      const frequency = channelToFrequency(channel);
+      const security = match[5].trim().split(/\s+/)[0].split('(')[0];
+      return {
+        ssid: match[1] || null,
+        bssid: match[2].toUpperCase(),
+        channel,
+        frequency,
+        band: channel <= 14 ? '2.4' : '5',
+        width,
+        signalStrength: parseInt(match[3], 10),
+        rssiEstimated: false,
+        security: !security || security === 'NONE' ? 'Open' : security,
+        connected: false,
+      };
+    })
+    .filter(network => network !== null && network.frequency !== null);
+}
+
+export async function scanMacWiFi({ run }) {
+  try {
+    const networks = parseAirportScan(await run(AIRPORT, ['-s']));
+    return networks.length > 0 ? networks : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,12 +1,19 @@
 import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom'
-import { BarChart3, Users, TrendingUp, Wifi, MapPin, Smartphone, Info } from 'lucide-react'
+import { BarChart3, Users, TrendingUp, Wifi, MapPin, Smartphone, Info, RadioTower, GitCompare, SlidersHorizontal, Antenna } from 'lucide-react'
 import Overview from './pages/Overview'
 import UserAnalysis from './pages/UserAnalysis'
+import Cells from './pages/Cells'
 import Visualizations from './pages/Visualizations'
 import WiFiAnalyzer from './pages/WiFiAnalyzer'
 import LocalNetworkPlanner from './pages/LocalNetworkPlanner'
+import NetworkPlanner from './pages/NetworkPlanner'
+import TowerRecommendations from './pages/TowerRecommendations'
 import IndoorMapper from './pages/IndoorMapper'
 import About from './pages/About'
+import Settings from './pages/Settings'
+import { DatasetProvider } from './components/DatasetContext'
+import DatasetPicker from './components/DatasetPicker'
+import { QualityProfileProvider } from './components/QualityProfileContext'
 
 function Navigation() {
   const location = useLocation()
@@ -14,10 +21,14 @@ function Navigation() {
   const navItems = [
     { path: '/', label: 'Overview', icon: BarChart3 },
     { path: '/users', label: 'Signal Analysis', icon: Users },
+    { path: '/cells', label: 'Cells', icon: Antenna },
     { path: '/wifi', label: 'WiFi Analyzer', icon: Wifi },
     { path: '/indoor', label: 'Indoor Mapper', icon: Smartphone },
     { path: '/local', label: 'Local Network Planner', icon: MapPin },
+    { path: '/planner', label: 'Network Planner', icon: RadioTower },
+    { path: '/towers', label: 'Tower Comparison', icon: GitCompare },
     { path: '/visualizations', label: 'Visualizations', icon: TrendingUp },
+    { path: '/settings', label: 'Settings', icon: SlidersHorizontal },
     { path: '/about', label: 'About', icon: Info },
   ]
 
@@ -33,7 +44,7 @@ function Navigation() {
             <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
               {navItems.map((item) => {
                 const Icon = item.icon
-                const isActive = location.pathname === item.path
+                const isActive = location.pathname === item.path || (item.path !== '/' && location.pathname.startsWith(`${item.path}/`))
                 return (
                   <Link
                     key={item.path}
@@ -51,6 +62,9 @@ function Navigation() {
               })}
             </div>
           </div>
+          <div className="flex items-center">
+            <DatasetPicker />
+          </div>
         </div>
       </div>
     </nav>
@@ -60,20 +74,29 @@ function Navigation() {
 function App() {
   return (
     <Router>
-      <div className="min-h-screen bg-gray-50">
-        <Navigation />
-        <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-          <Routes>
-            <Route path="/" element={<Overview />} />
-            <Route path="/users" element={<UserAnalysis />} />
-            <Route path="/wifi" element={<WiFiAnalyzer />} />
-            <Route path="/indoor" element={<IndoorMapper />} />
-            <Route path="/local" element={<LocalNetworkPlanner />} />
-            <Route path="/visualizations" element={<Visualizations />} />
-            <Route path="/about" element={<About />} />
-          </Routes>
-        </main>
-      </div>
+      <DatasetProvider>
+        <QualityProfileProvider>
+          <div className="min-h-screen bg-gray-50">
+            <Navigation />
+            <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+              <Routes>
+                <Route path="/" element={<Overview />} />
+                <Route path="/users" element={<UserAnalysis />} />
+                <Route path="/cells" element={<Cells />} />
+                <Route path="/cells/:cellId" element={<Cells />} />
+                <Route path="/wifi" element={<WiFiAnalyzer />} />
+                <Route path="/indoor" element={<IndoorMapper />} />
+                <Route path="/local" element={<LocalNetworkPlanner />} />
+                <Route path="/planner" element={<NetworkPlanner />} />
+                <Route path="/towers" element={<TowerRecommendations />} />
+                <Route path="/visualizations" element={<Visualizations />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/about" element={<About />} />
+              </Routes>
+            </main>
+          </div>
+        </QualityProfileProvider>
+      </DatasetProvider>
     </Router>
   )
 }
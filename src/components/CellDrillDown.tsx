@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts'
+import { api, CoverageSummary, SignalData, toMillis } from '../utils/api'
+import { getPositionIcon, normalizePosition } from '../utils/bodyPositions'
+import { projectSignalData } from '../utils/geo'
+import {
+  METRICS,
+  MetricKey,
+  QUALITIES,
+  QUALITY_CLASSES,
+  QUALITY_COLORS,
+  classify,
+  countByQuality,
+  headlineLevel,
+  headlineMetrics,
+  qualityColor,
+  qualityLabel,
+  qualityOf,
+} from '../utils/metrics'
+import { ProfileNote, useQualityProfile } from './QualityProfileContext'
+
+interface CellDrillDownProps {
+  cellId: string
+  summary: CoverageSummary | null
+  dataset: string
+  onClose: () => void
+}
+
+// Readings fetched per cell; the charts say when a cell has more
+const MAX_CELL_READINGS = 20000
+const MAX_TIME_POINTS = 500
+const MAX_FOOTPRINT_POINTS = 3000
+const BIN_WIDTH = 5 // dB
+
+const formatDateTime = (timestamp: number) => new Date(toMillis(timestamp)).toLocaleString()
+
+// Every reading of one cell: level distribution, level over time, body positions and
+// where it was heard
+export default function CellDrillDown({ cellId, summary, dataset, onClose }: CellDrillDownProps) {
+  const { profile } = useQualityProfile()
+  const [rows, setRows] = useState<SignalData[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      const page = await api.getDataPage(undefined, { dataset, cell_id: cellId, limit: MAX_CELL_READINGS })
+      setRows(page.rows)
+      setTotal(page.total)
+      setLoading(false)
+    }
+    loadData()
+  }, [dataset, cellId])
+
+  const levels = useMemo(
+    () => rows.flatMap(row => {
+      const level = headlineLevel(row)
+      return level ? [{ row, ...level }] : []
+    }),
+    [rows]
+  )
+
+  // A cell belongs to one technology, so its most common headline metric labels the charts
+  const metric: MetricKey = useMemo(() => headlineMetrics(rows)[0] ?? summary?.metric ?? 'rssi', [rows, summary])
+  const { label, unit } = METRICS[metric]
+  const cellLevels = useMemo(() => levels.filter(l => l.metric === metric), [levels, metric])
+
+  const distribution = useMemo(() => {
+    if (cellLevels.length === 0) return []
+    const values = cellLevels.map(l => l.value)
+    const min = Math.floor(values.reduce((a, b) => Math.min(a, b)) / BIN_WIDTH) * BIN_WIDTH
+    const max = Math.floor(values.reduce((a, b) => Math.max(a, b)) / BIN_WIDTH) * BIN_WIDTH
+    const bins = Array.from({ length: (max - min) / BIN_WIDTH + 1 }, (_, idx) => ({
+      range: `${min + idx * BIN_WIDTH} to ${min + (idx + 1) * BIN_WIDTH}`,
+      mid: min + (idx + 0.5) * BIN_WIDTH,
+      count: 0,
+    }))
+    cellLevels.forEach(l => bins[Math.floor((l.value - min) / BIN_WIDTH)].count++)
+    return bins
+  }, [cellLevels])
+
+  const timeSeries = useMemo(() => {
+    const timed = cellLevels
+      .filter(l => typeof l.row.timestamp === 'number')
+      .sort((a, b) => a.row.timestamp! - b.row.timestamp!)
+    const step = Math.max(1, Math.ceil(timed.length / MAX_TIME_POINTS))
+    return timed
+      .filter((_, idx) => idx % step === 0)
+      .map(l => ({ time: toMillis(l.row.timestamp!), value: l.value }))
+  }, [cellLevels])
+
+  const positions = useMemo(() => {
+    const byPosition = new Map<string, SignalData[]>()
+    rows.forEach(row => {
+      const position = normalizePosition(row.body_position)
+      if (!byPosition.has(position)) byPosition.set(position, [])
+      byPosition.get(position)!.push(row)
+    })
+    return Array.from(byPosition, ([position, positionRows]) => ({
+      position: `${getPositionIcon(position)} ${position}`,
+      ...countByQuality(positionRows, profile),
+      total: positionRows.length,
+    })).sort((a, b) => b.total - a.total)
+  }, [rows, profile])
+
+  const footprint = useMemo(() => {
+    const { data, projection } = projectSignalData(rows)
+    const located = data.filter(d => typeof d.x === 'number' && typeof d.y === 'number' && qualityOf(d, profile) !== null)
+    if (located.length === 0) return null
+    const xs = located.map(d => d.x!)
+    const ys = located.map(d => d.y!)
+    const step = Math.max(1, Math.ceil(located.length / MAX_FOOTPRINT_POINTS))
+    return {
+      projected: projection !== null,
+      located: located.length,
+      centroid: { x: xs.reduce((a, b) => a + b, 0) / xs.length, y: ys.reduce((a, b) => a + b, 0) / ys.length },
+      width: xs.reduce((a, b) => Math.max(a, b)) - xs.reduce((a, b) => Math.min(a, b)),
+      height: ys.reduce((a, b) => Math.max(a, b)) - ys.reduce((a, b) => Math.min(a, b)),
+      points: located
+        .filter((_, idx) => idx % step === 0)
+        .map(d => ({ x: d.x, y: d.y, quality: qualityOf(d, profile)! })),
+    }
+  }, [rows, profile])
+
+  const meanQuality = summary ? classify(summary.rssi_mean, summary.metric ?? 'rssi', profile) : null
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            Cell {cellId}
+            {meanQuality && (
+              <span className={`ml-3 px-3 py-1 rounded-full text-sm font-semibold capitalize ${QUALITY_CLASSES[meanQuality].badge}`}>
+                {meanQuality}
+              </span>
+            )}
+          </h2>
+          <p className="text-sm text-gray-600">
+            {loading
+              ? 'Loading readings...'
+              : `${rows.length.toLocaleString()} readings${total > rows.length ? ` (first ${rows.length.toLocaleString()} of ${total.toLocaleString()})` : ''} · ${label}`}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-600 hover:text-gray-900" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          {[
+            { label: 'Mean', value: `${summary.rssi_mean.toFixed(1)} ${unit}` },
+            { label: 'Std Dev', value: `${summary.rssi_std.toFixed(1)} dB` },
+            { label: 'Range', value: `${summary.rssi_min} to ${summary.rssi_max} ${unit}` },
+            { label: 'Readings', value: summary.rssi_count.toLocaleString() },
+            { label: 'Stability', value: summary.stability_score.toFixed(3) },
+            { label: 'Coverage', value: summary.coverage_score.toFixed(3) },
+          ].map(stat => (
+            <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">{stat.label}</p>
+              <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-600">No readings for this cell in the selected dataset.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 mb-2">{label} Distribution</h3>
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart data={distribution}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="range" angle={-45} textAnchor="end" height={70} />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="count" name="Readings" radius={[4, 4, 0, 0]}>
+                  {distribution.map((entry, index) => (
+                    <Cell key={`bin-${index}`} fill={qualityColor(entry.mid, metric, profile)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 mb-2">{label} Over Time</h3>
+            {timeSeries.length > 0 ? (
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={timeSeries}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(t: number) => new Date(t).toLocaleTimeString()}
+                  />
+                  <YAxis label={{ value: unit, angle: -90, position: 'insideLeft' }} />
+                  <Tooltip labelFormatter={(t: number) => formatDateTime(t)} />
+                  <Line type="monotone" dataKey="value" name={label} stroke="#3b82f6" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-gray-600">No timestamps recorded for this cell.</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 mb-2">Body Positions</h3>
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart data={positions}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="position" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                {QUALITIES.map(quality => (
+                  <Bar key={quality} dataKey={quality} stackId="a" fill={QUALITY_COLORS[quality]} name={qualityLabel(quality, metric, profile)} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <ProfileNote />
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 mb-2">Location Footprint</h3>
+            {footprint ? (
+              <>
+                <ResponsiveContainer width="100%" height={280}>
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="x" name={footprint.projected ? 'East (m)' : 'X'} domain={['auto', 'auto']} />
+                    <YAxis type="number" dataKey="y" name={footprint.projected ? 'North (m)' : 'Y'} domain={['auto', 'auto']} />
+                    <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                    <Scatter data={footprint.points} fill="#3b82f6">
+                      {footprint.points.map((entry, index) => (
+                        <Cell key={`point-${index}`} fill={QUALITY_COLORS[entry.quality]} />
+                      ))}
+                    </Scatter>
+                  </ScatterChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-gray-500 mt-2">
+                  {footprint.located.toLocaleString()} located readings centred at ({footprint.centroid.x.toFixed(1)}, {footprint.centroid.y.toFixed(1)}),
+                  spanning {footprint.width.toFixed(1)} × {footprint.height.toFixed(1)}{footprint.projected ? ' m' : ' units'}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">No positions recorded for this cell.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import { AlertTriangle } from 'lucide-react'
+
+// Says so when a page is working from fewer readings than the dataset has
+export default function DataLimitNote({ loaded, total }: { loaded: number, total: number }) {
+  if (loaded >= total) return null
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded flex items-start text-sm">
+      <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+      <span>
+        Showing the first {loaded.toLocaleString()} of {total.toLocaleString()} readings. Every chart and statistic on
+        this page covers only those.
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { api, Dataset, DatasetUpload, DEFAULT_DATASET, SignalData } from '../utils/api'
+
+const STORAGE_KEY = 'selectedDataset'
+
+interface DatasetContextValue {
+  datasets: Dataset[]
+  dataset: string
+  setDataset: (id: string) => void
+  upload: (file: File, name?: string) => Promise<DatasetUpload>
+  uploadSurvey: (name: string, rows: SignalData[]) => Promise<DatasetUpload>
+}
+
+const DatasetContext = createContext<DatasetContextValue | null>(null)
+
+// Tracks which dataset every page reads from; the choice survives reloads
+export function DatasetProvider({ children }: { children: ReactNode }) {
+  const [datasets, setDatasets] = useState<Dataset[]>([])
+  const [dataset, setDatasetState] = useState<string>(
+    () => localStorage.getItem(STORAGE_KEY) || DEFAULT_DATASET
+  )
+
+  const setDataset = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id)
+    setDatasetState(id)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    const list = await api.getDatasets()
+    setDatasets(list)
+    return list
+  }, [])
+
+  useEffect(() => {
+    refresh().then(list => {
+      // A dataset picked in an earlier session may no longer exist on the server
+      if (list.length > 0 && !list.some(d => d.id === localStorage.getItem(STORAGE_KEY))) {
+        setDataset(DEFAULT_DATASET)
+      }
+    })
+  }, [refresh, setDataset])
+
+  const upload = useCallback(async (file: File, name?: string) => {
+    const result = await api.uploadDataset(file, name)
+    await refresh()
+    setDataset(result.dataset.id)
+    return result
+  }, [refresh, setDataset])
+
+  const uploadSurvey = useCallback(async (name: string, rows: SignalData[]) => {
+    const result = await api.uploadSurvey(name, rows)
+    await refresh()
+    setDataset(result.dataset.id)
+    return result
+  }, [refresh, setDataset])
+
+  return (
+    <DatasetContext.Provider value={{ datasets, dataset, setDataset, upload, uploadSurvey }}>
+      {children}
+    </DatasetContext.Provider>
+  )
+}
+
+export function useDataset(): DatasetContextValue {
+  const context = useContext(DatasetContext)
+  if (!context) throw new Error('useDataset must be used inside DatasetProvider')
+  return context
+}
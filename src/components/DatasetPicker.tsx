@@ -0,0 +1,70 @@
+import { useRef, useState, ChangeEvent } from 'react'
+import { Database, Upload } from 'lucide-react'
+import { useDataset } from './DatasetContext'
+
+export default function DatasetPicker() {
+  const { datasets, dataset, setDataset, upload } = useDataset()
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setUploading(true)
+    setMessage(null)
+    try {
+      const { dataset: added } = await upload(file)
+      const rejected = added.rejectedRows ? `, ${added.rejectedRows} rejected` : ''
+      setMessage({ text: `${added.rows} rows loaded${rejected}`, error: false })
+    } catch (error: any) {
+      setMessage({ text: error.message, error: true })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  // Keep the current choice visible while the list is still loading
+  const options = datasets.some(d => d.id === dataset) ? datasets : [...datasets, { id: dataset, name: dataset }]
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Database className="w-4 h-4 text-gray-500" />
+      <select
+        value={dataset}
+        onChange={(e) => setDataset(e.target.value)}
+        className="max-w-[12rem] px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        title="Dataset used by every page"
+      >
+        {options.map(d => (
+          <option key={d.id} value={d.id}>
+            {d.name}{d.rows !== undefined ? ` (${d.rows.toLocaleString()})` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading}
+        className="inline-flex items-center px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        title="Upload a CSV or JSON drive-test file"
+      >
+        <Upload className="w-4 h-4 mr-1" />
+        {uploading ? 'Uploading...' : 'Upload'}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={handleFile}
+        className="hidden"
+      />
+      {message && (
+        <span className={`text-xs max-w-[10rem] truncate ${message.error ? 'text-red-600' : 'text-green-600'}`} title={message.text}>
+          {message.text}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useMemo, useRef, useState, ChangeEvent, MouseEvent } from 'react'
+import { Upload, Ruler, Crosshair, Pentagon, Trash2, X } from 'lucide-react'
+import { Point } from '../utils/propagation'
+import {
+  FloorPlan,
+  distance,
+  loadFloorPlanImage,
+  metersToPixels,
+  pixelsToMeters,
+  polygonCentroid,
+  scaleFromPoints,
+} from '../utils/floorPlan'
+import { Raster } from '../utils/interpolation'
+import { qualityColor } from '../utils/metrics'
+import { RasterLayer, rasterToCanvas } from './RasterHeatmap'
+import { useQualityProfile } from './QualityProfileContext'
+
+interface PlanMeasurement extends Point {
+  rssi: number
+  anchor?: boolean
+}
+
+interface FloorPlanEditorProps {
+  plan: FloorPlan | null
+  onChange: (plan: FloorPlan | null) => void
+  measurements: PlanMeasurement[]
+  raster: Raster | null
+  layer: RasterLayer
+  currentPosition: Point | null
+  onPlace?: (point: Point) => void // survey taps, in walk meters
+}
+
+type EditMode = 'view' | 'scale' | 'origin' | 'room'
+
+const MODE_HINTS: Record<EditMode, string> = {
+  view: '',
+  scale: 'Click two points a known distance apart, then enter the distance.',
+  origin: 'Click where your walks start. Set the rotation so your first step direction matches the plan.',
+  room: 'Click the corners of a room, then name it and save.',
+}
+
+const toPoints = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ')
+
+export default function FloorPlanEditor({ plan, onChange, measurements, raster, layer, currentPosition, onPlace }: FloorPlanEditorProps) {
+  const [mode, setMode] = useState<EditMode>('view')
+  const [scalePoints, setScalePoints] = useState<Point[]>([])
+  const [scaleDistance, setScaleDistance] = useState(5)
+  const [draftRoom, setDraftRoom] = useState<Point[]>([])
+  const [draftName, setDraftName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { profile } = useQualityProfile()
+  const rasterImage = useMemo(
+    () => (raster ? rasterToCanvas(raster, profile.thresholds.rssi, layer, 0.55).toDataURL() : null),
+    [raster, profile, layer]
+  )
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      onChange(await loadFloorPlanImage(file))
+      setError(null)
+      setMode('scale')
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const changeMode = (next: EditMode) => {
+    setMode(current => (current === next ? 'view' : next))
+    setScalePoints([])
+    setDraftRoom([])
+  }
+
+  // Screen position → image pixel, independent of how the SVG is scaled on screen
+  const toImagePoint = (event: MouseEvent<SVGSVGElement>): Point | null => {
+    const svg = svgRef.current
+    const ctm = svg?.getScreenCTM()
+    if (!svg || !ctm) return null
+    const point = svg.createSVGPoint()
+    point.x = event.clientX
+    point.y = event.clientY
+    const { x, y } = point.matrixTransform(ctm.inverse())
+    return { x, y }
+  }
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!plan) return
+    const point = toImagePoint(event)
+    if (!point) return
+    if (mode === 'view') {
+      const meters = pixelsToMeters(plan, point)
+      if (onPlace && meters) onPlace(meters)
+      return
+    }
+    if (mode === 'scale') setScalePoints(prev => (prev.length >= 2 ? [point] : [...prev, point]))
+    if (mode === 'origin') onChange({ ...plan, origin: point })
+    if (mode === 'room') setDraftRoom(prev => [...prev, point])
+  }
+
+  const applyScale = () => {
+    if (!plan || scalePoints.length !== 2) return
+    const metersPerPixel = scaleFromPoints(scalePoints[0], scalePoints[1], scaleDistance)
+    if (metersPerPixel === null) return
+    onChange({ ...plan, metersPerPixel })
+    setScalePoints([])
+    setMode('origin')
+  }
+
+  const saveRoom = () => {
+    const name = draftName.trim()
+    if (!plan || draftRoom.length < 3 || !name) return
+    onChange({ ...plan, rooms: [...plan.rooms, { name, points: draftRoom }] })
+    setDraftRoom([])
+    setDraftName('')
+  }
+
+  const removeRoom = (index: number) => {
+    if (!plan) return
+    onChange({ ...plan, rooms: plan.rooms.filter((_, idx) => idx !== index) })
+  }
+
+  if (!plan) {
+    return (
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+        <p className="text-sm text-gray-600 mb-4">
+          Upload a floor plan (PNG, JPEG or SVG) to see measurements on your layout and assign rooms automatically.
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 inline-flex items-center"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Upload Floor Plan
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*,.svg" onChange={handleFile} className="hidden" />
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+    )
+  }
+
+  // Marker sizes in image pixels, kept readable whatever the image resolution
+  const unit = Math.max(plan.width, plan.height) / 150
+  // Maps raster image pixels (one per cell, north row first) onto the plan, including its rotation
+  const rasterTransform = (() => {
+    if (!raster || !plan.metersPerPixel) return null
+    const r = (plan.rotation * Math.PI) / 180
+    const s = raster.cellSize / plan.metersPerPixel
+    const top = raster.y0 + raster.rows * raster.cellSize
+    const e = plan.origin.x + (raster.x0 * Math.cos(r) + top * Math.sin(r)) / plan.metersPerPixel
+    const f = plan.origin.y + (raster.x0 * Math.sin(r) - top * Math.cos(r)) / plan.metersPerPixel
+    return `matrix(${s * Math.cos(r)} ${s * Math.sin(r)} ${-s * Math.sin(r)} ${s * Math.cos(r)} ${e} ${f})`
+  })()
+  const currentPixel = currentPosition ? metersToPixels(plan, currentPosition) : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {([
+          { mode: 'scale', label: 'Set Scale', icon: Ruler },
+          { mode: 'origin', label: 'Set Start Point', icon: Crosshair },
+          { mode: 'room', label: 'Draw Room', icon: Pentagon },
+        ] as const).map(item => (
+          <button
+            key={item.mode}
+            onClick={() => changeMode(item.mode)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center ${
+              mode === item.mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <item.icon className="w-4 h-4 mr-2" />
+            {item.label}
+          </button>
+        ))}
+        <label className="flex items-center text-sm text-gray-600 ml-2">
+          Rotation
+          <input
+            type="number"
+            step={5}
+            value={plan.rotation}
+            onChange={(e) => onChange({ ...plan, rotation: Number(e.target.value) || 0 })}
+            className="ml-2 w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+          <span className="ml-1">°</span>
+        </label>
+        <button
+          onClick={() => onChange(null)}
+          className="ml-auto px-3 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 flex items-center"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Remove Plan
+        </button>
+      </div>
+
+      {mode !== 'view' && <p className="text-sm text-blue-800 bg-blue-50 rounded p-2">{MODE_HINTS[mode]}</p>}
+      {!plan.metersPerPixel && mode !== 'scale' && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 rounded p-2">
+          Set the scale before measurements and rooms can be placed on the plan.
+        </p>
+      )}
+
+      {mode === 'scale' && scalePoints.length === 2 && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-600">{distance(scalePoints[0], scalePoints[1]).toFixed(0)} px =</span>
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={scaleDistance}
+            onChange={(e) => setScaleDistance(Number(e.target.value))}
+            className="w-24 border border-gray-300 rounded-md px-2 py-1"
+          />
+          <span className="text-gray-600">m</span>
+          <button onClick={applyScale} className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            Apply
+          </button>
+        </div>
+      )}
+
+      {mode === 'room' && draftRoom.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="Room name"
+            className="border border-gray-300 rounded-md px-2 py-1"
+          />
+          <button
+            onClick={saveRoom}
+            disabled={draftRoom.length < 3 || !draftName.trim()}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save Room ({draftRoom.length} corners)
+          </button>
+          <button onClick={() => setDraftRoom([])} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${plan.width} ${plan.height}`}
+        className={`w-full border border-gray-200 rounded ${mode === 'view' && !onPlace ? '' : 'cursor-crosshair'}`}
+        style={{ maxHeight: 600 }}
+        onClick={handleClick}
+      >
+        <image href={plan.image} width={plan.width} height={plan.height} />
+
+        {plan.rooms.map((room, idx) => {
+          const centre = polygonCentroid(room.points)
+          return (
+            <g key={`room-${idx}`}>
+              <polygon points={toPoints(room.points)} fill="#6366f1" fillOpacity={0.08} stroke="#6366f1" strokeWidth={unit / 4} />
+              <text x={centre.x} y={centre.y} fontSize={unit * 2} textAnchor="middle" fill="#4338ca">{room.name}</text>
+            </g>
+          )
+        })}
+
+        {plan.metersPerPixel && (
+          <>
+            {rasterImage && rasterTransform && raster && (
+              <image
+                href={rasterImage}
+                width={raster.cols}
+                height={raster.rows}
+                transform={rasterTransform}
+                preserveAspectRatio="none"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            )}
+            {measurements.map((m, idx) => {
+              const p = metersToPixels(plan, m)!
+              return (
+                <circle
+                  key={`m-${idx}`}
+                  cx={p.x}
+                  cy={p.y}
+                  r={m.anchor ? unit * 0.8 : unit / 2}
+                  fill={qualityColor(m.rssi, 'rssi', profile)}
+                  stroke={m.anchor ? '#111827' : 'none'}
+                  strokeWidth={unit / 5}
+                />
+              )
+            })}
+            {currentPixel && (
+              <circle cx={currentPixel.x} cy={currentPixel.y} r={unit} fill="#000000" stroke="#ffffff" strokeWidth={unit / 4} />
+            )}
+          </>
+        )}
+
+        {/* Start point */}
+        <g stroke="#dc2626" strokeWidth={unit / 4}>
+          <line x1={plan.origin.x - unit * 1.5} y1={plan.origin.y} x2={plan.origin.x + unit * 1.5} y2={plan.origin.y} />
+          <line x1={plan.origin.x} y1={plan.origin.y - unit * 1.5} x2={plan.origin.x} y2={plan.origin.y + unit * 1.5} />
+        </g>
+
+        {scalePoints.map((p, idx) => (
+          <circle key={`scale-${idx}`} cx={p.x} cy={p.y} r={unit / 2} fill="#dc2626" />
+        ))}
+        {scalePoints.length === 2 && (
+          <line x1={scalePoints[0].x} y1={scalePoints[0].y} x2={scalePoints[1].x} y2={scalePoints[1].y} stroke="#dc2626" strokeWidth={unit / 4} strokeDasharray={`${unit} ${unit / 2}`} />
+        )}
+
+        {draftRoom.length > 0 && (
+          <polygon points={toPoints(draftRoom)} fill="#f59e0b" fillOpacity={0.15} stroke="#f59e0b" strokeWidth={unit / 4} strokeDasharray={`${unit} ${unit / 2}`} />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span>
+          Scale: {plan.metersPerPixel ? `${(1 / plan.metersPerPixel).toFixed(1)} px/m` : 'not set'}
+        </span>
+        {plan.rooms.map((room, idx) => (
+          <span key={`chip-${idx}`} className="inline-flex items-center bg-indigo-50 text-indigo-800 rounded-full px-3 py-1">
+            {room.name}
+            <button onClick={() => removeRoom(idx)} className="ml-1 hover:text-red-600" title={`Remove ${room.name}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeftRight, Repeat, Timer, TrendingUp } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { SignalData } from '../utils/api'
+import { analyzeHandovers } from '../utils/handovers'
+
+const PING_PONG_WINDOWS = [
+  { label: '5 s', ms: 5_000 },
+  { label: '10 s', ms: 10_000 },
+  { label: '30 s', ms: 30_000 },
+  { label: '60 s', ms: 60_000 },
+]
+
+// A cell change across a longer recording gap is counted as a reselection
+const MAX_GAP_MS = 60_000
+
+// Largest handover matrix drawn; the busiest cells are kept
+const MATRIX_CELLS = 12
+const PING_PONG_CELLS = 20
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`
+  if (ms < 3_600_000) return `${(ms / 60_000).toFixed(1)} min`
+  return `${(ms / 3_600_000).toFixed(1)} h`
+}
+
+// Handovers between serving cells in the loaded readings: who hands over to whom, how
+// often it bounces straight back and how long each cell holds the device
+// total is the dataset's reading count; when data is only a prefix the results say so
+export default function HandoverPanel({ data, total }: { data: SignalData[], total: number }) {
+  const [pingPongWindowMs, setPingPongWindowMs] = useState(PING_PONG_WINDOWS[1].ms)
+
+  const analysis = useMemo(() => analyzeHandovers(data, { pingPongWindowMs, maxGapMs: MAX_GAP_MS }), [data, pingPongWindowMs])
+
+  const matrixCells = useMemo(() => {
+    const totals = new Map<string, number>()
+    Object.entries(analysis.matrix).forEach(([from, row]) => {
+      Object.entries(row).forEach(([to, count]) => {
+        totals.set(from, (totals.get(from) ?? 0) + count)
+        totals.set(to, (totals.get(to) ?? 0) + count)
+      })
+    })
+    return Array.from(totals)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MATRIX_CELLS)
+      .map(([cellId]) => cellId)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  }, [analysis])
+
+  const matrixMax = Math.max(1, ...matrixCells.flatMap(from => matrixCells.map(to => analysis.matrix[from]?.[to] ?? 0)))
+
+  const pingPongCells = analysis.cells
+    .filter(cell => cell.handoversOut > 0)
+    .slice(0, PING_PONG_CELLS)
+    .map(cell => ({ ...cell, ratePercent: cell.pingPongRate * 100 }))
+
+  if (analysis.changes.length === 0) return null
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Handovers</h2>
+          <p className="text-sm text-gray-600">
+            Serving-cell changes per user, in time order. A change across a recording gap over {formatDuration(MAX_GAP_MS)} counts as a reselection.
+          </p>
+          {data.length < total && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 rounded p-2 mt-2">
+              Partial result: computed over the first {data.length.toLocaleString()} of {total.toLocaleString()} readings.
+              Handovers, ping-pongs and dwell times in the rest of the trace are not counted.
+            </p>
+          )}
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          Ping-pong window
+          <select
+            value={pingPongWindowMs}
+            onChange={(e) => setPingPongWindowMs(Number(e.target.value))}
+            className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {PING_PONG_WINDOWS.map(w => <option key={w.ms} value={w.ms}>{w.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Handovers', value: analysis.handovers.toLocaleString(), icon: ArrowLeftRight, color: 'text-blue-500' },
+          {
+            label: 'Ping-Pongs',
+            value: `${analysis.pingPongs.toLocaleString()}${analysis.handovers > 0 ? ` (${((analysis.pingPongs / analysis.handovers) * 100).toFixed(1)}%)` : ''}`,
+            icon: Repeat,
+            color: 'text-red-500',
+          },
+          { label: 'Reselections', value: analysis.reselections.toLocaleString(), icon: Timer, color: 'text-purple-500' },
+          {
+            label: 'Mean Level Change',
+            value: analysis.meanLevelDelta !== null ? `${analysis.meanLevelDelta >= 0 ? '+' : ''}${analysis.meanLevelDelta.toFixed(1)} dB` : 'N/A',
+            icon: TrendingUp,
+            color: 'text-green-500',
+          },
+        ].map(stat => (
+          <div key={stat.label} className="bg-gray-50 rounded-lg p-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">{stat.label}</p>
+              <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+            </div>
+            <stat.icon className={`w-7 h-7 ${stat.color}`} />
+          </div>
+        ))}
+      </div>
+
+      {matrixCells.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium text-gray-800 mb-2">Handover Matrix</h3>
+          <p className="text-xs text-gray-500 mb-2">
+            Rows are the cell handed over from, columns the cell handed over to
+            {matrixCells.length === MATRIX_CELLS ? ` (the ${MATRIX_CELLS} busiest cells)` : ''}.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">From \ To</th>
+                  {matrixCells.map(to => (
+                    <th key={to} className="px-3 py-2 text-xs font-medium text-gray-700">{to}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrixCells.map(from => (
+                  <tr key={from}>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-700">{from}</th>
+                    {matrixCells.map(to => {
+                      const count = analysis.matrix[from]?.[to] ?? 0
+                      const alpha = count / matrixMax
+                      return (
+                        <td
+                          key={to}
+                          className={`px-3 py-2 text-center border border-gray-100 ${alpha > 0.6 ? 'text-white' : 'text-gray-900'}`}
+                          style={{ backgroundColor: from === to ? '#f3f4f6' : `rgba(59, 130, 246, ${alpha})` }}
+                        >
+                          {from === to ? '' : count}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {pingPongCells.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 mb-2">Ping-Pong Rate by Cell</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={pingPongCells}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="cellId" />
+                <YAxis unit="%" domain={[0, 100]} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Bar dataKey="ratePercent" name="Ping-pong rate" fill="#ef4444" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cell ID</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Handovers Out</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ping-Pongs</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Median Dwell</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Total Dwell</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {pingPongCells.map(cell => (
+                  <tr key={cell.cellId} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                      <Link to={`/cells/${encodeURIComponent(cell.cellId)}`} className="text-primary-600 hover:text-primary-800">
+                        {cell.cellId}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{cell.handoversOut.toLocaleString()}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {cell.pingPongs.toLocaleString()} ({cell.ratePercent.toFixed(1)}%)
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatDuration(cell.medianMs)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatDuration(cell.totalMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
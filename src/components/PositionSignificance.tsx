@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react'
+import { getPositionIcon } from '../utils/bodyPositions'
+import { Correction, TestMethod, compareGroups } from '../utils/stats'
+
+const METHODS: { value: TestMethod, label: string }[] = [
+  { value: 'parametric', label: 'ANOVA + Welch t-tests' },
+  { value: 'rank', label: 'Kruskal-Wallis + Mann-Whitney U' },
+]
+
+const CORRECTIONS: { value: Correction, label: string }[] = [
+  { value: 'holm', label: 'Holm' },
+  { value: 'bonferroni', label: 'Bonferroni' },
+]
+
+const ALPHAS = [0.05, 0.01, 0.001]
+
+function formatP(p: number): string {
+  return p < 0.001 ? '< 0.001' : p.toFixed(3)
+}
+
+const withIcon = (position: string) => `${getPositionIcon(position)} ${position}`
+
+// Whether RSSI really differs between body positions: an omnibus test across all of
+// them, then every pair with the p-values corrected for the number of pairs
+export default function PositionSignificance({ groups }: { groups: Record<string, number[]> }) {
+  const [method, setMethod] = useState<TestMethod>('parametric')
+  const [correction, setCorrection] = useState<Correction>('holm')
+  const [alpha, setAlpha] = useState(ALPHAS[0])
+
+  const result = useMemo(() => compareGroups(groups, { method, correction, alpha }), [groups, method, correction, alpha])
+  const confidence = `${Math.round((1 - alpha) * 1000) / 10}%`
+
+  if (!result.omnibus) return null
+  const { omnibus } = result
+  const omnibusSignificant = omnibus.pValue < alpha
+  const significantPairs = result.pairs.filter(p => p.significant).length
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Are the Position Differences Significant?</h2>
+          <p className="text-sm text-gray-600">
+            {significantPairs} of {result.pairs.length} position pairs differ at α = {alpha}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Tests
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as TestMethod)}
+              className="mt-1 block border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              {METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Correction
+            <select
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value as Correction)}
+              className="mt-1 block border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              {CORRECTIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Significance level
+            <select
+              value={alpha}
+              onChange={(e) => setAlpha(Number(e.target.value))}
+              className="mt-1 block border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              {ALPHAS.map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className={`rounded-lg p-4 ${omnibusSignificant ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-700'}`}>
+        <p className="text-sm font-medium">
+          {omnibus.test === 'anova'
+            ? `One-way ANOVA: F(${(omnibus.df as [number, number]).join(', ')}) = ${omnibus.statistic.toFixed(2)}`
+            : `Kruskal-Wallis: H(${omnibus.df}) = ${omnibus.statistic.toFixed(2)}`}
+          , p {omnibus.pValue < 0.001 ? '' : '= '}{formatP(omnibus.pValue)}
+        </p>
+        <p className="text-sm">
+          {omnibusSignificant
+            ? 'RSSI differs between at least two body positions.'
+            : 'No significant RSSI difference between body positions.'}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Position</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Readings</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Mean RSSI</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{confidence} CI</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Std Dev</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {result.groups.map(group => (
+              <tr key={group.name}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{withIcon(group.name)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{group.n.toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{group.mean.toFixed(2)} dBm</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {group.ciLow.toFixed(2)} to {group.ciHigh.toFixed(2)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{group.std.toFixed(2)} dB</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-800 mb-2">Pairwise Comparisons</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pair</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Mean Difference</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{confidence} CI</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{method === 'parametric' ? 't' : 'z'}</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">p</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Adjusted p</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.pairs.map(pair => (
+                <tr key={`${pair.a}-${pair.b}`} className={pair.significant ? 'bg-green-50' : ''}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {withIcon(pair.a)} vs {withIcon(pair.b)}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {pair.meanDifference >= 0 ? '+' : ''}{pair.meanDifference.toFixed(2)} dB
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {pair.ciLow.toFixed(2)} to {pair.ciHigh.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{pair.statistic.toFixed(2)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatP(pair.pValue)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatP(pair.adjustedPValue)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    {pair.significant ? (
+                      <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">Significant</span>
+                    ) : (
+                      <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">Not significant</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Mean difference is the first position minus the second, with a Welch interval.
+          {' '}{correction === 'holm' ? 'Holm' : 'Bonferroni'} correction over {result.pairs.length} pairs.
+        </p>
+      </div>
+    </div>
+  )
+}
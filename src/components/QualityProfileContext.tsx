@@ -0,0 +1,78 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { api } from '../utils/api'
+import { QualityProfile, STANDARD_PROFILE } from '../utils/metrics'
+
+const STORAGE_KEY = 'qualityProfile'
+
+type ProfileDraft = Pick<QualityProfile, 'name' | 'description' | 'thresholds'> & { id?: string }
+
+interface QualityProfileContextValue {
+  profiles: QualityProfile[]
+  profile: QualityProfile // the active one every page classifies with
+  setProfile: (id: string) => void
+  saveProfile: (draft: ProfileDraft) => Promise<QualityProfile>
+  deleteProfile: (id: string) => Promise<void>
+}
+
+const QualityProfileContext = createContext<QualityProfileContextValue | null>(null)
+
+// Profiles live on the server; which one is active is remembered per browser
+export function QualityProfileProvider({ children }: { children: ReactNode }) {
+  const [profiles, setProfiles] = useState<QualityProfile[]>([STANDARD_PROFILE])
+  const [activeId, setActiveId] = useState<string>(
+    () => localStorage.getItem(STORAGE_KEY) || STANDARD_PROFILE.id
+  )
+
+  const setProfile = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id)
+    setActiveId(id)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    const list = await api.getQualityProfiles()
+    if (list.length > 0) setProfiles(list)
+    return list
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const saveProfile = useCallback(async (draft: ProfileDraft) => {
+    const saved = await api.saveQualityProfile(draft)
+    await refresh()
+    return saved
+  }, [refresh])
+
+  const deleteProfile = useCallback(async (id: string) => {
+    await api.deleteQualityProfile(id)
+    await refresh()
+    if (id === activeId) setProfile(STANDARD_PROFILE.id)
+  }, [refresh, activeId, setProfile])
+
+  // A profile picked earlier may have been deleted since
+  const profile = profiles.find(p => p.id === activeId) ?? profiles.find(p => p.id === STANDARD_PROFILE.id) ?? STANDARD_PROFILE
+
+  return (
+    <QualityProfileContext.Provider value={{ profiles, profile, setProfile, saveProfile, deleteProfile }}>
+      {children}
+    </QualityProfileContext.Provider>
+  )
+}
+
+export function useQualityProfile(): QualityProfileContextValue {
+  const context = useContext(QualityProfileContext)
+  if (!context) throw new Error('useQualityProfile must be used inside QualityProfileProvider')
+  return context
+}
+
+// Names the active profile under quality legends, linking to where it is changed
+export function ProfileNote() {
+  const { profile } = useQualityProfile()
+  return (
+    <p className="text-xs text-gray-500 mt-2">
+      Quality bands: <Link to="/settings" className="text-primary-600 hover:text-primary-800 font-medium">{profile.name}</Link> profile
+    </p>
+  )
+}
@@ -0,0 +1,377 @@
+import { useEffect, useMemo, useRef, useState, MouseEvent } from 'react'
+import { Point } from '../utils/propagation'
+import { InterpolationMethod, Raster, extentOf, rasterValueAt } from '../utils/interpolation'
+import { Thresholds } from '../utils/metrics'
+import { useQualityProfile } from './QualityProfileContext'
+
+export type RasterLayer = 'value' | 'uncertainty'
+
+export interface HeatmapPoint extends Point {
+  value: number
+}
+
+export interface HeatmapMarker extends Point {
+  color: string
+  shape: 'circle' | 'square' | 'triangle'
+  size?: number // pixels
+  label?: string
+}
+
+export interface HeatmapPolygon {
+  points: Point[]
+  color: string
+}
+
+interface RasterHeatmapProps {
+  raster: Raster | null
+  layer?: RasterLayer
+  points?: HeatmapPoint[]
+  markers?: HeatmapMarker[]
+  polygons?: HeatmapPolygon[]
+  height?: number
+  xLabel?: string
+  yLabel?: string
+}
+
+type Rgb = [number, number, number]
+
+type ColorStops = [number, Rgb][]
+
+const UNCERTAINTY_LOW: Rgb = [243, 244, 246]
+const UNCERTAINTY_HIGH: Rgb = [124, 58, 237]
+const MARGIN = { top: 10, right: 16, bottom: 40, left: 56 }
+const MAX_POINTS_DRAWN = 5000
+
+const mix = (a: Rgb, b: Rgb, f: number): Rgb => [0, 1, 2].map(i => Math.round(a[i] + (b[i] - a[i]) * f)) as Rgb
+const css = ([r, g, b]: Rgb, alpha = 1) => `rgba(${r}, ${g}, ${b}, ${alpha})`
+
+// Breakpoints at the active profile's RSSI quality bands, blended in between
+function rssiStops({ excellent, good, fair }: Thresholds): ColorStops {
+  return [
+    [fair - 10, [239, 68, 68]],
+    [fair, [245, 158, 11]],
+    [good, [59, 130, 246]],
+    [excellent, [16, 185, 129]],
+    [excellent + 20, [4, 120, 87]],
+  ]
+}
+
+function rssiColor(rssi: number, stops: ColorStops): Rgb {
+  if (rssi <= stops[0][0]) return stops[0][1]
+  for (let i = 1; i < stops.length; i++) {
+    const [v, color] = stops[i]
+    if (rssi <= v) {
+      const [pv, previous] = stops[i - 1]
+      return mix(previous, color, (rssi - pv) / (v - pv))
+    }
+  }
+  return stops[stops.length - 1][1]
+}
+
+const legendPosition = (rssi: number, stops: ColorStops) =>
+  ((rssi - stops[0][0]) / (stops[stops.length - 1][0] - stops[0][0])) * 100
+
+function maxUncertainty(raster: Raster): number {
+  let max = 0
+  raster.uncertainty.forEach(u => {
+    if (u > max) max = u
+  })
+  return max
+}
+
+// One pixel per cell, north up; scale it with drawImage or an SVG <image>.
+// Values are colored by the RSSI thresholds given.
+export function rasterToCanvas(raster: Raster, thresholds: Thresholds, layer: RasterLayer = 'value', alpha = 0.85): HTMLCanvasElement {
+  const stops = rssiStops(thresholds)
+  const canvas = document.createElement('canvas')
+  canvas.width = raster.cols
+  canvas.height = raster.rows
+  const ctx = canvas.getContext('2d')!
+  const image = ctx.createImageData(raster.cols, raster.rows)
+  const maxU = maxUncertainty(raster) || 1
+
+  for (let row = 0; row < raster.rows; row++) {
+    for (let col = 0; col < raster.cols; col++) {
+      const idx = row * raster.cols + col
+      const value = raster.values[idx]
+      if (Number.isNaN(value)) continue
+      const color = layer === 'value' ? rssiColor(value, stops) : mix(UNCERTAINTY_LOW, UNCERTAINTY_HIGH, raster.uncertainty[idx] / maxU)
+      const offset = ((raster.rows - 1 - row) * raster.cols + col) * 4
+      image.data[offset] = color[0]
+      image.data[offset + 1] = color[1]
+      image.data[offset + 2] = color[2]
+      image.data[offset + 3] = Math.round(alpha * 255)
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvas
+}
+
+function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min
+  if (span <= 0) return [min]
+  const raw = span / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)))
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw)!
+  const ticks: number[] = []
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(Number(v.toFixed(10)))
+  return ticks
+}
+
+export default function RasterHeatmap({
+  raster,
+  layer = 'value',
+  points = [],
+  markers = [],
+  polygons = [],
+  height = 600,
+  xLabel = 'X Coordinate',
+  yLabel = 'Y Coordinate',
+}: RasterHeatmapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [width, setWidth] = useState(0)
+  const [hover, setHover] = useState<{ left: number, top: number, point: Point, value: number, uncertainty: number } | null>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Data extent: the raster plus anything drawn on top of it
+  const bounds = useMemo(() => {
+    const corners: Point[] = raster
+      ? [{ x: raster.x0, y: raster.y0 }, { x: raster.x0 + raster.cols * raster.cellSize, y: raster.y0 + raster.rows * raster.cellSize }]
+      : []
+    const all: Point[] = [...corners, ...points, ...markers, ...polygons.flatMap(p => p.points)]
+    if (all.length === 0) return null
+    const { minX, maxX, minY, maxY } = extentOf(all)
+    const padX = (maxX - minX) * 0.02 || 1
+    const padY = (maxY - minY) * 0.02 || 1
+    return { minX: minX - padX, maxX: maxX + padX, minY: minY - padY, maxY: maxY + padY }
+  }, [raster, points, markers, polygons])
+
+  const { profile } = useQualityProfile()
+  const stops = useMemo(() => rssiStops(profile.thresholds.rssi), [profile])
+  const rasterImage = useMemo(
+    () => (raster ? rasterToCanvas(raster, profile.thresholds.rssi, layer) : null),
+    [raster, profile, layer]
+  )
+  const uncertaintyMax = useMemo(() => (raster ? maxUncertainty(raster) : 0), [raster])
+
+  const plot = bounds && width > 0 ? {
+    width: width - MARGIN.left - MARGIN.right,
+    height: height - MARGIN.top - MARGIN.bottom,
+  } : null
+  const toScreen = (p: Point): Point => ({
+    x: MARGIN.left + ((p.x - bounds!.minX) / (bounds!.maxX - bounds!.minX)) * plot!.width,
+    y: MARGIN.top + (1 - (p.y - bounds!.minY) / (bounds!.maxY - bounds!.minY)) * plot!.height,
+  })
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !bounds || !plot) return
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = width * dpr
+    canvas.height = height * dpr
+    const ctx = canvas.getContext('2d')!
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    // Grid and axes
+    ctx.strokeStyle = '#e5e7eb'
+    ctx.fillStyle = '#6b7280'
+    ctx.font = '12px sans-serif'
+    ctx.lineWidth = 1
+    ctx.setLineDash([3, 3])
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+    niceTicks(bounds.minX, bounds.maxX, 8).forEach(v => {
+      const { x } = toScreen({ x: v, y: bounds.minY })
+      ctx.beginPath()
+      ctx.moveTo(x, MARGIN.top)
+      ctx.lineTo(x, MARGIN.top + plot.height)
+      ctx.stroke()
+      ctx.fillText(String(v), x, MARGIN.top + plot.height + 6)
+    })
+    ctx.textAlign = 'right'
+    ctx.textBaseline = 'middle'
+    niceTicks(bounds.minY, bounds.maxY, 8).forEach(v => {
+      const { y } = toScreen({ x: bounds.minX, y: v })
+      ctx.beginPath()
+      ctx.moveTo(MARGIN.left, y)
+      ctx.lineTo(MARGIN.left + plot.width, y)
+      ctx.stroke()
+      ctx.fillText(String(v), MARGIN.left - 6, y)
+    })
+    ctx.setLineDash([])
+    ctx.textAlign = 'center'
+    ctx.fillText(xLabel, MARGIN.left + plot.width / 2, height - 10)
+    ctx.save()
+    ctx.translate(14, MARGIN.top + plot.height / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText(yLabel, 0, 0)
+    ctx.restore()
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(MARGIN.left, MARGIN.top, plot.width, plot.height)
+    ctx.clip()
+
+    if (raster && rasterImage) {
+      const topLeft = toScreen({ x: raster.x0, y: raster.y0 + raster.rows * raster.cellSize })
+      const bottomRight = toScreen({ x: raster.x0 + raster.cols * raster.cellSize, y: raster.y0 })
+      ctx.imageSmoothingEnabled = false
+      ctx.drawImage(rasterImage, topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y)
+    }
+
+    polygons.forEach(polygon => {
+      ctx.strokeStyle = polygon.color
+      ctx.setLineDash([4, 4])
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      polygon.points.forEach((p, idx) => {
+        const s = toScreen(p)
+        if (idx === 0) ctx.moveTo(s.x, s.y)
+        else ctx.lineTo(s.x, s.y)
+      })
+      ctx.closePath()
+      ctx.stroke()
+    })
+    ctx.setLineDash([])
+
+    const step = Math.max(1, Math.ceil(points.length / MAX_POINTS_DRAWN))
+    for (let i = 0; i < points.length; i += step) {
+      const s = toScreen(points[i])
+      ctx.fillStyle = css(rssiColor(points[i].value, stops))
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+      ctx.lineWidth = 0.5
+      ctx.beginPath()
+      ctx.arc(s.x, s.y, 2, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+    }
+
+    markers.forEach(marker => {
+      const s = toScreen(marker)
+      const size = marker.size ?? 8
+      ctx.fillStyle = marker.color
+      ctx.strokeStyle = '#ffffff'
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      if (marker.shape === 'triangle') {
+        ctx.moveTo(s.x, s.y - size)
+        ctx.lineTo(s.x + size, s.y + size * 0.8)
+        ctx.lineTo(s.x - size, s.y + size * 0.8)
+        ctx.closePath()
+      } else if (marker.shape === 'square') {
+        ctx.rect(s.x - size / 2, s.y - size / 2, size, size)
+      } else {
+        ctx.arc(s.x, s.y, size / 2, 0, Math.PI * 2)
+      }
+      ctx.fill()
+      ctx.stroke()
+      if (marker.label) {
+        ctx.fillStyle = '#111827'
+        ctx.textAlign = 'left'
+        ctx.textBaseline = 'bottom'
+        ctx.fillText(marker.label, s.x + size, s.y - size / 2)
+      }
+    })
+    ctx.restore()
+  }, [raster, rasterImage, stops, bounds, width, height, points, markers, polygons, xLabel, yLabel])
+
+  const handleMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!raster || !bounds || !plot) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const left = event.clientX - rect.left
+    const top = event.clientY - rect.top
+    const point = {
+      x: bounds.minX + ((left - MARGIN.left) / plot.width) * (bounds.maxX - bounds.minX),
+      y: bounds.minY + (1 - (top - MARGIN.top) / plot.height) * (bounds.maxY - bounds.minY),
+    }
+    const cell = rasterValueAt(raster, point)
+    setHover(cell ? { left, top, point, ...cell } : null)
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative w-full" style={{ height }}>
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height }}
+          onMouseMove={handleMove}
+          onMouseLeave={() => setHover(null)}
+        />
+        {hover && (
+          <div
+            className="absolute pointer-events-none bg-white border border-gray-200 rounded shadow px-2 py-1 text-xs text-gray-800"
+            style={{ left: hover.left + 12, top: hover.top + 12 }}
+          >
+            <div>({hover.point.x.toFixed(1)}, {hover.point.y.toFixed(1)})</div>
+            <div className="font-semibold">{hover.value.toFixed(1)} dBm ± {hover.uncertainty.toFixed(1)}</div>
+          </div>
+        )}
+      </div>
+      {raster && (
+        <div className="flex items-center justify-center gap-2 mt-2 text-xs text-gray-600">
+          {layer === 'value' ? (
+            <>
+              <span>{stops[0][0]} dBm</span>
+              <div
+                className="h-3 w-64 rounded"
+                style={{ background: `linear-gradient(to right, ${stops.map(([v, c]) => `${css(c)} ${legendPosition(v, stops)}%`).join(', ')})` }}
+                title={`${profile.name} profile`}
+              />
+              <span>{stops[stops.length - 1][0]} dBm</span>
+            </>
+          ) : (
+            <>
+              <span>± 0 dB</span>
+              <div
+                className="h-3 w-64 rounded"
+                style={{ background: `linear-gradient(to right, ${css(UNCERTAINTY_LOW)}, ${css(UNCERTAINTY_HIGH)})` }}
+              />
+              <span>± {uncertaintyMax.toFixed(1)} dB</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface InterpolationControlsProps {
+  method: InterpolationMethod
+  onMethodChange: (method: InterpolationMethod) => void
+  layer: RasterLayer
+  onLayerChange: (layer: RasterLayer) => void
+}
+
+export function InterpolationControls({ method, onMethodChange, layer, onLayerChange }: InterpolationControlsProps) {
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={method}
+        onChange={(e) => onMethodChange(e.target.value as InterpolationMethod)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+        title="Interpolation method"
+      >
+        <option value="idw">Inverse distance</option>
+        <option value="kriging">Kriging</option>
+      </select>
+      <select
+        value={layer}
+        onChange={(e) => onLayerChange(e.target.value as RasterLayer)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+        title="Layer shown"
+      >
+        <option value="value">Signal strength</option>
+        <option value="uncertainty">Uncertainty</option>
+      </select>
+    </div>
+  )
+}
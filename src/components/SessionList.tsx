@@ -0,0 +1,134 @@
+import { useRef, useState, ChangeEvent } from 'react'
+import { FolderOpen, Pencil, Trash2, Plus, Upload, Check } from 'lucide-react'
+import { SessionSummary } from '../utils/sessions'
+
+interface SessionListProps {
+  sessions: SessionSummary[]
+  currentId: string | null
+  currentCount: number // live count for the open session, which may not be saved yet
+  disabled: boolean
+  onOpen: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onNew: () => void
+  onImport: (file: File) => void
+}
+
+export default function SessionList({
+  sessions,
+  currentId,
+  currentCount,
+  disabled,
+  onOpen,
+  onRename,
+  onDelete,
+  onNew,
+  onImport,
+}: SessionListProps) {
+  const [editing, setEditing] = useState<{ id: string, name: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) onImport(file)
+  }
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.id, editing.name.trim())
+    setEditing(null)
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Session
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 flex items-center"
+          title="Merge a previously exported JSON file into the open session"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import Export File
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved sessions yet. Measurements are saved automatically once you start mapping.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {sessions.map(session => {
+            const current = session.id === currentId
+            return (
+              <li key={session.id} className={`flex items-center justify-between px-4 py-3 ${current ? 'bg-blue-50' : ''}`}>
+                <div className="min-w-0 flex-1">
+                  {editing?.id === session.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: session.id, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename()
+                          if (e.key === 'Escape') setEditing(null)
+                        }}
+                        className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      />
+                      <button onClick={commitRename} className="text-blue-600 hover:text-blue-800" title="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {session.name}
+                      {current && <span className="ml-2 text-xs text-blue-700">(open)</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {(current ? currentCount : session.measurementCount).toLocaleString()} measurements · updated {new Date(session.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 ml-4">
+                  {!current && (
+                    <button
+                      onClick={() => onOpen(session.id)}
+                      disabled={disabled}
+                      className="p-2 text-gray-600 hover:text-blue-600 disabled:opacity-50"
+                      title="Open session"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing({ id: session.id, name: session.name })}
+                    className="p-2 text-gray-600 hover:text-blue-600"
+                    title="Rename session"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    disabled={disabled && current}
+                    className="p-2 text-gray-600 hover:text-red-600 disabled:opacity-50"
+                    title="Delete session"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { useRef, MouseEvent } from 'react'
+import { Point } from '../utils/propagation'
+import { qualityColor } from '../utils/metrics'
+import { useQualityProfile } from './QualityProfileContext'
+
+interface SurveyPoint extends Point {
+  rssi: number
+  anchor: boolean
+}
+
+interface SurveyMapProps {
+  measurements: SurveyPoint[]
+  currentPosition: Point | null
+  onPlace: (point: Point) => void
+}
+
+// Smallest extent shown either side of the start point, in meters
+const MIN_HALF_SIZE = 5
+
+// Blank 1 m grid centred on the start point, for tap-to-place surveys without a floor plan.
+// SVG y runs downwards, so walk coordinates are drawn at (x, -y).
+export default function SurveyMap({ measurements, currentPosition, onPlace }: SurveyMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const { profile } = useQualityProfile()
+
+  const extent = measurements.reduce((max, m) => Math.max(max, Math.abs(m.x), Math.abs(m.y)), 0)
+  const half = Math.max(MIN_HALF_SIZE, Math.ceil(extent + 1))
+  const lines = Array.from({ length: half * 2 + 1 }, (_, idx) => idx - half)
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current
+    const ctm = svg?.getScreenCTM()
+    if (!svg || !ctm) return
+    const point = svg.createSVGPoint()
+    point.x = event.clientX
+    point.y = event.clientY
+    const { x, y } = point.matrixTransform(ctm.inverse())
+    onPlace({ x, y: -y })
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${-half} ${-half} ${half * 2} ${half * 2}`}
+      className="w-full aspect-square border border-gray-200 rounded bg-gray-50 cursor-crosshair"
+      onClick={handleClick}
+    >
+      {lines.map(v => (
+        <g key={v} stroke={v === 0 ? '#9ca3af' : '#e5e7eb'} strokeWidth={0.04}>
+          <line x1={v} y1={-half} x2={v} y2={half} />
+          <line x1={-half} y1={v} x2={half} y2={v} />
+        </g>
+      ))}
+      {measurements.map((m, idx) => (
+        <circle
+          key={idx}
+          cx={m.x}
+          cy={-m.y}
+          r={m.anchor ? 0.22 : 0.12}
+          fill={qualityColor(m.rssi, 'rssi', profile)}
+          stroke={m.anchor ? '#111827' : 'none'}
+          strokeWidth={0.05}
+        />
+      ))}
+      {currentPosition && (
+        <circle cx={currentPosition.x} cy={-currentPosition.y} r={0.3} fill="none" stroke="#000000" strokeWidth={0.08} />
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Search } from 'lucide-react'
+import { api, CoverageSummary } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
+import CellDrillDown from '../components/CellDrillDown'
+import { QUALITIES, QUALITY_CLASSES, Quality, classify } from '../utils/metrics'
+
+type SortKey = Exclude<keyof CoverageSummary, 'metric'>
+
+const COLUMNS: { key: SortKey, label: string, format: (row: CoverageSummary) => string }[] = [
+  { key: 'cell_id', label: 'Cell ID', format: row => row.cell_id },
+  { key: 'rssi_count', label: 'Readings', format: row => row.rssi_count.toLocaleString() },
+  { key: 'rssi_mean', label: 'Mean', format: row => row.rssi_mean.toFixed(1) },
+  { key: 'rssi_std', label: 'Std Dev', format: row => row.rssi_std.toFixed(1) },
+  { key: 'rssi_min', label: 'Min', format: row => String(row.rssi_min) },
+  { key: 'rssi_max', label: 'Max', format: row => String(row.rssi_max) },
+  { key: 'stability_score', label: 'Stability', format: row => row.stability_score.toFixed(3) },
+  { key: 'coverage_score', label: 'Coverage', format: row => row.coverage_score.toFixed(3) },
+  { key: 'low_quality', label: 'Low Quality', format: row => (row.low_quality ? 'Yes' : 'No') },
+]
+
+const PAGE_SIZES = [25, 50, 100]
+
+// Cell IDs are strings that are usually numbers; compare them as such
+const compareCellIds = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true })
+
+export default function Cells() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
+  const { cellId } = useParams()
+  const navigate = useNavigate()
+  const [cells, setCells] = useState<CoverageSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [quality, setQuality] = useState<Quality | 'all'>('all')
+  const [lowQualityOnly, setLowQualityOnly] = useState(false)
+  const [minReadings, setMinReadings] = useState(0)
+  const [sort, setSort] = useState<{ key: SortKey, direction: 'asc' | 'desc' }>({ key: 'rssi_count', direction: 'desc' })
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0])
+  const [page, setPage] = useState(0)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true)
+      const coverage = await api.getCoverage(dataset, profile.id)
+      setCells(Array.isArray(coverage) ? coverage : [])
+      setLoading(false)
+    }
+    loadData()
+  }, [dataset, profile.id])
+
+  const qualityOfCell = (cell: CoverageSummary) => classify(cell.rssi_mean, cell.metric ?? 'rssi', profile)
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return cells.filter(cell =>
+      (!term || cell.cell_id.toLowerCase().includes(term)) &&
+      (!lowQualityOnly || cell.low_quality) &&
+      cell.rssi_count >= minReadings &&
+      (quality === 'all' || classify(cell.rssi_mean, cell.metric ?? 'rssi', profile) === quality)
+    )
+  }, [cells, search, lowQualityOnly, minReadings, quality, profile])
+
+  const sorted = useMemo(() => {
+    const { key, direction } = sort
+    const sign = direction === 'asc' ? 1 : -1
+    return [...filtered].sort((a, b) => {
+      if (key === 'cell_id') return sign * compareCellIds(a.cell_id, b.cell_id)
+      return sign * (Number(a[key]) - Number(b[key])) || compareCellIds(a.cell_id, b.cell_id)
+    })
+  }, [filtered, sort])
+
+  // Back to the first page whenever the rows shown change
+  useEffect(() => {
+    setPage(0)
+  }, [search, lowQualityOnly, minReadings, quality, sort, pageSize, dataset])
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize))
+  const pageRows = sorted.slice(page * pageSize, (page + 1) * pageSize)
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'cell_id' ? 'asc' : 'desc' })
+  }
+
+  const stats = useMemo(() => {
+    const readings = cells.reduce((sum, cell) => sum + cell.rssi_count, 0)
+    return {
+      cells: cells.length,
+      readings,
+      lowQuality: cells.filter(cell => cell.low_quality).length,
+      stability: cells.length > 0 ? cells.reduce((sum, cell) => sum + cell.stability_score, 0) / cells.length : 0,
+    }
+  }, [cells])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-sky-600 to-indigo-600 text-white shadow-lg rounded-lg p-6">
+        <h1 className="text-3xl font-bold mb-2">Cell Analytics</h1>
+        <p className="text-sky-100">Coverage, stability and signal quality for every serving cell</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Cells', value: stats.cells.toLocaleString() },
+          { label: 'Readings', value: stats.readings.toLocaleString() },
+          { label: 'Low Quality Cells', value: stats.lowQuality.toLocaleString() },
+          { label: 'Mean Stability', value: stats.stability.toFixed(3) },
+        ].map(stat => (
+          <div key={stat.label} className="bg-white shadow-lg rounded-lg p-6">
+            <p className="text-sm text-gray-600">{stat.label}</p>
+            <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {cellId && (
+        <CellDrillDown
+          key={cellId}
+          cellId={cellId}
+          summary={cells.find(cell => cell.cell_id === cellId) ?? null}
+          dataset={dataset}
+          onClose={() => navigate('/cells')}
+        />
+      )}
+
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Cell ID
+            <div className="relative mt-1">
+              <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search"
+                className="pl-8 border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Mean quality
+            <select
+              value={quality}
+              onChange={(e) => setQuality(e.target.value as Quality | 'all')}
+              className="mt-1 block border border-gray-300 rounded-md px-3 py-2 text-sm capitalize"
+            >
+              <option value="all">All</option>
+              {QUALITIES.map(q => <option key={q} value={q}>{q}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Min readings
+            <input
+              type="number"
+              min={0}
+              value={minReadings}
+              onChange={(e) => setMinReadings(Math.max(0, Number(e.target.value) || 0))}
+              className="mt-1 block w-28 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="flex items-center text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={lowQualityOnly}
+              onChange={(e) => setLowQualityOnly(e.target.checked)}
+              className="mr-2"
+            />
+            Low quality only
+          </label>
+          <p className="ml-auto text-sm text-gray-600 pb-2">
+            {sorted.length.toLocaleString()} of {cells.length.toLocaleString()} cells
+          </p>
+        </div>
+
+        {cells.length === 0 ? (
+          <p className="text-sm text-gray-600">No coverage summary is available for this dataset.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {COLUMNS.map(column => (
+                      <th key={column.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        <button onClick={() => toggleSort(column.key)} className="inline-flex items-center uppercase hover:text-gray-900">
+                          {column.label}
+                          {sort.key !== column.key ? (
+                            <ArrowUpDown className="w-3 h-3 ml-1" />
+                          ) : sort.direction === 'asc' ? (
+                            <ArrowUp className="w-3 h-3 ml-1" />
+                          ) : (
+                            <ArrowDown className="w-3 h-3 ml-1" />
+                          )}
+                        </button>
+                      </th>
+                    ))}
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Quality</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {pageRows.map(cell => {
+                    const cellQuality = qualityOfCell(cell)
+                    return (
+                      <tr
+                        key={cell.cell_id}
+                        onClick={() => navigate(`/cells/${encodeURIComponent(cell.cell_id)}`)}
+                        className={`cursor-pointer ${cell.cell_id === cellId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        {COLUMNS.map(column => (
+                          <td key={column.key} className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{column.format(cell)}</td>
+                        ))}
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          <span className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${QUALITY_CLASSES[cellQuality].badge}`}>
+                            {cellQuality}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+              <label className="flex items-center text-sm text-gray-700">
+                Rows per page
+                <select
+                  value={pageSize}
+                  onChange={(e) => setPageSize(Number(e.target.value))}
+                  className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page === 0}
+                  className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  title="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="text-sm text-gray-700">Page {page + 1} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page >= pageCount - 1}
+                  className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  title="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <ProfileNote />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
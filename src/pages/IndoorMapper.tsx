@@ -1,23 +1,75 @@
-import { useState, useEffect, useRef } from 'react'
-import { Play, Square, Download, Home } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef, ChangeEvent } from 'react'
+import { Play, Square, Download, Home, Footprints, Upload, FolderOpen, UploadCloud } from 'lucide-react'
 import {
-  ScatterChart,
-  Scatter,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  Cell,
-} from 'recharts'
-
-interface Measurement {
-  id: string
-  x: number
-  y: number
-  rssi: number
-  timestamp: number
-  room?: string
+  DeadReckoner,
+  SensorSample,
+  SensorTrace,
+  StepEvent,
+  DEFAULT_STRIDE_K,
+  headingFromOrientation,
+  replayTrace,
+  parseTrace,
+  calibrateStride,
+} from '../utils/deadReckoning'
+import { Point } from '../utils/propagation'
+import { FloorPlan, loadStoredFloorPlan, roomAt, storeFloorPlan } from '../utils/floorPlan'
+import { SurveyAnchor, SurveySample, interpolateSamples } from '../utils/survey'
+import { interpolate, InterpolationMethod } from '../utils/interpolation'
+import FloorPlanEditor from '../components/FloorPlanEditor'
+import RasterHeatmap, { HeatmapMarker, InterpolationControls, RasterLayer } from '../components/RasterHeatmap'
+import SurveyMap from '../components/SurveyMap'
+import SessionList from '../components/SessionList'
+import { useDataset } from '../components/DatasetContext'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
+import { QUALITIES, QUALITY_CLASSES, classify, countByQuality, qualityLabel } from '../utils/metrics'
+import {
+  EXPORT_VERSION,
+  IndoorSession,
+  Measurement,
+  SessionSummary,
+  deleteSession,
+  getSession,
+  listSessions,
+  mergeMeasurements,
+  newSession,
+  parseSessionExport,
+  saveSession,
+  toSignalData,
+} from '../utils/sessions'
+
+// Sensors: dead reckoning places every step. Survey: the user taps their position
+// and readings in between are interpolated.
+type PositioningMode = 'sensors' | 'survey'
+
+type SensorStatus = 'idle' | 'waiting' | 'active' | 'unavailable' | 'denied'
+
+const STRIDE_STORAGE_KEY = 'strideK'
+const RSSI_POLL_MS = 2000
+// Desktop browsers expose the events but never fire them
+const SENSOR_TIMEOUT_MS = 3000
+const GRID_SIZE = 0.5 // meters
+const ACTIVE_SESSION_KEY = 'indoorSessionId'
+
+// iOS 13+ only delivers motion events after an explicit permission prompt
+async function requestSensorPermission(): Promise<boolean> {
+  const motion = (window as any).DeviceMotionEvent
+  const orientation = (window as any).DeviceOrientationEvent
+  try {
+    if (typeof motion?.requestPermission === 'function' && await motion.requestPermission() !== 'granted') return false
+    if (typeof orientation?.requestPermission === 'function' && await orientation.requestPermission() !== 'granted') return false
+    return true
+  } catch {
+    return false
+  }
+}
+
+function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
 }
 
 export default function IndoorMapper() {
@@ -25,57 +77,195 @@ export default function IndoorMapper() {
   const [measurements, setMeasurements] = useState<Measurement[]>([])
   const [currentPosition, setCurrentPosition] = useState({ x: 0, y: 0 })
   const [currentRssi, setCurrentRssi] = useState<number | null>(null)
-  const [roomName, setRoomName] = useState('')
   const [rooms, setRooms] = useState<string[]>([])
-  const intervalRef = useRef<number | null>(null)
-  const positionRef = useRef({ x: 0, y: 0, angle: 0 })
+  const [sensorStatus, setSensorStatus] = useState<SensorStatus>('idle')
+  const [rssiSimulated, setRssiSimulated] = useState(false)
+  const [strideK, setStrideK] = useState(() => Number(localStorage.getItem(STRIDE_STORAGE_KEY)) || DEFAULT_STRIDE_K)
+  const [calibrationDistance, setCalibrationDistance] = useState(10)
+  const [lastTrace, setLastTrace] = useState<SensorTrace | null>(null)
+  const [traceMessage, setTraceMessage] = useState<string | null>(null)
+  const [floorPlan, setFloorPlan] = useState<FloorPlan | null>(loadStoredFloorPlan)
+  const [floorPlanSaved, setFloorPlanSaved] = useState(true)
+  const [positioning, setPositioning] = useState<PositioningMode>('sensors')
+  const [pendingCount, setPendingCount] = useState(0)
+  const [method, setMethod] = useState<InterpolationMethod>('idw')
+  const [layer, setLayer] = useState<RasterLayer>('value')
+  const [session, setSession] = useState<Omit<IndoorSession, 'measurements' | 'updatedAt'> | null>(null)
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [sessionMessage, setSessionMessage] = useState<{ text: string, error: boolean } | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [uploadMessage, setUploadMessage] = useState<{ text: string, error: boolean } | null>(null)
+  const { uploadSurvey } = useDataset()
+  const { profile } = useQualityProfile()
+  const engineRef = useRef<DeadReckoner | null>(null)
+  const traceRef = useRef<SensorSample[]>([])
+  const traceStartRef = useRef(0)
+  const rssiRef = useRef<{ value: number, simulated: boolean } | null>(null)
+  const floorPlanRef = useRef(floorPlan)
+  const pendingRef = useRef<SurveySample[]>([])
+  const lastAnchorRef = useRef<SurveyAnchor | null>(null)
+  const traceInputRef = useRef<HTMLInputElement>(null)
+  // Measurements just loaded from storage; saving them back would only bump updatedAt
+  const loadedRef = useRef<Measurement[] | null>(null)
+
+  floorPlanRef.current = floorPlan
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions())
+    } catch (error: any) {
+      setSessionMessage({ text: `Session storage unavailable: ${error.message}`, error: true })
+    }
+  }
+
+  const openSession = async (id: string) => {
+    const stored = await getSession(id)
+    if (!stored) {
+      localStorage.removeItem(ACTIVE_SESSION_KEY)
+      return
+    }
+    const { measurements: saved, updatedAt, ...meta } = stored
+    setSession(meta)
+    const restored = saved.map(m => ({ ...m, room: floorPlanRef.current ? roomAt(floorPlanRef.current, m) : m.room }))
+    loadedRef.current = restored
+    setMeasurements(restored)
+    setCurrentPosition({ x: 0, y: 0 })
+    localStorage.setItem(ACTIVE_SESSION_KEY, id)
+  }
 
-  // Simulate walking and collecting data
+  // Reopen the session that was open before the page was reloaded
   useEffect(() => {
-    if (isRecording) {
-      // Simulate phone movement (in real app, this would use device sensors)
-      intervalRef.current = window.setInterval(() => {
-        // Simulate walking in a pattern
-        const speed = 0.1 // units per second
-        const angle = positionRef.current.angle + (Math.random() - 0.5) * 0.3
-        
-        positionRef.current.angle = angle
-        positionRef.current.x += Math.cos(angle) * speed
-        positionRef.current.y += Math.sin(angle) * speed
-
-        // Simulate RSSI variation (in real app, get from device)
-        const baseRssi = -85
-        const variation = (Math.random() - 0.5) * 10
-        const rssi = baseRssi + variation
-
-        setCurrentPosition({ x: positionRef.current.x, y: positionRef.current.y })
-        setCurrentRssi(rssi)
-
-        // Record measurement
-        const measurement: Measurement = {
-          id: Date.now().toString(),
-          x: positionRef.current.x,
-          y: positionRef.current.y,
-          rssi,
-          timestamp: Date.now(),
-          room: roomName || undefined
-        }
+    refreshSessions()
+    const active = localStorage.getItem(ACTIVE_SESSION_KEY)
+    if (active) openSession(active).catch(error => console.error('Error restoring session:', error))
+  }, [])
+
+  // Every change is saved; the first measurement of an unsaved walk starts a new session
+  useEffect(() => {
+    if (!session) {
+      if (measurements.length === 0) return
+      const created = newSession(`Survey ${new Date().toLocaleString()}`)
+      setSession({ id: created.id, name: created.name, createdAt: created.createdAt })
+      localStorage.setItem(ACTIVE_SESSION_KEY, created.id)
+      return
+    }
+    if (measurements === loadedRef.current) return
+    saveSession({ ...session, updatedAt: Date.now(), measurements })
+      .then(() => {
+        if (!sessions.some(s => s.id === session.id)) refreshSessions()
+      })
+      .catch(error => setSessionMessage({ text: `Could not save session: ${error.message}`, error: true }))
+  }, [measurements, session])
+
+  // Rooms follow the plan, so redrawing a room re-labels measurements already taken
+  useEffect(() => {
+    setFloorPlanSaved(storeFloorPlan(floorPlan))
+    setMeasurements(prev => prev.map(m => ({ ...m, room: roomAt(floorPlan, m) })))
+  }, [floorPlan])
 
-        setMeasurements(prev => [...prev, measurement])
-      }, 500) // Record every 500ms
-    } else {
-      if (intervalRef.current) {
-        window.clearInterval(intervalRef.current)
-        intervalRef.current = null
+  // Sensor-driven positioning: every detected step moves the position and records a measurement.
+  // In survey mode only RSSI is polled; readings wait for the next tap to be placed.
+  useEffect(() => {
+    if (!isRecording) return
+    const survey = positioning === 'survey'
+
+    const engine = new DeadReckoner({ strideK })
+    engineRef.current = engine
+    traceRef.current = []
+    traceStartRef.current = performance.now()
+    const startedAt = Date.now()
+    const now = () => performance.now() - traceStartRef.current
+    let sawMotion = false
+
+    const onStep = (step: StepEvent) => {
+      setCurrentPosition({ x: step.x, y: step.y })
+      const rssi = rssiRef.current
+      if (!rssi) return
+      setMeasurements(prev => [...prev, {
+        id: `${Date.now()}-${engine.steps}`,
+        x: step.x,
+        y: step.y,
+        rssi: rssi.value,
+        timestamp: Date.now(),
+        room: roomAt(floorPlanRef.current, step),
+        rssiSimulated: rssi.simulated || undefined,
+        anchor: false,
+      }])
+    }
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const a = event.accelerationIncludingGravity
+      if (!a || a.x === null || a.y === null || a.z === null) return
+      if (!sawMotion) {
+        sawMotion = true
+        setSensorStatus('active')
       }
+      const sample: SensorSample = { type: 'motion', t: now(), x: a.x, y: a.y, z: a.z }
+      traceRef.current.push(sample)
+      const step = engine.update(sample)
+      if (step) onStep(step)
+    }
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      const heading = headingFromOrientation(event)
+      if (heading === null) return
+      const sample: SensorSample = { type: 'orientation', t: now(), heading }
+      traceRef.current.push(sample)
+      engine.update(sample)
     }
 
+    // RSSI comes from the data server's WiFi provider; without one it is simulated and flagged
+    const pollRssi = async () => {
+      let value: number
+      let simulated = true
+      try {
+        const response = await fetch('/api/wifi')
+        const info = response.ok ? await response.json() : null
+        if (info && !info.simulated && typeof info.signalStrength === 'number') {
+          value = info.signalStrength
+          simulated = false
+        } else {
+          value = -85 + (Math.random() - 0.5) * 10
+        }
+      } catch {
+        value = -85 + (Math.random() - 0.5) * 10
+      }
+      rssiRef.current = { value, simulated }
+      if (survey) {
+        // Readings before the first tap have no position to interpolate from
+        if (lastAnchorRef.current) {
+          pendingRef.current.push({ timestamp: Date.now(), rssi: value, simulated })
+          setPendingCount(pendingRef.current.length)
+        }
+      } else {
+        traceRef.current.push({ type: 'rssi', t: now(), rssi: value })
+      }
+      setCurrentRssi(value)
+      setRssiSimulated(simulated)
+    }
+
+    // Chrome only reports a north-referenced alpha on the "absolute" event
+    const orientationEvent = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation'
+    if (!survey) {
+      window.addEventListener('devicemotion', handleMotion)
+      window.addEventListener(orientationEvent as 'deviceorientation', handleOrientation)
+    }
+    pollRssi()
+    const rssiInterval = window.setInterval(pollRssi, RSSI_POLL_MS)
+    const sensorTimeout = survey ? undefined : window.setTimeout(() => {
+      if (!sawMotion) setSensorStatus('unavailable')
+    }, SENSOR_TIMEOUT_MS)
+
     return () => {
-      if (intervalRef.current) {
-        window.clearInterval(intervalRef.current)
+      window.removeEventListener('devicemotion', handleMotion)
+      window.removeEventListener(orientationEvent as 'deviceorientation', handleOrientation)
+      window.clearInterval(rssiInterval)
+      window.clearTimeout(sensorTimeout)
+      if (traceRef.current.length > 0) {
+        setLastTrace({ version: 1, recordedAt: startedAt, samples: traceRef.current })
       }
     }
-  }, [isRecording, roomName])
+  }, [isRecording, strideK, positioning])
 
   // Get unique rooms
   useEffect(() => {
@@ -86,49 +276,135 @@ export default function IndoorMapper() {
   // Coverage statistics
   const stats = {
     total: measurements.length,
-    excellent: measurements.filter(m => m.rssi > -70).length,
-    good: measurements.filter(m => m.rssi > -85 && m.rssi <= -70).length,
-    fair: measurements.filter(m => m.rssi > -100 && m.rssi <= -85).length,
-    poor: measurements.filter(m => m.rssi <= -100).length,
+    ...countByQuality(measurements, profile),
     avgRssi: measurements.length > 0 
       ? measurements.reduce((sum, m) => sum + m.rssi, 0) / measurements.length 
       : 0
   }
 
-  // Coverage grid for heatmap
-  const coverageGrid = (() => {
-    if (measurements.length === 0) return []
-    
-    const gridSize = 0.5
-    const grid: Map<string, { x: number, y: number, rssis: number[], count: number }> = new Map()
-
-    measurements.forEach(m => {
-      const gridX = Math.floor(m.x / gridSize) * gridSize
-      const gridY = Math.floor(m.y / gridSize) * gridSize
-      const key = `${gridX},${gridY}`
-      
-      if (!grid.has(key)) {
-        grid.set(key, { x: gridX, y: gridY, rssis: [], count: 0 })
-      }
-      grid.get(key)!.rssis.push(m.rssi)
-      grid.get(key)!.count++
-    })
-
-    return Array.from(grid.values()).map(cell => ({
-      x: cell.x,
-      y: cell.y,
-      avgRssi: cell.rssis.reduce((a, b) => a + b, 0) / cell.rssis.length,
-      count: cell.count
-    }))
-  })()
-
-  const handleStart = () => {
+  // Continuous coverage surface for the heatmap and floor-plan overlay
+  const heatmapPoints = useMemo(() => measurements.map(m => ({ x: m.x, y: m.y, value: m.rssi })), [measurements])
+  const interpolation = useMemo(
+    () => interpolate(heatmapPoints, { method, cellSize: GRID_SIZE }),
+    [heatmapPoints, method]
+  )
+  const positionMarkers = useMemo<HeatmapMarker[]>(
+    () => (isRecording ? [{ ...currentPosition, color: '#000000', shape: 'circle', size: 12 }] : []),
+    [isRecording, currentPosition]
+  )
+  const coveredArea = interpolation
+    ? interpolation.raster.values.filter(v => !Number.isNaN(v)).length * interpolation.cellSize ** 2
+    : 0
+
+  const handleStart = async () => {
+    setTraceMessage(null)
+    setCurrentPosition({ x: 0, y: 0 })
+    if (positioning === 'survey') {
+      pendingRef.current = []
+      lastAnchorRef.current = null
+      setPendingCount(0)
+      setIsRecording(true)
+      return
+    }
+    if (!await requestSensorPermission()) {
+      setSensorStatus('denied')
+      return
+    }
+    setSensorStatus('waiting')
     setIsRecording(true)
-    positionRef.current = { x: 0, y: 0, angle: 0 }
+  }
+
+  // A survey tap records an anchored measurement and places the readings taken since the last tap
+  const handlePlace = (point: Point) => {
+    const rssi = rssiRef.current
+    if (!isRecording || positioning !== 'survey' || !rssi) return
+    const anchor: SurveyAnchor = { ...point, timestamp: Date.now() }
+    const previous = lastAnchorRef.current
+    const placed = previous ? interpolateSamples(previous, anchor, pendingRef.current) : []
+
+    setMeasurements(prev => [
+      ...prev,
+      ...placed.map((sample, idx) => ({
+        id: `${sample.timestamp}-${idx}`,
+        x: sample.x,
+        y: sample.y,
+        rssi: sample.rssi,
+        timestamp: sample.timestamp,
+        room: roomAt(floorPlanRef.current, sample),
+        rssiSimulated: sample.simulated || undefined,
+        anchor: false,
+      })),
+      {
+        id: `${anchor.timestamp}-anchor`,
+        x: anchor.x,
+        y: anchor.y,
+        rssi: rssi.value,
+        timestamp: anchor.timestamp,
+        room: roomAt(floorPlanRef.current, anchor),
+        rssiSimulated: rssi.simulated || undefined,
+        anchor: true,
+      },
+    ])
+    lastAnchorRef.current = anchor
+    pendingRef.current = []
+    setPendingCount(0)
+    setCurrentPosition(point)
+  }
+
+  const updateStrideK = (k: number) => {
+    setStrideK(k)
+    localStorage.setItem(STRIDE_STORAGE_KEY, String(k))
+  }
+
+  // Replays a recorded trace through the same engine; RSSI comes from the trace itself
+  const handleTraceFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const trace = parseTrace(await file.text())
+      const points = replayTrace(trace, { strideK })
+      const replayed: Measurement[] = points
+        .filter(p => p.rssi !== null)
+        .map((p, idx) => ({
+          id: `replay-${trace.recordedAt}-${idx}`,
+          x: p.x,
+          y: p.y,
+          rssi: p.rssi!,
+          timestamp: trace.recordedAt + Math.round(p.t),
+          room: roomAt(floorPlan, p),
+          anchor: false,
+        }))
+      setLastTrace(trace)
+      setMeasurements(replayed)
+      setCurrentPosition(points.length > 0 ? { x: points[points.length - 1].x, y: points[points.length - 1].y } : { x: 0, y: 0 })
+      setTraceMessage(`Replayed ${points.length} steps (${replayed.length} with RSSI) from ${trace.samples.length} samples`)
+    } catch (error: any) {
+      setTraceMessage(`Could not replay trace: ${error.message}`)
+    }
+  }
+
+  // Derives the stride constant from the last walk, assuming it covered the entered distance
+  const handleCalibrate = () => {
+    if (!lastTrace) return
+    const steps = replayTrace(lastTrace, { strideK })
+    const k = calibrateStride(steps.map(p => p.feature), calibrationDistance)
+    if (k === null) {
+      setTraceMessage('No steps detected in the last walk; calibration unchanged')
+      return
+    }
+    updateStrideK(k)
+    setTraceMessage(`Stride calibrated over ${steps.length} steps: K = ${k.toFixed(3)} (≈${(calibrationDistance / steps.length).toFixed(2)} m per step)`)
   }
 
   const handleStop = () => {
     setIsRecording(false)
+    setSensorStatus(status => (status === 'unavailable' ? status : 'idle'))
+    if (positioning === 'survey' && pendingRef.current.length > 0) {
+      setTraceMessage(`${pendingRef.current.length} readings after the last tap were discarded`)
+      pendingRef.current = []
+      setPendingCount(0)
+    }
   }
 
   const handleClear = () => {
@@ -140,16 +416,104 @@ export default function IndoorMapper() {
 
   const handleExport = () => {
     const data = {
+      version: EXPORT_VERSION,
+      name: session?.name ?? null,
       measurements,
       stats,
       timestamp: Date.now()
     }
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `indoor-signal-map-${Date.now()}.json`
-    a.click()
+    downloadJson(data, `indoor-signal-map-${Date.now()}.json`)
+  }
+
+  // Registers the survey as a dataset and selects it, so the analysis pages read it next.
+  // Simulated readings stay in the session and its export but are never uploaded.
+  const handleUpload = async () => {
+    const name = session?.name ?? `Survey ${new Date().toLocaleString()}`
+    const measured = measurements.filter(m => !m.rssiSimulated)
+    const simulatedCount = measurements.length - measured.length
+    if (measured.length === 0) {
+      setUploadMessage({ text: 'Every measurement in this survey has simulated RSSI, so there is nothing to upload.', error: true })
+      return
+    }
+    setUploading(true)
+    setUploadMessage(null)
+    try {
+      const { dataset, report } = await uploadSurvey(name, toSignalData(name, measured))
+      setUploadMessage({
+        text: `Uploaded ${dataset.rows?.toLocaleString()} measurements as dataset "${dataset.name}"${report.rowsRejected ? ` (${report.rowsRejected} rejected)` : ''}${simulatedCount ? `, leaving out ${simulatedCount.toLocaleString()} with simulated RSSI` : ''}. It is now selected on every page.`,
+        error: false,
+      })
+    } catch (error: any) {
+      setUploadMessage({ text: `Could not upload survey: ${error.message}`, error: true })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleNewSession = () => {
+    setSession(null)
+    setMeasurements([])
+    setCurrentPosition({ x: 0, y: 0 })
+    setCurrentRssi(null)
+    localStorage.removeItem(ACTIVE_SESSION_KEY)
+    setSessionMessage(null)
+  }
+
+  const handleOpenSession = async (id: string) => {
+    setSessionMessage(null)
+    try {
+      await openSession(id)
+    } catch (error: any) {
+      setSessionMessage({ text: `Could not open session: ${error.message}`, error: true })
+    }
+  }
+
+  const handleRenameSession = async (id: string, name: string) => {
+    try {
+      if (session?.id === id) {
+        setSession({ ...session, name })
+      } else {
+        const stored = await getSession(id)
+        if (stored) await saveSession({ ...stored, name })
+      }
+      setSessions(prev => prev.map(s => (s.id === id ? { ...s, name } : s)))
+    } catch (error: any) {
+      setSessionMessage({ text: `Could not rename session: ${error.message}`, error: true })
+    }
+  }
+
+  const handleDeleteSession = async (id: string) => {
+    const target = sessions.find(s => s.id === id)
+    if (!window.confirm(`Delete "${target?.name ?? 'this session'}"? This cannot be undone.`)) return
+    try {
+      await deleteSession(id)
+      if (session?.id === id) handleNewSession()
+      setSessions(prev => prev.filter(s => s.id !== id))
+    } catch (error: any) {
+      setSessionMessage({ text: `Could not delete session: ${error.message}`, error: true })
+    }
+  }
+
+  // Imports merge into the open session, so several days' surveys of one building build up together
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseSessionExport(await file.text())
+      const relabelled = imported.measurements.map(m => ({ ...m, room: floorPlan ? roomAt(floorPlan, m) : m.room }))
+      const merged = mergeMeasurements(measurements, relabelled)
+      if (!session && imported.name) {
+        const created = newSession(imported.name)
+        setSession({ id: created.id, name: created.name, createdAt: created.createdAt })
+        localStorage.setItem(ACTIVE_SESSION_KEY, created.id)
+      }
+      setMeasurements(merged.measurements)
+      const skipped = imported.measurements.length - merged.added
+      setSessionMessage({
+        text: `Imported ${merged.added} measurements from ${file.name}${skipped ? ` (${skipped} already present)` : ''}`,
+        error: false,
+      })
+    } catch (error: any) {
+      setSessionMessage({ text: `Could not import ${file.name}: ${error.message}`, error: true })
+    }
   }
 
   return (
@@ -177,28 +541,32 @@ export default function IndoorMapper() {
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-600">Signal Strength</span>
-              <span className={`text-lg font-bold ${
-                currentRssi && currentRssi > -70 ? 'text-green-600' :
-                currentRssi && currentRssi > -85 ? 'text-blue-600' :
-                currentRssi && currentRssi > -100 ? 'text-yellow-600' : 'text-red-600'
-              }`}>
+              <span className={`text-lg font-bold ${QUALITY_CLASSES[currentRssi ? classify(currentRssi, 'rssi', profile) : 'poor'].text}`}>
                 {currentRssi ? `${currentRssi.toFixed(1)} dBm` : '--'}
               </span>
             </div>
+            {rssiSimulated && currentRssi !== null && (
+              <p className="text-xs text-yellow-700 mt-1 text-right">Simulated: no WiFi provider on the data server</p>
+            )}
           </div>
 
-          {/* Room Label */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Current Room (optional)
-            </label>
-            <input
-              type="text"
-              value={roomName}
-              onChange={(e) => setRoomName(e.target.value)}
-              placeholder="e.g., Living Room, Bedroom"
-              className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+          {/* Positioning Mode */}
+          <div className="flex rounded-lg bg-gray-100 p-1 mb-4">
+            {([
+              { mode: 'sensors', label: 'Motion Sensors' },
+              { mode: 'survey', label: 'Tap to Place' },
+            ] as const).map(item => (
+              <button
+                key={item.mode}
+                onClick={() => setPositioning(item.mode)}
+                disabled={isRecording}
+                className={`flex-1 px-3 py-2 rounded-md text-sm font-medium disabled:cursor-not-allowed ${
+                  positioning === item.mode ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
           </div>
 
           {/* Controls */}
@@ -209,7 +577,7 @@ export default function IndoorMapper() {
                 className="flex-1 bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 flex items-center justify-center"
               >
                 <Play className="w-5 h-5 mr-2" />
-                Start Mapping
+                {measurements.length > 0 ? 'Resume Mapping' : 'Start Mapping'}
               </button>
             ) : (
               <button
@@ -228,14 +596,163 @@ export default function IndoorMapper() {
             </button>
           </div>
 
-          {isRecording && (
+          {isRecording && positioning === 'sensors' && sensorStatus !== 'unavailable' && (
             <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3">
               <p className="text-sm text-blue-800">
-                🚶 Walk around your house. The app is recording signal strength at your current location.
+                {sensorStatus === 'waiting'
+                  ? 'Waiting for motion sensors...'
+                  : '🚶 Walk around your house. Each detected step records signal strength at your estimated position.'}
               </p>
             </div>
           )}
+
+          {isRecording && positioning === 'survey' && (
+            <div className="mt-4 space-y-3">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-sm text-blue-800">
+                  {lastAnchorRef.current
+                    ? `Tap your position whenever you reach a new spot. ${pendingCount} readings will be placed along your path at the next tap.`
+                    : `Tap where you are standing on the ${floorPlan?.metersPerPixel ? 'floor plan below' : 'grid'} to begin.`}
+                </p>
+              </div>
+              {!floorPlan?.metersPerPixel && (
+                <SurveyMap measurements={measurements} currentPosition={lastAnchorRef.current ? currentPosition : null} onPlace={handlePlace} />
+              )}
+            </div>
+          )}
+
+          {positioning === 'sensors' && sensorStatus === 'unavailable' && (
+            <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <p className="text-sm text-yellow-800">
+                No motion sensor data received. Open this page on a phone, or replay a recorded sensor trace below.
+              </p>
+            </div>
+          )}
+
+          {positioning === 'sensors' && sensorStatus === 'denied' && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-800">
+                Motion sensor access was denied. Allow motion and orientation access in your browser settings to map.
+              </p>
+            </div>
+          )}
+
+          {/* Sensor Trace */}
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center">
+              <Footprints className="w-4 h-4 mr-2 text-blue-500" />
+              Sensor Trace
+            </h3>
+            <div className="flex space-x-3 mb-3">
+              <button
+                onClick={() => traceInputRef.current?.click()}
+                disabled={isRecording}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Replay Trace
+              </button>
+              <button
+                onClick={() => lastTrace && downloadJson(lastTrace, `sensor-trace-${lastTrace.recordedAt}.json`)}
+                disabled={!lastTrace || isRecording}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Trace
+              </button>
+              <input ref={traceInputRef} type="file" accept=".json,application/json" onChange={handleTraceFile} className="hidden" />
+            </div>
+            <div className="flex items-end space-x-3">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-600 mb-1">Distance walked (m)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={calibrationDistance}
+                  onChange={(e) => setCalibrationDistance(Number(e.target.value))}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleCalibrate}
+                disabled={!lastTrace || isRecording || !(calibrationDistance > 0)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                Calibrate Stride
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Stride constant K = {strideK.toFixed(3)}
+              {strideK !== DEFAULT_STRIDE_K && !isRecording && (
+                <button onClick={() => updateStrideK(DEFAULT_STRIDE_K)} className="ml-2 text-blue-600 hover:underline">
+                  Reset
+                </button>
+              )}
+            </p>
+            {traceMessage && <p className="text-xs text-gray-700 mt-2">{traceMessage}</p>}
+          </div>
+        </div>
+      </div>
+
+      {/* Sessions */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+          <FolderOpen className="w-5 h-5 mr-2 text-blue-500" />
+          Sessions
+        </h2>
+        {sessionMessage && (
+          <p className={`text-sm rounded p-2 mb-4 ${sessionMessage.error ? 'text-red-800 bg-red-50' : 'text-green-800 bg-green-50'}`}>
+            {sessionMessage.text}
+          </p>
+        )}
+        <SessionList
+          sessions={sessions}
+          currentId={session?.id ?? null}
+          currentCount={measurements.length}
+          disabled={isRecording}
+          onOpen={handleOpenSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onNew={handleNewSession}
+          onImport={handleImport}
+        />
+      </div>
+
+      {/* Floor Plan */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {floorPlan && isRecording ? 'Floor Plan Coverage (Live)' : 'Floor Plan'}
+          </h2>
+          <div className="flex items-center space-x-3">
+            {floorPlan && measurements.length > 0 && (
+              <InterpolationControls method={method} onMethodChange={setMethod} layer={layer} onLayerChange={setLayer} />
+            )}
+            {floorPlan && measurements.length > 0 && !isRecording && (
+              <button
+                onClick={handleExport}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Data
+              </button>
+            )}
+          </div>
         </div>
+        {!floorPlanSaved && (
+          <p className="text-sm text-yellow-800 bg-yellow-50 rounded p-2 mb-4">
+            This floor plan is too large to keep in browser storage and will be lost on reload. Use a smaller image to keep it.
+          </p>
+        )}
+        <FloorPlanEditor
+          plan={floorPlan}
+          onChange={setFloorPlan}
+          measurements={measurements}
+          raster={interpolation?.raster ?? null}
+          layer={layer}
+          currentPosition={isRecording ? currentPosition : null}
+          onPlace={isRecording && positioning === 'survey' ? handlePlace : undefined}
+        />
       </div>
 
       {/* Statistics */}
@@ -267,22 +784,18 @@ export default function IndoorMapper() {
         <div className="bg-white shadow-lg rounded-lg p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Signal Quality Distribution</h2>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            {[
-              { label: 'Excellent (>-70)', value: stats.excellent, color: 'bg-green-500' },
-              { label: 'Good (-70 to -85)', value: stats.good, color: 'bg-blue-500' },
-              { label: 'Fair (-85 to -100)', value: stats.fair, color: 'bg-yellow-500' },
-              { label: 'Poor (<-100)', value: stats.poor, color: 'bg-red-500' },
-            ].map((item, idx) => (
-              <div key={idx} className="text-center p-4 bg-gray-50 rounded-lg">
-                <div className={`${item.color} w-full h-2 rounded mb-2`}></div>
-                <p className="text-sm text-gray-600">{item.label}</p>
-                <p className="text-2xl font-bold text-gray-900">{item.value}</p>
+            {QUALITIES.map(quality => (
+              <div key={quality} className="text-center p-4 bg-gray-50 rounded-lg">
+                <div className={`${QUALITY_CLASSES[quality].bar} w-full h-2 rounded mb-2`}></div>
+                <p className="text-sm text-gray-600">{qualityLabel(quality, 'rssi', profile)}</p>
+                <p className="text-2xl font-bold text-gray-900">{stats[quality]}</p>
                 <p className="text-xs text-gray-500">
-                  {((item.value / stats.total) * 100).toFixed(1)}%
+                  {((stats[quality] / stats.total) * 100).toFixed(1)}%
                 </p>
               </div>
             ))}
           </div>
+          <ProfileNote />
         </div>
       )}
 
@@ -294,14 +807,30 @@ export default function IndoorMapper() {
               <h2 className="text-2xl font-bold text-gray-900 mb-2">📊 Final Heatmap Generated</h2>
               <p className="text-gray-600">Complete coverage visualization of your indoor mapping session</p>
             </div>
-            <button
-              onClick={handleExport}
-              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center font-semibold"
-            >
-              <Download className="w-5 h-5 mr-2" />
-              Export Heatmap Data
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleUpload}
+                disabled={uploading}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center font-semibold"
+                title="Register this survey as a dataset for the analysis pages"
+              >
+                <UploadCloud className="w-5 h-5 mr-2" />
+                {uploading ? 'Uploading...' : 'Upload Survey'}
+              </button>
+              <button
+                onClick={handleExport}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center font-semibold"
+              >
+                <Download className="w-5 h-5 mr-2" />
+                Export Heatmap Data
+              </button>
+            </div>
           </div>
+          {uploadMessage && (
+            <p className={`text-sm rounded p-2 mb-4 ${uploadMessage.error ? 'text-red-800 bg-red-50' : 'text-green-800 bg-green-50'}`}>
+              {uploadMessage.text}
+            </p>
+          )}
           <div className="bg-white rounded-lg p-4 mb-4">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
               <div>
@@ -311,7 +840,7 @@ export default function IndoorMapper() {
               <div>
                 <p className="text-sm text-gray-600">Coverage Area</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {coverageGrid.length} cells
+                  {coveredArea.toFixed(1)} m²
                 </p>
               </div>
               <div>
@@ -330,83 +859,34 @@ export default function IndoorMapper() {
       )}
 
       {/* Coverage Heatmap */}
-      {measurements.length > 0 && (
+      {measurements.length > 0 && !floorPlan && (
         <div className="bg-white shadow-lg rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-gray-900">
               {!isRecording ? '📈 Generated Heatmap Visualization' : 'Indoor Coverage Heatmap (Live)'}
             </h2>
-            {!isRecording && (
-              <button
-                onClick={handleExport}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center"
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export Data
-              </button>
-            )}
-          </div>
-          <ResponsiveContainer width="100%" height={500}>
-            <ScatterChart>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis 
-                type="number" 
-                dataKey="x" 
-                name="X (meters)" 
-                label={{ value: 'Position X', position: 'insideBottom', offset: -5 }}
-              />
-              <YAxis 
-                type="number" 
-                dataKey="y" 
-                name="Y (meters)" 
-                label={{ value: 'Position Y', angle: -90, position: 'insideLeft' }}
-              />
-              <Tooltip 
-                cursor={{ strokeDasharray: '3 3' }}
-                formatter={(value: any, name: string) => {
-                  if (name === 'avgRssi') return [`${value.toFixed(2)} dBm`, 'Avg RSSI']
-                  return [value, name]
-                }}
-              />
-              
-              {/* Coverage grid */}
-              {coverageGrid.length > 0 && (
-                <Scatter name="Coverage Grid" data={coverageGrid} fill="#8884d8">
-                  {coverageGrid.map((cell, index) => (
-                    <Cell
-                      key={`grid-${index}`}
-                      fill={
-                        cell.avgRssi > -70 ? '#10b981' :
-                        cell.avgRssi > -85 ? '#3b82f6' :
-                        cell.avgRssi > -100 ? '#f59e0b' : '#ef4444'
-                      }
-                    />
-                  ))}
-                </Scatter>
+            <div className="flex items-center space-x-3">
+              <InterpolationControls method={method} onMethodChange={setMethod} layer={layer} onLayerChange={setLayer} />
+              {!isRecording && (
+                <button
+                  onClick={handleExport}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Data
+                </button>
               )}
-
-              {/* Individual measurements */}
-              <Scatter name="Measurements" data={measurements} fill="#8884d8">
-                {measurements.map((m, index) => (
-                  <Cell
-                    key={`point-${index}`}
-                    fill={
-                      m.rssi > -70 ? '#10b981' :
-                      m.rssi > -85 ? '#3b82f6' :
-                      m.rssi > -100 ? '#f59e0b' : '#ef4444'
-                    }
-                  />
-                ))}
-              </Scatter>
-
-              {/* Current position */}
-              {isRecording && currentRssi !== null && (
-                <Scatter name="Current Position" data={[{ x: currentPosition.x, y: currentPosition.y, rssi: currentRssi }]}>
-                  <Cell fill="#000000" />
-                </Scatter>
-              )}
-            </ScatterChart>
-          </ResponsiveContainer>
+            </div>
+          </div>
+          <RasterHeatmap
+            raster={interpolation?.raster ?? null}
+            layer={layer}
+            points={heatmapPoints}
+            markers={positionMarkers}
+            height={500}
+            xLabel="Position X (m)"
+            yLabel="Position Y (m)"
+          />
         </div>
       )}
 
@@ -420,20 +900,13 @@ export default function IndoorMapper() {
               const roomAvgRssi = roomMeasurements.length > 0
                 ? roomMeasurements.reduce((sum, m) => sum + m.rssi, 0) / roomMeasurements.length
                 : 0
-              const roomQuality = roomAvgRssi > -70 ? 'excellent' :
-                                 roomAvgRssi > -85 ? 'good' :
-                                 roomAvgRssi > -100 ? 'fair' : 'poor'
-              
+              const roomQuality = classify(roomAvgRssi, 'rssi', profile)
+
               return (
                 <div key={room} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-center justify-between">
                     <h3 className="font-semibold text-gray-900">{room}</h3>
-                    <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                      roomQuality === 'excellent' ? 'bg-green-100 text-green-800' :
-                      roomQuality === 'good' ? 'bg-blue-100 text-blue-800' :
-                      roomQuality === 'fair' ? 'bg-yellow-100 text-yellow-800' :
-                      'bg-red-100 text-red-800'
-                    }`}>
+                    <span className={`px-3 py-1 rounded-full text-sm font-semibold ${QUALITY_CLASSES[roomQuality].badge}`}>
                       {roomQuality}
                     </span>
                   </div>
@@ -452,17 +925,19 @@ export default function IndoorMapper() {
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-blue-900 mb-3">How to Use</h3>
         <ol className="list-decimal list-inside space-y-2 text-blue-800">
-          <li>Click "Start Mapping" to begin recording</li>
-          <li>Walk around your house while holding your phone</li>
-          <li>Optionally label rooms as you enter them</li>
-          <li>The app records signal strength at your current location</li>
-          <li>View the heatmap to see coverage patterns</li>
+          <li>Open this page on your phone and click "Start Mapping" (allow motion access when asked)</li>
+          <li>Walk around your house holding the phone flat in front of you, or switch to "Tap to Place" and tap your position on the grid or floor plan as you go</li>
+          <li>Optionally upload a floor plan, set its scale and start point, and draw rooms on it</li>
+          <li>Each detected step moves your position along the compass heading and records signal strength</li>
+          <li>View the heatmap, overlaid on your floor plan, to see coverage patterns; measurements are assigned to the room they fall in</li>
+          <li>Sessions are saved in the browser as you go; reopen one to resume mapping or import earlier exports into it</li>
           <li>Export data for further analysis</li>
         </ol>
         <div className="mt-4 p-3 bg-blue-100 rounded">
           <p className="text-sm text-blue-900">
-            <strong>Note:</strong> This is a web-based simulation. A real mobile app would use:
-            GPS/indoor positioning, device signal strength APIs, and motion sensors for accurate tracking.
+            <strong>Note:</strong> Position is estimated by pedestrian dead reckoning, so it drifts over long walks.
+            Walk a measured straight line and use "Calibrate Stride" to match your step length. Browsers cannot read
+            WiFi signal directly; RSSI comes from the data server's WiFi provider and is simulated when it has none.
           </p>
         </div>
       </div>
@@ -1,9 +1,22 @@
 import { useState, useEffect, useMemo } from 'react'
-import { api, SignalData } from '../utils/api'
-import { Radio, MapPin, Signal, TrendingUp, Target } from 'lucide-react'
+import { api, Positions, SignalData } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import DataLimitNote from '../components/DataLimitNote'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
+import { Radio, MapPin, Signal, TrendingUp, Target, MapPinOff } from 'lucide-react'
+import { interpolate, InterpolationMethod } from '../utils/interpolation'
+import {
+  QUALITIES,
+  QUALITY_CLASSES,
+  Quality,
+  classify,
+  countByQuality,
+  headlineMetrics,
+  qualityColor,
+  qualityLabel,
+} from '../utils/metrics'
+import RasterHeatmap, { HeatmapMarker, InterpolationControls, RasterLayer } from '../components/RasterHeatmap'
 import {
-  ScatterChart,
-  Scatter,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -14,17 +27,31 @@ import {
   Bar,
 } from 'recharts'
 
+// Located points drawn on the map; the statistics use every reading
+const MAX_MAP_POINTS = 5000
+
 export default function LocalNetworkPlanner() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
   const [data, setData] = useState<SignalData[]>([])
+  const [dataTotal, setDataTotal] = useState(0)
+  const [positions, setPositions] = useState<Positions | null>(null)
   const [loading, setLoading] = useState(true)
   const [gridSize, setGridSize] = useState(1.0)
+  const [method, setMethod] = useState<InterpolationMethod>('idw')
+  const [layer, setLayer] = useState<RasterLayer>('value')
 
   useEffect(() => {
     const loadData = async () => {
       setLoading(true)
       try {
-        const signalData = await api.getData()
-        setData(Array.isArray(signalData) ? signalData : [])
+        const [signalData, located] = await Promise.all([
+          api.getData(undefined, { dataset }),
+          api.getPositions(undefined, { dataset, limit: MAX_MAP_POINTS }),
+        ])
+        setData(signalData.rows)
+        setDataTotal(signalData.total)
+        setPositions(located)
       } catch (error) {
         console.error('Error loading data:', error)
       } finally {
@@ -32,78 +59,30 @@ export default function LocalNetworkPlanner() {
       }
     }
     loadData()
-  }, [])
+  }, [dataset])
 
-  // Process data for local network analysis
-  // Generate coordinates if not available (use cell_id and timestamp to create spatial distribution)
-  const networkPoints = useMemo(() => {
-    if (!data.length) return []
-    
-    // First try to use actual x,y coordinates
-    let pointsWithCoords = data.filter(d => 
-      d.x !== undefined && 
-      d.y !== undefined && 
-      d.rssi !== undefined && 
-      d.rssi < 0 &&
-      d.rssi > -140
-    ).map(d => ({
-      x: d.x!,
-      y: d.y!,
-      rssi: d.rssi!,
-      type: 'cellular' as const,
-      timestamp: d.timestamp
-    }))
-
-    // If no coordinates, generate them from cell_id and timestamp
-    if (pointsWithCoords.length === 0) {
-      const validData = data.filter(d => 
-        d.rssi !== undefined && 
-        d.rssi < 0 &&
-        d.rssi > -140 &&
-        d.cell_id !== undefined
-      )
-
-      if (validData.length > 0) {
-        // Create spatial distribution based on cell_id and timestamp
-        const cellGroups = new Map<number, SignalData[]>()
-        validData.forEach(d => {
-          const cellId = d.cell_id!
-          if (!cellGroups.has(cellId)) {
-            cellGroups.set(cellId, [])
-          }
-          cellGroups.get(cellId)!.push(d)
-        })
-
-        // Generate coordinates for each cell group
-        const cellPositions = new Map<number, { x: number, y: number }>()
-        let idx = 0
-        cellGroups.forEach((_, cellId) => {
-          // Distribute cells in a grid pattern
-          const cols = Math.ceil(Math.sqrt(cellGroups.size))
-          const x = (idx % cols) * 5 - (cols * 2.5)
-          const y = Math.floor(idx / cols) * 5 - (Math.floor(cellGroups.size / cols) * 2.5)
-          cellPositions.set(cellId, { x, y })
-          idx++
-        })
-
-        // Create points with generated coordinates
-        pointsWithCoords = validData.map((d, i) => {
-          const pos = cellPositions.get(d.cell_id!) || { x: 0, y: 0 }
-          // Add some variation based on timestamp
-          const timeVar = d.timestamp ? (d.timestamp % 1000) / 1000 : 0
-          return {
-            x: pos.x + (timeVar - 0.5) * 2,
-            y: pos.y + ((i % 10) / 10 - 0.5) * 2,
-            rssi: d.rssi!,
-            type: 'cellular' as const,
-            timestamp: d.timestamp
-          }
-        })
-      }
-    }
+  // Readings with a usable RSSI; the statistics don't need a position
+  const readings = useMemo(
+    () => data.map(d => d.rssi).filter((rssi): rssi is number => rssi !== undefined && rssi < 0 && rssi > -140),
+    [data]
+  )
 
-    return pointsWithCoords.slice(0, 5000) // Limit for performance
-  }, [data])
+  // Only positions the server could derive from the data; unlocated readings stay off the map
+  const networkPoints = useMemo(
+    () => (positions?.points ?? []).filter(p => p.rssi < 0 && p.rssi > -140),
+    [positions]
+  )
+
+  const positionSources = useMemo(() => {
+    const counts = { xy: 0, gnss: 0, trilateration: 0 }
+    networkPoints.forEach(p => counts[p.source]++)
+    return counts
+  }, [networkPoints])
+
+  const siteMarkers = useMemo<HeatmapMarker[]>(
+    () => (positions?.sites ?? []).map(site => ({ x: site.x, y: site.y, color: '#111827', shape: 'triangle', label: `Cell ${site.cell_id}` })),
+    [positions]
+  )
 
   // Create coverage grid
   const coverageGrid = useMemo(() => {
@@ -115,7 +94,7 @@ export default function LocalNetworkPlanner() {
       rssis: number[], 
       count: number,
       avgRssi: number,
-      quality: 'excellent' | 'good' | 'fair' | 'poor'
+      quality: Quality
     }> = new Map()
 
     networkPoints.forEach(point => {
@@ -135,69 +114,60 @@ export default function LocalNetworkPlanner() {
     const gridArray: any[] = []
     grid.forEach((cell) => {
       cell.avgRssi = cell.rssis.reduce((a, b) => a + b, 0) / cell.rssis.length
-      if (cell.avgRssi > -70) cell.quality = 'excellent'
-      else if (cell.avgRssi > -85) cell.quality = 'good'
-      else if (cell.avgRssi > -100) cell.quality = 'fair'
-      else cell.quality = 'poor'
+      cell.quality = classify(cell.avgRssi, 'rssi', profile)
       gridArray.push(cell)
     })
 
     return gridArray
-  }, [networkPoints, gridSize])
+  }, [networkPoints, gridSize, profile])
 
-  // Coverage statistics
-  const coverageStats = useMemo(() => {
-    if (networkPoints.length === 0) {
-      return {
-        total: 0,
-        excellent: 0,
-        good: 0,
-        fair: 0,
-        poor: 0,
-        avgRssi: 0,
-        coveragePercent: 0
-      }
-    }
+  const heatmapPoints = useMemo(() => networkPoints.map(p => ({ x: p.x, y: p.y, value: p.rssi })), [networkPoints])
 
-    const excellent = networkPoints.filter(p => p.rssi > -70).length
-    const good = networkPoints.filter(p => p.rssi > -85 && p.rssi <= -70).length
-    const fair = networkPoints.filter(p => p.rssi > -100 && p.rssi <= -85).length
-    const poor = networkPoints.filter(p => p.rssi <= -100).length
-    
-    const avgRssi = networkPoints.reduce((sum, p) => sum + p.rssi, 0) / networkPoints.length
-    const coveragePercent = ((excellent + good) / networkPoints.length) * 100
+  // Continuous surface between the measured points
+  const interpolation = useMemo(
+    () => interpolate(heatmapPoints, { method, cellSize: gridSize }),
+    [heatmapPoints, method, gridSize]
+  )
 
+  // Coverage statistics, each row judged by its technology's headline metric
+  const coverageStats = useMemo(() => {
+    const counts = countByQuality(data, profile)
+    const total = QUALITIES.reduce((sum, quality) => sum + counts[quality], 0)
     return {
-      total: networkPoints.length,
-      excellent,
-      good,
-      fair,
-      poor,
-      avgRssi,
-      coveragePercent
+      total,
+      ...counts,
+      avgRssi: readings.length > 0 ? readings.reduce((sum, rssi) => sum + rssi, 0) / readings.length : 0,
+      coveragePercent: total > 0 ? ((counts.excellent + counts.good) / total) * 100 : 0,
     }
-  }, [networkPoints])
+  }, [data, readings, profile])
+
+  // Legends show thresholds only when every row uses the same metric
+  const legendMetric = useMemo(() => {
+    const metrics = headlineMetrics(data)
+    return metrics.length === 1 ? metrics[0] : null
+  }, [data])
 
-  // Signal strength distribution
+  // Signal strength distribution, binned on the profile's RSSI bands
   const signalDistribution = useMemo(() => {
+    const { excellent, good, fair } = profile.thresholds.rssi
     const bins = [
-      { range: '-30 to -50', min: -50, max: -30, count: 0 },
-      { range: '-50 to -70', min: -70, max: -50, count: 0 },
-      { range: '-70 to -85', min: -85, max: -70, count: 0 },
-      { range: '-85 to -100', min: -100, max: -85, count: 0 },
-      { range: '-100 to -120', min: -120, max: -100, count: 0 },
-    ]
-
-    networkPoints.forEach(point => {
+      [excellent + 20, excellent + 40],
+      [excellent, excellent + 20],
+      [good, excellent],
+      [fair, good],
+      [fair - 20, fair],
+    ].map(([min, max]) => ({ range: `${max} to ${min}`, min, max, count: 0 }))
+
+    readings.forEach(rssi => {
       bins.forEach(bin => {
-        if (point.rssi >= bin.min && point.rssi < bin.max) {
+        if (rssi >= bin.min && rssi < bin.max) {
           bin.count++
         }
       })
     })
 
     return bins
-  }, [networkPoints])
+  }, [readings, profile])
 
   // Top weak coverage areas
   const weakAreas = useMemo(() => {
@@ -230,6 +200,8 @@ export default function LocalNetworkPlanner() {
         <p className="text-indigo-100">Analyze and optimize cellular network coverage in your area</p>
       </div>
 
+      <DataLimitNote loaded={data.length} total={dataTotal} />
+
       {/* Coverage Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white shadow-lg rounded-lg p-4 border-l-4 border-green-500">
@@ -277,17 +249,12 @@ export default function LocalNetworkPlanner() {
       <div className="bg-white shadow-lg rounded-lg p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Signal Quality Distribution</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-          {[
-            { label: 'Excellent (>-70)', value: coverageStats.excellent, color: 'bg-green-500', percent: ((coverageStats.excellent / Math.max(1, coverageStats.total)) * 100).toFixed(1) },
-            { label: 'Good (-70 to -85)', value: coverageStats.good, color: 'bg-blue-500', percent: ((coverageStats.good / Math.max(1, coverageStats.total)) * 100).toFixed(1) },
-            { label: 'Fair (-85 to -100)', value: coverageStats.fair, color: 'bg-yellow-500', percent: ((coverageStats.fair / Math.max(1, coverageStats.total)) * 100).toFixed(1) },
-            { label: 'Poor (<-100)', value: coverageStats.poor, color: 'bg-red-500', percent: ((coverageStats.poor / Math.max(1, coverageStats.total)) * 100).toFixed(1) },
-          ].map((item, idx) => (
-            <div key={idx} className="text-center p-4 bg-gray-50 rounded-lg">
-              <div className={`${item.color} w-full h-2 rounded mb-2`}></div>
-              <p className="text-sm text-gray-600">{item.label}</p>
-              <p className="text-2xl font-bold text-gray-900">{item.value.toLocaleString()}</p>
-              <p className="text-xs text-gray-500">{item.percent}%</p>
+          {QUALITIES.map(quality => (
+            <div key={quality} className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className={`${QUALITY_CLASSES[quality].bar} w-full h-2 rounded mb-2`}></div>
+              <p className="text-sm text-gray-600">{qualityLabel(quality, legendMetric, profile)}</p>
+              <p className="text-2xl font-bold text-gray-900">{coverageStats[quality].toLocaleString()}</p>
+              <p className="text-xs text-gray-500">{((coverageStats[quality] / Math.max(1, coverageStats.total)) * 100).toFixed(1)}%</p>
             </div>
           ))}
         </div>
@@ -304,17 +271,14 @@ export default function LocalNetworkPlanner() {
                 {signalDistribution.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={
-                      entry.max > -50 ? '#10b981' :
-                      entry.max > -70 ? '#3b82f6' :
-                      entry.max > -85 ? '#f59e0b' : '#ef4444'
-                    }
+                    fill={qualityColor((entry.min + entry.max) / 2, 'rssi', profile)}
                   />
                 ))}
               </Bar>
             </BarChart>
           </ResponsiveContainer>
         )}
+        <ProfileNote />
       </div>
 
       {/* Coverage Map */}
@@ -323,6 +287,7 @@ export default function LocalNetworkPlanner() {
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-gray-900">Coverage Heatmap</h2>
             <div className="flex items-center space-x-4">
+              <InterpolationControls method={method} onMethodChange={setMethod} layer={layer} onLayerChange={setLayer} />
               <label className="text-sm text-gray-600">Grid Size:</label>
               <input
                 type="range"
@@ -333,53 +298,45 @@ export default function LocalNetworkPlanner() {
                 onChange={(e) => setGridSize(parseFloat(e.target.value))}
                 className="w-32"
               />
-              <span className="text-sm font-semibold text-gray-900">{gridSize.toFixed(1)}</span>
+              <span className="text-sm font-semibold text-gray-900">{gridSize.toFixed(1)} m</span>
             </div>
           </div>
-          <ResponsiveContainer width="100%" height={600}>
-            <ScatterChart>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis type="number" dataKey="x" name="X Coordinate" />
-              <YAxis type="number" dataKey="y" name="Y Coordinate" />
-              <Tooltip 
-                cursor={{ strokeDasharray: '3 3' }}
-                formatter={(value: any, name: string) => {
-                  if (name === 'Signal Strength') return [`${value} dBm`, 'RSSI']
-                  return [value, name]
-                }}
-              />
-              
-              {/* Coverage grid cells */}
-              {coverageGrid.length > 0 && (
-                <Scatter name="Coverage Grid" data={coverageGrid} fill="#8884d8">
-                  {coverageGrid.map((cell, index) => (
-                    <Cell
-                      key={`grid-${index}`}
-                      fill={
-                        cell.quality === 'excellent' ? '#10b981' :
-                        cell.quality === 'good' ? '#3b82f6' :
-                        cell.quality === 'fair' ? '#f59e0b' : '#ef4444'
-                      }
-                    />
-                  ))}
-                </Scatter>
-              )}
-
-              {/* Individual signal points */}
-              <Scatter name="Signal Strength" data={networkPoints.slice(0, 2000)} fill="#8884d8">
-                {networkPoints.slice(0, 2000).map((point, index) => (
-                  <Cell
-                    key={`point-${index}`}
-                    fill={
-                      point.rssi > -70 ? '#10b981' :
-                      point.rssi > -85 ? '#3b82f6' :
-                      point.rssi > -100 ? '#f59e0b' : '#ef4444'
-                    }
-                  />
-                ))}
-              </Scatter>
-            </ScatterChart>
-          </ResponsiveContainer>
+          <RasterHeatmap
+            raster={interpolation?.raster ?? null}
+            layer={layer}
+            points={heatmapPoints}
+            markers={siteMarkers}
+            xLabel={positions?.frame === 'enu' ? 'East (m)' : 'X (m)'}
+            yLabel={positions?.frame === 'enu' ? 'North (m)' : 'Y (m)'}
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            {[
+              positionSources.xy > 0 && `${positionSources.xy.toLocaleString()} from the data's x/y`,
+              positionSources.gnss > 0 && `${positionSources.gnss.toLocaleString()} from lat/lon around ${positions?.origin?.lat.toFixed(5)}, ${positions?.origin?.lon.toFixed(5)}`,
+              positionSources.trilateration > 0 && `${positionSources.trilateration.toLocaleString()} trilaterated from ${siteMarkers.length} cell sites`,
+            ].filter(Boolean).join(', ')}
+            {positions && positions.total > networkPoints.length && ` (first ${networkPoints.length.toLocaleString()} of ${positions.total.toLocaleString()} drawn)`}
+            {positions && positions.unlocated > 0 && `. ${positions.unlocated.toLocaleString()} readings have no position and are left off the map.`}
+          </p>
+          {interpolation && interpolation.cellSize !== gridSize && (
+            <p className="text-xs text-gray-500 mt-2">
+              Cell size raised to {interpolation.cellSize.toFixed(1)} m to keep the raster responsive over this area.
+            </p>
+          )}
+        </div>
+      )}
+
+      {networkPoints.length === 0 && readings.length > 0 && (
+        <div className="bg-white shadow-lg rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2 flex items-center">
+            <MapPinOff className="w-5 h-5 mr-2 text-gray-500" />
+            Non-spatial data
+          </h2>
+          <p className="text-sm text-gray-600">
+            None of these {readings.length.toLocaleString()} readings has a position, so there is no coverage map and no weak areas.
+            The statistics above still use every reading. To map this dataset, include x/y (meters) or lat/lon columns,
+            or add a cell_sites.csv with each cell's location so readings that hear three or more cells at once can be trilaterated.
+          </p>
         </div>
       )}
 
@@ -1,5 +1,8 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { api, SignalData } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import DataLimitNote from '../components/DataLimitNote'
+import { useQualityProfile } from '../components/QualityProfileContext'
 import {
   ScatterChart,
   Scatter,
@@ -8,32 +11,107 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  Cell,
+  Legend,
 } from 'recharts'
-import { Radio, Target, Zap, TrendingUp } from 'lucide-react'
-
-interface CoverageGap {
-  x: number
-  y: number
-  avgRssi: number
-  count: number
-  priority: 'high' | 'medium' | 'low'
+import { Radio, Target, Zap, TrendingUp, Download } from 'lucide-react'
+import {
+  DEFAULT_PROPAGATION,
+  PROPAGATION_MODELS,
+  PropagationModel,
+  PropagationParams,
+  Environment,
+  fadeMargin,
+} from '../utils/propagation'
+import { calibrate, applyCalibration } from '../utils/calibration'
+import { suggestK } from '../utils/clustering'
+import {
+  PlacementSolution,
+  parseExclusionZones,
+  runOptimizerInWorker,
+} from '../utils/optimizer'
+import {
+  HeuristicAlgorithm,
+  Priority,
+  TowerSite,
+  buildCoverageGrid,
+  findCoverageGaps,
+  gapWeight,
+  priorityAt,
+  countNewlyCovered,
+  placeTowers,
+  withEstimatedCoverage,
+  GRID_SIZE,
+} from '../utils/planning'
+import { interpolate, InterpolationMethod } from '../utils/interpolation'
+import RasterHeatmap, { HeatmapMarker, InterpolationControls, RasterLayer } from '../components/RasterHeatmap'
+import { LatLon, Projection, projectSignalData } from '../utils/geo'
+
+const MAX_TOWERS = 20
+const GAP_COLORS: Record<Priority, string> = { high: '#ef4444', medium: '#f59e0b', low: '#fbbf24' }
+const TOWER_COLORS: Record<Priority, string> = { high: '#dc2626', medium: '#f59e0b', low: '#3b82f6' }
+
+type PlacementAlgorithm = HeuristicAlgorithm | 'optimizer'
+
+function formatLatLon({ lat, lon }: LatLon): string {
+  return `${lat.toFixed(6)}, ${lon.toFixed(6)}`
+}
+
+function downloadCsv(rows: Record<string, string | number>[], filename: string) {
+  const headers = Object.keys(rows[0])
+  const lines = [headers.join(','), ...rows.map(row => headers.map(h => row[h]).join(','))]
+  const blob = new Blob([lines.join('\n') + '\n'], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
 }
 
 export default function NetworkPlanner() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
   const [data, setData] = useState<SignalData[]>([])
+  const [dataTotal, setDataTotal] = useState(0)
+  // Set when the data's positions came from lat/lon; x/y are then meters
+  const [projection, setProjection] = useState<Projection | null>(null)
   const [loading, setLoading] = useState(true)
   const [towerCount, setTowerCount] = useState(5)
-  const [coverageThreshold, setCoverageThreshold] = useState(-85)
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<'kmeans' | 'coverage' | 'density'>('coverage')
+  // Starts at the quality profile's good RSSI bound: below it a cell is a coverage gap
+  const [coverageThreshold, setCoverageThreshold] = useState(profile.thresholds.rssi.good)
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState<PlacementAlgorithm>('coverage')
+  const [propagation, setPropagation] = useState<PropagationParams>(DEFAULT_PROPAGATION)
+  const [useCalibration, setUseCalibration] = useState(true)
+  const [budget, setBudget] = useState(1000000)
+  const [siteCost, setSiteCost] = useState(150000)
+  const [minSiteDistance, setMinSiteDistance] = useState(200)
+  const [exclusionText, setExclusionText] = useState('')
+  const [solutions, setSolutions] = useState<PlacementSolution[]>([])
+  const [selectedSolution, setSelectedSolution] = useState<number | null>(null)
+  const [optimizerProgress, setOptimizerProgress] = useState<{ done: number, total: number } | null>(null)
+  const [interpolationMethod, setInterpolationMethod] = useState<InterpolationMethod>('idw')
+  const [heatmapLayer, setHeatmapLayer] = useState<RasterLayer>('value')
+  const cancelOptimizerRef = useRef<(() => void) | null>(null)
+
+  const updatePropagation = (changes: Partial<PropagationParams>) => {
+    setPropagation(prev => ({ ...prev, ...changes }))
+  }
+
+  // Follow a change of active profile made on the Settings page
+  useEffect(() => {
+    setCoverageThreshold(profile.thresholds.rssi.good)
+  }, [profile])
 
   // Load data
   useEffect(() => {
     const loadData = async () => {
       setLoading(true)
       try {
-        const signalData = await api.getData()
-        setData(Array.isArray(signalData) ? signalData : [])
+        const signalData = await api.getData(undefined, { dataset })
+        const projected = projectSignalData(signalData.rows)
+        setData(projected.data)
+        setDataTotal(signalData.total)
+        setProjection(projected.projection)
+        if (projected.projection) updatePropagation({ metersPerUnit: 1 })
       } catch (error) {
         console.error('Error loading data:', error)
       } finally {
@@ -41,165 +119,108 @@ export default function NetworkPlanner() {
       }
     }
     loadData()
-  }, [])
+  }, [dataset])
 
-  // Analyze coverage gaps
-  const coverageGaps = useMemo(() => {
-    if (!data.length) return []
-    
-    const locationData = data
+  const gridCells = useMemo(() => buildCoverageGrid(data, coverageThreshold), [data, coverageThreshold])
+
+  const coverageGaps = useMemo(
+    () => findCoverageGaps(gridCells, coverageThreshold, profile.thresholds.rssi),
+    [gridCells, coverageThreshold, profile]
+  )
+
+  const coverageSurface = useMemo(() => interpolate(
+    data
       .filter(d => d.x !== undefined && d.y !== undefined && d.rssi !== undefined && d.rssi < 0)
-      .map(d => ({ x: d.x!, y: d.y!, rssi: d.rssi! }))
+      .map(d => ({ x: d.x!, y: d.y!, value: d.rssi! })),
+    { method: interpolationMethod, cellSize: GRID_SIZE }
+  ), [data, interpolationMethod])
 
-    if (locationData.length === 0) return []
+  const weightedGaps = useMemo(
+    () => coverageGaps.map(gap => ({ x: gap.x, y: gap.y, weight: gapWeight(gap, coverageThreshold) })),
+    [coverageGaps, coverageThreshold]
+  )
 
-    // Create grid cells for analysis
-    const gridSize = 2.0
-    const grid: Map<string, { rssis: number[], x: number, y: number, count: number }> = new Map()
+  const suggestedTowers = useMemo(() => suggestK(weightedGaps, MAX_TOWERS), [weightedGaps])
 
-    locationData.forEach(point => {
-      const gridX = Math.floor(point.x / gridSize) * gridSize
-      const gridY = Math.floor(point.y / gridSize) * gridSize
-      const gridKey = `${gridX},${gridY}`
-      
-      if (!grid.has(gridKey)) {
-        grid.set(gridKey, { rssis: [], x: gridX, y: gridY, count: 0 })
-      }
-      const cell = grid.get(gridKey)!
-      cell.rssis.push(point.rssi)
-      cell.count++
-    })
-
-    // Identify weak coverage areas
-    const gaps: CoverageGap[] = []
-    grid.forEach((cell) => {
-      const avgRssi = cell.rssis.reduce((a, b) => a + b, 0) / cell.rssis.length
-      if (avgRssi < coverageThreshold) {
-        gaps.push({
-          x: cell.x,
-          y: cell.y,
-          avgRssi,
-          count: cell.count,
-          priority: avgRssi < -100 ? 'high' : avgRssi < -90 ? 'medium' : 'low'
-        })
-      }
-    })
-
-    return gaps.sort((a, b) => b.count - a.count)
-  }, [data, coverageThreshold])
-
-  // Generate tower recommendations
-  const towerRecommendations = useMemo(() => {
-    if (coverageGaps.length === 0) return []
-
-    if (selectedAlgorithm === 'kmeans') {
-      // K-means clustering approach
-      const k = Math.min(towerCount, coverageGaps.length)
-      const centroids: { x: number, y: number }[] = []
-      
-      // Initialize centroids with highest priority gaps
-      const sortedGaps = [...coverageGaps].sort((a, b) => {
-        const priorityOrder = { high: 3, medium: 2, low: 1 }
-        return priorityOrder[b.priority] - priorityOrder[a.priority]
-      })
-      
-      for (let i = 0; i < k; i++) {
-        centroids.push({ x: sortedGaps[i].x, y: sortedGaps[i].y })
-      }
+  // Fit path loss to the measurements; the fit replaces the manual model when enabled
+  const calibration = useMemo(
+    () => calibrate(data, propagation),
+    [data, propagation.metersPerUnit, propagation.referenceDistance]
+  )
 
-      // Simple k-means iteration
-      for (let iter = 0; iter < 10; iter++) {
-        const clusters: CoverageGap[][] = Array(k).fill(null).map(() => [])
-        
-        coverageGaps.forEach(gap => {
-          let minDist = Infinity
-          let closest = 0
-          centroids.forEach((centroid, idx) => {
-            const dist = Math.sqrt(
-              Math.pow(gap.x - centroid.x, 2) + Math.pow(gap.y - centroid.y, 2)
-            )
-            if (dist < minDist) {
-              minDist = dist
-              closest = idx
-            }
-          })
-          clusters[closest].push(gap)
-        })
-
-        // Update centroids
-        centroids.forEach((centroid, idx) => {
-          if (clusters[idx].length > 0) {
-            centroid.x = clusters[idx].reduce((sum, g) => sum + g.x, 0) / clusters[idx].length
-            centroid.y = clusters[idx].reduce((sum, g) => sum + g.y, 0) / clusters[idx].length
-          }
-        })
-      }
+  const modelParams = useMemo(
+    () => useCalibration ? applyCalibration(propagation, calibration) : propagation,
+    [propagation, calibration, useCalibration]
+  )
 
-      return centroids.map((centroid, idx) => ({
-        id: idx + 1,
-        x: centroid.x,
-        y: centroid.y,
-        priority: coverageGaps.find(g => 
-          Math.abs(g.x - centroid.x) < 1 && Math.abs(g.y - centroid.y) < 1
-        )?.priority || 'medium',
-        estimatedCoverage: Math.min(100, coverageGaps.filter(g => {
-          const dist = Math.sqrt(
-            Math.pow(g.x - centroid.x, 2) + Math.pow(g.y - centroid.y, 2)
-          )
-          return dist < 5 // 5 unit radius
-        }).length * 10)
-      }))
-    } else if (selectedAlgorithm === 'density') {
-      // Density-based approach - place towers in highest density weak areas
-      const sortedGaps = [...coverageGaps]
-        .sort((a, b) => b.count - a.count)
-        .slice(0, towerCount)
-      
-      return sortedGaps.map((gap, idx) => ({
-        id: idx + 1,
-        x: gap.x,
-        y: gap.y,
-        priority: gap.priority,
-        estimatedCoverage: Math.min(100, gap.count * 2)
-      }))
-    } else {
-      // Coverage-based - maximize coverage of weak areas
-      const towers: any[] = []
-      const covered = new Set<string>()
-      
-      const sortedGaps = [...coverageGaps].sort((a, b) => {
-        const priorityOrder = { high: 3, medium: 2, low: 1 }
-        return priorityOrder[b.priority] - priorityOrder[a.priority]
-      })
-
-      for (let i = 0; i < Math.min(towerCount, sortedGaps.length); i++) {
-        const gap = sortedGaps[i]
-        const key = `${gap.x},${gap.y}`
-        
-        if (!covered.has(key)) {
-          towers.push({
-            id: towers.length + 1,
-            x: gap.x,
-            y: gap.y,
-            priority: gap.priority,
-            estimatedCoverage: Math.min(100, gap.count * 3)
-          })
-          
-          // Mark nearby gaps as covered
-          coverageGaps.forEach(g => {
-            const dist = Math.sqrt(
-              Math.pow(g.x - gap.x, 2) + Math.pow(g.y - gap.y, 2)
-            )
-            if (dist < 4) {
-              covered.add(`${g.x},${g.y}`)
-            }
-          })
-        }
+  const requiredRssi = coverageThreshold + fadeMargin(modelParams)
+
+  const exclusionZones = useMemo(() => parseExclusionZones(exclusionText), [exclusionText])
+
+  // Optimizer results are only valid for the inputs they were computed from
+  useEffect(() => {
+    cancelOptimizerRef.current?.()
+    cancelOptimizerRef.current = null
+    setOptimizerProgress(null)
+    setSolutions([])
+    setSelectedSolution(null)
+  }, [gridCells, modelParams, requiredRssi, towerCount, budget, siteCost, minSiteDistance, exclusionZones])
+
+  useEffect(() => () => cancelOptimizerRef.current?.(), [])
+
+  const runOptimizer = async () => {
+    cancelOptimizerRef.current?.()
+    const { promise, cancel } = runOptimizerInWorker(
+      {
+        demand: gridCells
+          .filter(cell => cell.weakCount > 0)
+          .map(cell => ({ x: cell.x, y: cell.y, weight: cell.weakCount })),
+        candidates: gridCells.map(cell => ({ x: cell.x, y: cell.y })),
+        params: modelParams,
+        requiredRssi,
+        constraints: { maxTowers: towerCount, budget, siteCost, minSiteDistance, exclusionZones },
+      },
+      (done, total) => setOptimizerProgress({ done, total })
+    )
+    cancelOptimizerRef.current = cancel
+    setOptimizerProgress({ done: 0, total: towerCount })
+    try {
+      const result = await promise
+      if (result === null) return // cancelled; a newer run or reset owns the state now
+      setSolutions(result)
+      // Default to the best-covering front solution
+      const front = result.map((solution, idx) => ({ solution, idx })).filter(({ solution }) => solution.pareto)
+      setSelectedSolution(front.length > 0 ? front[front.length - 1].idx : null)
+    } catch (error) {
+      console.error('Optimizer failed:', error)
+    } finally {
+      if (cancelOptimizerRef.current === cancel) {
+        cancelOptimizerRef.current = null
+        setOptimizerProgress(null)
       }
+    }
+  }
 
-      return towers
+  // Choose tower sites
+  const towerSites = useMemo((): TowerSite[] => {
+    if (selectedAlgorithm !== 'optimizer') {
+      return placeTowers(selectedAlgorithm, coverageGaps, towerCount, coverageThreshold, modelParams, requiredRssi)
     }
-  }, [coverageGaps, towerCount, selectedAlgorithm])
+    const solution = selectedSolution !== null ? solutions[selectedSolution] : undefined
+    if (!solution) return []
+    return solution.towers.map((tower, idx) => ({
+      id: idx + 1,
+      x: tower.x,
+      y: tower.y,
+      priority: priorityAt(tower, coverageGaps),
+    }))
+  }, [coverageGaps, towerCount, coverageThreshold, selectedAlgorithm, modelParams, requiredRssi, solutions, selectedSolution])
+
+  // Estimate each tower's share of weak measurements it brings into coverage
+  const towerRecommendations = useMemo(
+    () => withEstimatedCoverage(towerSites, gridCells, modelParams, requiredRssi),
+    [towerSites, gridCells, modelParams, requiredRssi]
+  )
 
   // Calculate coverage improvement
   const coverageStats = useMemo(() => {
@@ -209,9 +230,9 @@ export default function NetworkPlanner() {
       d.rssi !== undefined && d.rssi < coverageThreshold
     ).length
     
-    // Estimate improvement with towers
-    const estimatedCovered = towerRecommendations.reduce((sum, tower) => sum + tower.estimatedCoverage, 0)
-    const improvement = Math.min(100, (estimatedCovered / Math.max(1, weakPoints)) * 100)
+    // Weak measurements whose predicted best-server level clears the threshold
+    const newlyCovered = countNewlyCovered(towerSites, gridCells, modelParams, requiredRssi)
+    const improvement = Math.min(100, (newlyCovered / Math.max(1, weakPoints)) * 100)
     
     return {
       totalPoints,
@@ -220,9 +241,24 @@ export default function NetworkPlanner() {
       estimatedImprovement: improvement.toFixed(1),
       currentCoverage: totalPoints > 0 ? ((totalPoints - weakPoints) / totalPoints * 100).toFixed(1) : '0',
       projectedCoverage: totalPoints > 0 ? 
-        Math.min(100, ((totalPoints - weakPoints + estimatedCovered) / totalPoints * 100)).toFixed(1) : '0'
+        Math.min(100, ((totalPoints - weakPoints + newlyCovered) / totalPoints * 100)).toFixed(1) : '0'
     }
-  }, [data, coverageThreshold, towerRecommendations])
+  }, [data, coverageThreshold, towerSites, gridCells, modelParams, requiredRssi])
+
+  // Recommended sites in the data's frame, plus WGS84 lat/lon when the data was geographic
+  const exportTowers = () => {
+    downloadCsv(towerRecommendations.map(tower => {
+      const geo = projection?.toGeographic(tower)
+      return {
+        tower_id: tower.id,
+        x: tower.x.toFixed(2),
+        y: tower.y.toFixed(2),
+        ...(geo ? { lat: geo.lat.toFixed(6), lon: geo.lon.toFixed(6) } : {}),
+        priority: tower.priority,
+        estimated_coverage: tower.estimatedCoverage.toFixed(1),
+      }
+    }), `tower-recommendations-${Date.now()}.csv`)
+  }
 
   if (loading) {
     return (
@@ -235,7 +271,28 @@ export default function NetworkPlanner() {
   const locationData = data
     .filter(d => d.x !== undefined && d.y !== undefined && d.rssi !== undefined && d.rssi < 0)
     .slice(0, 3000)
-    .map(d => ({ x: d.x!, y: d.y!, rssi: d.rssi! }))
+    .map(d => ({ x: d.x!, y: d.y!, value: d.rssi! }))
+
+  const mapMarkers: HeatmapMarker[] = [
+    ...coverageGaps.map(gap => ({
+      x: gap.x + GRID_SIZE / 2,
+      y: gap.y + GRID_SIZE / 2,
+      color: GAP_COLORS[gap.priority],
+      shape: 'square' as const,
+      size: 6,
+    })),
+    ...towerRecommendations.map(tower => ({
+      x: tower.x,
+      y: tower.y,
+      color: TOWER_COLORS[tower.priority],
+      shape: 'triangle' as const,
+      size: 9,
+      label: `T${tower.id}`,
+    })),
+  ]
+  const mapZones = selectedAlgorithm === 'optimizer'
+    ? exclusionZones.map(zone => ({ points: zone, color: '#6b7280' }))
+    : []
 
   return (
     <div className="space-y-6">
@@ -244,6 +301,8 @@ export default function NetworkPlanner() {
         <p className="text-indigo-100">Design optimal cellular tower placement for any location</p>
       </div>
 
+      <DataLimitNote loaded={data.length} total={dataTotal} />
+
       {/* Controls */}
       <div className="bg-white shadow-lg rounded-lg p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Planning Parameters</h2>
@@ -255,7 +314,7 @@ export default function NetworkPlanner() {
             <input
               type="range"
               min="1"
-              max="20"
+              max={MAX_TOWERS}
               value={towerCount}
               onChange={(e) => setTowerCount(parseInt(e.target.value))}
               className="w-full"
@@ -264,6 +323,20 @@ export default function NetworkPlanner() {
               <span className="text-2xl font-bold text-primary-600">{towerCount}</span>
               <span className="text-sm text-gray-600 ml-2">towers</span>
             </div>
+            {suggestedTowers && (
+              <p className="text-xs text-gray-500 mt-1 text-center">
+                Suggested: {suggestedTowers.k} towers (silhouette{' '}
+                {suggestedTowers.scores.find(score => score.k === suggestedTowers.k)?.silhouette.toFixed(2)})
+                {towerCount !== suggestedTowers.k && (
+                  <button
+                    onClick={() => setTowerCount(suggestedTowers.k)}
+                    className="ml-2 text-primary-600 hover:text-primary-800 font-medium"
+                  >
+                    Apply
+                  </button>
+                )}
+              </p>
+            )}
           </div>
           
           <div>
@@ -291,20 +364,357 @@ export default function NetworkPlanner() {
             </label>
             <select
               value={selectedAlgorithm}
-              onChange={(e) => setSelectedAlgorithm(e.target.value as any)}
+              onChange={(e) => setSelectedAlgorithm(e.target.value as PlacementAlgorithm)}
               className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
             >
               <option value="coverage">Coverage-Based</option>
               <option value="density">Density-Based</option>
               <option value="kmeans">K-Means Clustering</option>
+              <option value="optimizer">Budget Optimizer</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">
               {selectedAlgorithm === 'coverage' && 'Maximizes coverage of weak areas'}
               {selectedAlgorithm === 'density' && 'Places towers in highest density weak zones'}
               {selectedAlgorithm === 'kmeans' && 'Uses clustering to find optimal positions'}
+              {selectedAlgorithm === 'optimizer' && 'Simulated annealing under budget and siting constraints'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Budget Optimizer */}
+      {selectedAlgorithm === 'optimizer' && (
+        <div className="bg-white shadow-lg rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Budget Optimizer</h2>
+            <button
+              onClick={runOptimizer}
+              disabled={optimizerProgress !== null || gridCells.length === 0}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {optimizerProgress
+                ? `Optimizing… ${optimizerProgress.done}/${optimizerProgress.total}`
+                : 'Run Optimizer'}
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Total Budget
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="10000"
+                value={budget}
+                onChange={(e) => setBudget(parseFloat(e.target.value) || 0)}
+                className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Cost per Site
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="10000"
+                value={siteCost}
+                onChange={(e) => setSiteCost(parseFloat(e.target.value) || 0)}
+                className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Min Inter-Site Distance (m)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={minSiteDistance}
+                onChange={(e) => setMinSiteDistance(parseFloat(e.target.value) || 0)}
+                className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Exclusion Zones
+            </label>
+            <textarea
+              value={exclusionText}
+              onChange={(e) => setExclusionText(e.target.value)}
+              rows={3}
+              placeholder="One polygon per line, e.g. 0,0 10,0 10,10 0,10"
+              className="w-full border border-gray-300 rounded-md px-4 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {exclusionZones.length} zone{exclusionZones.length === 1 ? '' : 's'} · up to {towerCount} towers
+              (Number of Towers slider)
+            </p>
+          </div>
+
+          {solutions.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ResponsiveContainer width="100%" height={300}>
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="cost" name="Cost" />
+                  <YAxis type="number" dataKey="coveragePercent" name="Weak Points Covered" unit="%" domain={[0, 100]} />
+                  <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                  <Legend />
+                  <Scatter name="Dominated" data={solutions.filter(s => !s.pareto)} fill="#9ca3af" />
+                  <Scatter name="Pareto Front" data={solutions.filter(s => s.pareto)} fill="#6366f1" line />
+                </ScatterChart>
+              </ResponsiveContainer>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Towers</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cost</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Covered</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {solutions.map((solution, idx) => solution.pareto && (
+                      <tr key={idx} className={selectedSolution === idx ? 'bg-primary-50' : 'hover:bg-gray-50'}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{solution.towers.length}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{solution.cost.toLocaleString()}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{solution.coveragePercent.toFixed(1)}%</td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => setSelectedSolution(idx)}
+                            className="text-sm text-primary-600 hover:text-primary-800"
+                          >
+                            {selectedSolution === idx ? 'Selected' : 'Use'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Propagation Model */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Propagation Model</h2>
+        {useCalibration && calibration.pooled && (
+          <p className="text-sm text-indigo-700 bg-indigo-50 rounded px-3 py-2 mb-4">
+            Calibrated fit is active: model, path loss exponent and transmit power come from the measured data.
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Path Loss Model
+            </label>
+            <select
+              value={propagation.model}
+              onChange={(e) => updatePropagation({ model: e.target.value as PropagationModel })}
+              className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {PROPAGATION_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {PROPAGATION_MODELS.find(model => model.value === propagation.model)?.description}
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Transmit Power (dBm EIRP)
+            </label>
+            <input
+              type="number"
+              value={propagation.txPowerDbm}
+              onChange={(e) => updatePropagation({ txPowerDbm: parseFloat(e.target.value) || 0 })}
+              className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Frequency (MHz)
+            </label>
+            <input
+              type="number"
+              min="150"
+              max="6000"
+              value={propagation.frequencyMhz}
+              onChange={(e) => updatePropagation({ frequencyMhz: parseFloat(e.target.value) || DEFAULT_PROPAGATION.frequencyMhz })}
+              className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Antenna Height (m)
+            </label>
+            <input
+              type="range"
+              min="10"
+              max="100"
+              step="5"
+              value={propagation.antennaHeight}
+              onChange={(e) => updatePropagation({ antennaHeight: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+            <div className="text-center mt-2">
+              <span className="text-2xl font-bold text-primary-600">{propagation.antennaHeight}</span>
+              <span className="text-sm text-gray-600 ml-2">m</span>
+            </div>
+          </div>
+
+          {propagation.model === 'log-distance' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Path Loss Exponent
+              </label>
+              <input
+                type="range"
+                min="2"
+                max="6"
+                step="0.1"
+                value={propagation.pathLossExponent}
+                onChange={(e) => updatePropagation({ pathLossExponent: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+              <div className="text-center mt-2">
+                <span className="text-2xl font-bold text-primary-600">{propagation.pathLossExponent.toFixed(1)}</span>
+                <span className="text-sm text-gray-600 ml-2">n</span>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Environment
+              </label>
+              <select
+                value={propagation.environment}
+                onChange={(e) => updatePropagation({ environment: e.target.value as Environment })}
+                disabled={propagation.model === 'free-space'}
+                className="w-full border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+              >
+                <option value="urban">Urban</option>
+                <option value="suburban">Suburban</option>
+                <option value="rural">Rural</option>
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Map Scale (m per unit)
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="100"
+              value={propagation.metersPerUnit}
+              onChange={(e) => updatePropagation({ metersPerUnit: parseFloat(e.target.value) })}
+              disabled={projection !== null}
+              className="w-full"
+            />
+            <div className="text-center mt-2">
+              <span className="text-2xl font-bold text-primary-600">{propagation.metersPerUnit}</span>
+              <span className="text-sm text-gray-600 ml-2">m</span>
+            </div>
+            {projection && (
+              <p className="text-xs text-gray-500 mt-1">
+                Positions are projected from lat/lon around {projection.origin.lat.toFixed(5)}, {projection.origin.lon.toFixed(5)}, so one unit is one meter.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Model Calibration */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Model Calibration</h2>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={useCalibration}
+              disabled={!calibration.pooled}
+              onChange={(e) => setUseCalibration(e.target.checked)}
+            />
+            <span>Use calibrated parameters</span>
+          </label>
         </div>
+        {calibration.pooled ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+              {[
+                { label: 'Path Loss Exponent', value: calibration.pooled.pathLossExponent.toFixed(2) },
+                { label: 'Shadowing σ', value: `${calibration.pooled.shadowingSigma.toFixed(1)} dB` },
+                { label: 'R²', value: calibration.pooled.rSquared.toFixed(3) },
+                { label: 'RMSE', value: `${calibration.pooled.rmse.toFixed(1)} dB` },
+                { label: 'Cells Fitted', value: `${calibration.cells.length}` },
+              ].map((item, idx) => (
+                <div key={idx} className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">{item.label}</p>
+                  <p className="text-xl font-bold text-gray-900">{item.value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Coverage Reliability
+              </label>
+              <select
+                value={propagation.reliability}
+                onChange={(e) => updatePropagation({ reliability: parseFloat(e.target.value) })}
+                className="border border-gray-300 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value={0.5}>50% (median)</option>
+                <option value={0.75}>75%</option>
+                <option value={0.9}>90%</option>
+                <option value={0.95}>95%</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Fade margin: {fadeMargin(modelParams).toFixed(1)} dB above the coverage threshold
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cell ID</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Samples</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Exponent</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">σ (dB)</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">R²</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {calibration.cells.slice(0, 10).map((cell) => (
+                    <tr key={cell.cellId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{cell.cellId}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{cell.samples}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{cell.pathLossExponent.toFixed(2)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{cell.shadowingSigma.toFixed(1)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{cell.rSquared.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Not enough located measurements per cell to fit the model. Predictions use the manual parameters above.
+          </p>
+        )}
       </div>
 
       {/* Coverage Statistics */}
@@ -353,66 +763,43 @@ export default function NetworkPlanner() {
       {/* Coverage Map with Towers */}
       {locationData.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Coverage Map & Tower Placement</h2>
-          <ResponsiveContainer width="100%" height={600}>
-            <ScatterChart>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis type="number" dataKey="x" name="X Coordinate" />
-              <YAxis type="number" dataKey="y" name="Y Coordinate" />
-              <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-              
-              {/* Signal strength points */}
-              <Scatter name="Signal Strength" data={locationData} fill="#8884d8">
-                {locationData.map((entry, index) => (
-                  <Cell
-                    key={`signal-${index}`}
-                    fill={
-                      entry.rssi > -70 ? '#10b981' :
-                      entry.rssi > -85 ? '#3b82f6' :
-                      entry.rssi > -100 ? '#f59e0b' : '#ef4444'
-                    }
-                  />
-                ))}
-              </Scatter>
-
-              {/* Coverage gaps */}
-              {coverageGaps.length > 0 && (
-                <Scatter name="Coverage Gaps" data={coverageGaps} fill="#f59e0b">
-                  {coverageGaps.map((gap, index) => (
-                    <Cell
-                      key={`gap-${index}`}
-                      fill={
-                        gap.priority === 'high' ? '#ef4444' :
-                        gap.priority === 'medium' ? '#f59e0b' : '#fbbf24'
-                      }
-                    />
-                  ))}
-                </Scatter>
-              )}
-
-              {/* Recommended towers */}
-              {towerRecommendations.length > 0 && (
-                <Scatter name="Recommended Towers" data={towerRecommendations} fill="#000000" shape="triangle">
-                  {towerRecommendations.map((tower, index) => (
-                    <Cell
-                      key={`tower-${index}`}
-                      fill={
-                        tower.priority === 'high' ? '#dc2626' :
-                        tower.priority === 'medium' ? '#f59e0b' : '#3b82f6'
-                      }
-                    />
-                  ))}
-                </Scatter>
-              )}
-            </ScatterChart>
-          </ResponsiveContainer>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Coverage Map & Tower Placement</h2>
+            <InterpolationControls
+              method={interpolationMethod}
+              onMethodChange={setInterpolationMethod}
+              layer={heatmapLayer}
+              onLayerChange={setHeatmapLayer}
+            />
+          </div>
+          <RasterHeatmap
+            raster={coverageSurface?.raster ?? null}
+            layer={heatmapLayer}
+            points={locationData}
+            markers={mapMarkers}
+            polygons={mapZones}
+            xLabel={projection ? 'East (m)' : undefined}
+            yLabel={projection ? 'North (m)' : undefined}
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            Squares mark coverage gaps, triangles the recommended towers.
+          </p>
         </div>
       )}
 
       {/* Tower Recommendations Table */}
       {towerRecommendations.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Tower Recommendations</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Tower Recommendations</h2>
+            <button
+              onClick={exportTowers}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {projection ? 'Export with Lat/Lon' : 'Export CSV'}
+            </button>
+          </div>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -420,6 +807,9 @@ export default function NetworkPlanner() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tower ID</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">X Coordinate</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Y Coordinate</th>
+                  {projection && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lat / Lon</th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Est. Coverage</th>
                 </tr>
@@ -436,6 +826,11 @@ export default function NetworkPlanner() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {tower.y.toFixed(2)}
                     </td>
+                    {projection && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatLatLon(projection.toGeographic(tower))}
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
                         className={`px-2 py-1 text-xs font-semibold rounded-full ${
@@ -463,13 +858,13 @@ export default function NetworkPlanner() {
       {/* Algorithm Comparison */}
       <div className="bg-white shadow-lg rounded-lg p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Algorithm Comparison</h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {['coverage', 'density', 'kmeans'].map((algo) => {
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {['coverage', 'density', 'kmeans', 'optimizer'].map((algo) => {
             const isActive = selectedAlgorithm === algo
             return (
               <button
                 key={algo}
-                onClick={() => setSelectedAlgorithm(algo as any)}
+                onClick={() => setSelectedAlgorithm(algo as PlacementAlgorithm)}
                 className={`p-4 rounded-lg border-2 transition-all ${
                   isActive
                     ? 'border-primary-500 bg-primary-50'
@@ -481,6 +876,7 @@ export default function NetworkPlanner() {
                   {algo === 'coverage' && 'Maximizes coverage of weak signal areas'}
                   {algo === 'density' && 'Places towers in highest density weak zones'}
                   {algo === 'kmeans' && 'Uses machine learning clustering for optimal placement'}
+                  {algo === 'optimizer' && 'Trades coverage against cost within budget, spacing and exclusion zones'}
                 </p>
               </button>
             )
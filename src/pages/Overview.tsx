@@ -1,19 +1,28 @@
 import { useEffect, useState } from 'react'
 import { api, SummaryStats } from '../utils/api'
-import { Signal, Radio, TrendingUp } from 'lucide-react'
+import { useDataset } from '../components/DatasetContext'
+import { useQualityProfile } from '../components/QualityProfileContext'
+import { Signal, Radio, TrendingUp, AlertTriangle, CheckCircle, RadioTower } from 'lucide-react'
+
+// A precomputed summary_statistics.json may leave any field out; those show as a dash
+const formatStat = (value: unknown, format: (n: number) => string) =>
+  typeof value === 'number' && Number.isFinite(value) ? format(value) : '—'
 
 export default function Overview() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
   const [stats, setStats] = useState<SummaryStats | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     const loadData = async () => {
-      const data = await api.getSummary()
+      setLoading(true)
+      const data = await api.getSummary(dataset, undefined, profile.id)
       setStats(data)
       setLoading(false)
     }
     loadData()
-  }, [])
+  }, [dataset, profile.id])
 
   if (loading) {
     return (
@@ -23,34 +32,6 @@ export default function Overview() {
     )
   }
 
-  // Default stats if API fails - ensure all properties are defined
-  const defaultStats: SummaryStats = {
-    total_records: 0,
-    unique_cell_ids: 0,
-    mean_rssi: -90,
-    median_rssi: -90,
-    weak_signal_count: 0,
-    weak_signal_percent: 0,
-    good_signal_count: 0,
-    good_signal_percent: 0,
-    recommended_towers: 0,
-    coverage_area_percent: 0,
-  }
-
-  // Safely merge stats with defaults to ensure all properties exist
-  const displayStats: SummaryStats = stats ? {
-    total_records: stats.total_records ?? 0,
-    unique_cell_ids: stats.unique_cell_ids ?? 0,
-    mean_rssi: stats.mean_rssi ?? -90,
-    median_rssi: stats.median_rssi ?? -90,
-    weak_signal_count: stats.weak_signal_count ?? 0,
-    weak_signal_percent: stats.weak_signal_percent ?? 0,
-    good_signal_count: stats.good_signal_count ?? 0,
-    good_signal_percent: stats.good_signal_percent ?? 0,
-    recommended_towers: stats.recommended_towers ?? 0,
-    coverage_area_percent: stats.coverage_area_percent ?? 0,
-  } : defaultStats
-  
   const hasApiData = stats !== null
 
   return (
@@ -112,22 +93,40 @@ export default function Overview() {
         {[
           {
             label: 'Total Records',
-            value: '184,142',
+            value: formatStat(stats?.total_records, n => n.toLocaleString()),
             icon: Signal,
             color: 'bg-blue-500',
           },
           {
             label: 'Unique Cell IDs',
-            value: '353',
+            value: formatStat(stats?.unique_cell_ids, n => n.toLocaleString()),
             icon: Radio,
             color: 'bg-green-500',
           },
           {
             label: 'Mean RSSI',
-            value: `${(displayStats?.mean_rssi ?? -90).toFixed(2)} dBm`,
+            value: formatStat(stats?.mean_rssi, n => `${n.toFixed(2)} dBm`),
             icon: TrendingUp,
             color: 'bg-purple-500',
           },
+          {
+            label: `Weak Signal (< ${profile.thresholds.rssi.good} dBm)`,
+            value: formatStat(stats?.weak_signal_percent, n => `${n.toFixed(1)}%`),
+            icon: AlertTriangle,
+            color: 'bg-red-500',
+          },
+          {
+            label: 'Recommended Towers',
+            value: formatStat(stats?.recommended_towers, String),
+            icon: RadioTower,
+            color: 'bg-orange-500',
+          },
+          {
+            label: 'Coverage Area',
+            value: formatStat(stats?.coverage_area_percent, n => `${n.toFixed(1)}%`),
+            icon: CheckCircle,
+            color: 'bg-emerald-500',
+          },
         ].map((metric, idx) => {
           const Icon = metric.icon
           return (
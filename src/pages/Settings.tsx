@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react'
+import { Check, Copy, Save, Trash2 } from 'lucide-react'
+import { useQualityProfile } from '../components/QualityProfileContext'
+import {
+  QUALITY_COLORS,
+  QualityProfile,
+  THRESHOLD_KEYS,
+  ThresholdKey,
+  Thresholds,
+  thresholdLabel,
+  thresholdUnit,
+} from '../utils/metrics'
+
+type Draft = Pick<QualityProfile, 'name' | 'description' | 'thresholds'> & { id?: string }
+
+const BANDS: (keyof Thresholds)[] = ['excellent', 'good', 'fair']
+
+// Same ordering the server enforces, so Save is only offered for a valid table
+function invalidKeys(thresholds: Draft['thresholds']): ThresholdKey[] {
+  return THRESHOLD_KEYS.filter(key => {
+    const { excellent, good, fair } = thresholds[key]
+    return ![excellent, good, fair].every(Number.isFinite) || !(excellent > good && good > fair)
+  })
+}
+
+export default function Settings() {
+  const { profiles, profile: active, setProfile, saveProfile, deleteProfile } = useQualityProfile()
+  const [selectedId, setSelectedId] = useState(active.id)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const selected = profiles.find(p => p.id === selectedId) ?? active
+
+  // Custom profiles open for editing; built-ins are shown read-only
+  useEffect(() => {
+    setDraft(selected.builtIn ? null : { ...selected, thresholds: { ...selected.thresholds } })
+  }, [selected])
+
+  const duplicate = () => {
+    setMessage(null)
+    setDraft({ name: `${selected.name} (custom)`, description: selected.description, thresholds: { ...selected.thresholds } })
+  }
+
+  const setBand = (key: ThresholdKey, band: keyof Thresholds, value: number) => {
+    if (!draft) return
+    setDraft({ ...draft, thresholds: { ...draft.thresholds, [key]: { ...draft.thresholds[key], [band]: value } } })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    setSaving(true)
+    setMessage(null)
+    try {
+      const saved = await saveProfile(draft)
+      setSelectedId(saved.id)
+      setMessage({ type: 'success', text: `Saved "${saved.name}"` })
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!draft?.id || !window.confirm(`Delete the "${draft.name}" profile?`)) return
+    setMessage(null)
+    try {
+      await deleteProfile(draft.id)
+      setSelectedId(active.id === draft.id ? 'standard' : active.id)
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message })
+    }
+  }
+
+  const table = draft?.thresholds ?? selected.thresholds
+  const invalid = draft ? invalidKeys(draft.thresholds) : []
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-gray-700 to-gray-900 text-white shadow-lg rounded-lg p-6">
+        <h1 className="text-3xl font-bold mb-2">Settings</h1>
+        <p className="text-gray-300">Signal-quality profiles used to classify measurements on every page</p>
+      </div>
+
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Quality Profiles</h2>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {profiles.map(p => (
+            <li
+              key={p.id}
+              onClick={() => setSelectedId(p.id)}
+              className={`flex items-center justify-between px-4 py-3 cursor-pointer ${p.id === selected.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {p.name}
+                  {p.builtIn && <span className="ml-2 text-xs text-gray-500">(built-in)</span>}
+                </p>
+                {p.description && <p className="text-xs text-gray-500">{p.description}</p>}
+              </div>
+              {p.id === active.id ? (
+                <span className="ml-4 inline-flex items-center text-sm font-medium text-green-700">
+                  <Check className="w-4 h-4 mr-1" />
+                  Active
+                </span>
+              ) : (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setProfile(p.id)
+                  }}
+                  className="ml-4 px-3 py-1 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+                >
+                  Use
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {draft ? (draft.id ? 'Edit Profile' : 'New Custom Profile') : selected.name}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={duplicate}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 flex items-center"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicate
+            </button>
+            {draft?.id && (
+              <button
+                onClick={handleDelete}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 flex items-center"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {draft ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 mb-4">Built-in profiles are read-only. Duplicate one to adjust its thresholds.</p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Metric</th>
+                {BANDS.map(band => (
+                  <th key={band} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: QUALITY_COLORS[band] }}></span>
+                    {band} above
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {THRESHOLD_KEYS.map(key => (
+                <tr key={key} className={invalid.includes(key) ? 'bg-red-50' : ''}>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    {thresholdLabel(key)} <span className="text-gray-500">({thresholdUnit(key)})</span>
+                  </td>
+                  {BANDS.map(band => (
+                    <td key={band} className="px-4 py-2 text-sm text-gray-900">
+                      {draft ? (
+                        <input
+                          type="number"
+                          value={Number.isFinite(table[key][band]) ? table[key][band] : ''}
+                          onChange={(e) => setBand(key, band, e.target.value === '' ? NaN : Number(e.target.value))}
+                          className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        />
+                      ) : (
+                        table[key][band]
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {draft && (
+          <div className="flex flex-wrap items-center gap-4 mt-4">
+            <button
+              onClick={handleSave}
+              disabled={saving || invalid.length > 0 || !draft.name.trim()}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Profile'}
+            </button>
+            {invalid.length > 0 && (
+              <p className="text-sm text-red-600">Each row needs excellent &gt; good &gt; fair.</p>
+            )}
+          </div>
+        )}
+        {message && (
+          <p className={`text-sm mt-4 ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,8 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { api, TowerRecommendation, SignalData } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import DataLimitNote from '../components/DataLimitNote'
+import { useQualityProfile } from '../components/QualityProfileContext'
 import {
   ScatterChart,
   Scatter,
@@ -11,25 +14,93 @@ import {
   Cell,
   PieChart,
   Pie,
+  Legend,
 } from 'recharts'
+import { DEFAULT_PROPAGATION } from '../utils/propagation'
+import { GRID_SIZE, HeuristicAlgorithm, planNetwork } from '../utils/planning'
+import { LatLon, Projection, geoPosition, projectSignalData, projectTowers, projectionFor } from '../utils/geo'
+import { qualityColor } from '../utils/metrics'
+
+// Offline and live towers closer than this (in map units) count as the same site
+const MATCH_TOLERANCE = 2 * GRID_SIZE
+const MAX_LIVE_TOWERS = 20
 
 export default function TowerRecommendations() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
   const [towers, setTowers] = useState<TowerRecommendation[]>([])
   const [data, setData] = useState<SignalData[]>([])
+  const [dataTotal, setDataTotal] = useState(0)
+  // Set when positions came from lat/lon; map units are then meters
+  const [projection, setProjection] = useState<Projection | null>(null)
   const [loading, setLoading] = useState(true)
+  const [liveAlgorithm, setLiveAlgorithm] = useState<HeuristicAlgorithm>('coverage')
+  const [liveTowerCount, setLiveTowerCount] = useState<number | null>(null)
 
   useEffect(() => {
     const loadData = async () => {
       setLoading(true)
-      const towerData = await api.getTowers()
-      setTowers(towerData)
-      
-      const signalData = await api.getData()
-      setData(Array.isArray(signalData) ? signalData : [])
+      const towerData = await api.getTowers(dataset)
+      const signalData = await api.getData(undefined, { dataset })
+      const projected = projectSignalData(signalData.rows)
+      // Towers share the signal data's frame, or get their own when the data has no positions
+      const dataHasXY = projected.data.some(d => typeof d.x === 'number')
+      const towerPositions = towerData.map(geoPosition).filter((p): p is LatLon => p !== null)
+      const frame = projected.projection ?? (dataHasXY ? null : projectionFor(towerPositions))
+      setTowers(projectTowers(towerData, frame))
+      setData(projected.data)
+      setDataTotal(signalData.total)
+      setProjection(frame)
       setLoading(false)
     }
     loadData()
-  }, [])
+  }, [dataset])
+
+  const offlineSites = useMemo(
+    () => towers
+      .filter(t => t.x !== undefined && t.y !== undefined)
+      .map((t, idx) => ({ id: t.cluster_id || String(t.tower_id ?? idx + 1), x: t.x!, y: t.y!, priority: t.priority || 'medium' })),
+    [towers]
+  )
+
+  // Default the live plan to as many towers as the offline pipeline placed
+  const towerCountForLive = liveTowerCount ?? Math.min(MAX_LIVE_TOWERS, Math.max(1, offlineSites.length))
+
+  const liveTowers = useMemo(
+    () => planNetwork(data, {
+      algorithm: liveAlgorithm,
+      towerCount: towerCountForLive,
+      coverageThreshold: profile.thresholds.rssi.good,
+      thresholds: profile.thresholds.rssi,
+      propagation: projection ? { ...DEFAULT_PROPAGATION, metersPerUnit: 1 } : DEFAULT_PROPAGATION,
+      useCalibration: true,
+    }),
+    [data, liveAlgorithm, towerCountForLive, projection, profile]
+  )
+
+  // Pair every offline tower with its nearest live tower
+  const comparison = useMemo(() => {
+    const pairs = offlineSites.map(site => {
+      let nearest: typeof liveTowers[number] | undefined
+      let distance = Infinity
+      liveTowers.forEach(tower => {
+        const d = Math.sqrt(Math.pow(tower.x - site.x, 2) + Math.pow(tower.y - site.y, 2))
+        if (d < distance) {
+          distance = d
+          nearest = tower
+        }
+      })
+      return { site, nearest, distance, matched: distance <= MATCH_TOLERANCE }
+    })
+    const matched = pairs.filter(p => p.matched).length
+    const measured = pairs.filter(p => Number.isFinite(p.distance))
+    return {
+      pairs,
+      matched,
+      meanOffset: measured.length > 0 ? measured.reduce((sum, p) => sum + p.distance, 0) / measured.length : null,
+      liveOnly: liveTowers.filter(tower => !pairs.some(p => p.matched && p.nearest === tower)).length,
+    }
+  }, [offlineSites, liveTowers])
 
   if (loading) {
     return (
@@ -39,10 +110,8 @@ export default function TowerRecommendations() {
     )
   }
 
-  const hasLocation = towers.some(t => t.x !== undefined && t.y !== undefined)
-  const towerLocations = towers
-    .filter(t => t.x !== undefined && t.y !== undefined)
-    .map(t => ({ x: t.x!, y: t.y!, priority: t.priority || 'medium' }))
+  const hasLocation = offlineSites.length > 0
+  const towerLocations = offlineSites
 
   const signalLocations = data
     .filter(d => d.x !== undefined && d.y !== undefined && d.rssi !== undefined)
@@ -60,6 +129,14 @@ export default function TowerRecommendations() {
     value,
   }))
 
+  const unit = projection ? 'm' : 'units'
+  const position = (point: { x: number, y: number }) => {
+    const local = `(${point.x.toFixed(2)}, ${point.y.toFixed(2)})`
+    if (!projection) return local
+    const { lat, lon } = projection.toGeographic(point)
+    return `${local} · ${lat.toFixed(6)}, ${lon.toFixed(6)}`
+  }
+
   const totalTowers = towers.reduce((sum, t) => sum + (t.recommended_towers || 1), 0)
 
   return (
@@ -68,6 +145,8 @@ export default function TowerRecommendations() {
         <h1 className="text-3xl font-bold text-gray-900 mb-4">Tower Placement Recommendations</h1>
       </div>
 
+      <DataLimitNote loaded={data.length} total={dataTotal} />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-white shadow rounded-lg p-4">
           <p className="text-sm text-gray-600">Total Recommended Towers</p>
@@ -89,15 +168,15 @@ export default function TowerRecommendations() {
           <ResponsiveContainer width="100%" height={600}>
             <ScatterChart>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis type="number" dataKey="x" name="X Coordinate" />
-              <YAxis type="number" dataKey="y" name="Y Coordinate" />
+              <XAxis type="number" dataKey="x" name={projection ? 'East (m)' : 'X Coordinate'} />
+              <YAxis type="number" dataKey="y" name={projection ? 'North (m)' : 'Y Coordinate'} />
               <Tooltip cursor={{ strokeDasharray: '3 3' }} />
               {signalLocations.length > 0 && (
                 <Scatter name="Signal Strength" data={signalLocations} fill="#8884d8">
                   {signalLocations.map((entry, index) => (
                     <Cell
                       key={`signal-${index}`}
-                      fill={entry.rssi > -80 ? '#10b981' : entry.rssi > -100 ? '#f59e0b' : '#ef4444'}
+                      fill={qualityColor(entry.rssi, 'rssi', profile)}
                     />
                   ))}
                 </Scatter>
@@ -184,6 +263,122 @@ export default function TowerRecommendations() {
           </table>
         </div>
       </div>
+
+      {/* Offline vs Live Comparison */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Offline Pipeline vs Live Planner</h2>
+            <p className="text-sm text-gray-600">
+              Precomputed /api/towers results next to the Network Planner run in this browser
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={liveAlgorithm}
+              onChange={(e) => setLiveAlgorithm(e.target.value as HeuristicAlgorithm)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="coverage">Coverage-Based</option>
+              <option value="density">Density-Based</option>
+              <option value="kmeans">K-Means Clustering</option>
+            </select>
+            <input
+              type="number"
+              min="1"
+              max={MAX_LIVE_TOWERS}
+              value={towerCountForLive}
+              onChange={(e) => setLiveTowerCount(Math.min(MAX_LIVE_TOWERS, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-20 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-600">towers</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {[
+            { label: 'Offline Towers (located)', value: offlineSites.length },
+            { label: 'Live Towers', value: liveTowers.length },
+            { label: `Matched (≤ ${MATCH_TOLERANCE} ${unit})`, value: comparison.matched },
+            { label: 'Mean Offset', value: comparison.meanOffset !== null ? `${comparison.meanOffset.toFixed(2)} ${unit}` : 'N/A' },
+          ].map((item, idx) => (
+            <div key={idx} className="text-center p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">{item.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{item.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {(offlineSites.length > 0 || liveTowers.length > 0) && (
+          <ResponsiveContainer width="100%" height={500}>
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="x" name={projection ? 'East (m)' : 'X Coordinate'} />
+              <YAxis type="number" dataKey="y" name={projection ? 'North (m)' : 'Y Coordinate'} />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+              <Legend />
+              <Scatter name="Offline Pipeline" data={offlineSites} fill="#ef4444" shape="triangle" />
+              <Scatter name="Live Planner" data={liveTowers} fill="#6366f1" shape="diamond" />
+            </ScatterChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-medium text-gray-800 mb-2">Offline Pipeline</h3>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tower</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Position</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nearest Live</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Offset</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {comparison.pairs.map(({ site, nearest, distance, matched }, idx) => (
+                  <tr key={`${site.id}-${idx}`} className={matched ? 'bg-green-50' : ''}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{site.id}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{position(site)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{nearest ? `Tower ${nearest.id}` : '—'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {Number.isFinite(distance) ? distance.toFixed(2) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-medium text-gray-800 mb-2">
+              Live Planner
+              {comparison.liveOnly > 0 && (
+                <span className="ml-2 text-sm font-normal text-gray-500">({comparison.liveOnly} unmatched)</span>
+              )}
+            </h3>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tower</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Position</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Est. Coverage</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {liveTowers.map((tower) => (
+                  <tr key={tower.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">Tower {tower.id}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{position(tower)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{tower.priority}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{tower.estimatedCoverage.toFixed(0)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
     </div>
   )
 }
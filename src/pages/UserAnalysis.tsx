@@ -1,6 +1,14 @@
 import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { api, SignalData, CoverageSummary } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import DataLimitNote from '../components/DataLimitNote'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
+import HandoverPanel from '../components/HandoverPanel'
+import PositionSignificance from '../components/PositionSignificance'
 import { normalizePosition, getPositionColor, getPositionIcon } from '../utils/bodyPositions'
+import { QUALITIES, QUALITY_CLASSES, QUALITY_COLORS, countByQuality, headlineMetrics, qualityLabel, qualityOf } from '../utils/metrics'
+import { summarizeGroup } from '../utils/stats'
 import {
   BarChart,
   Bar,
@@ -13,6 +21,7 @@ import {
   Scatter,
   ZAxis,
   Cell,
+  ErrorBar,
   AreaChart,
   Area,
   RadarChart,
@@ -24,7 +33,10 @@ import {
 import { Activity, MapPin, TrendingUp, Signal } from 'lucide-react'
 
 export default function UserAnalysis() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
   const [data, setData] = useState<SignalData[]>([])
+  const [dataTotal, setDataTotal] = useState(0)
   const [summary, setSummary] = useState<CoverageSummary[]>([])
   const [loading, setLoading] = useState(true)
 
@@ -32,16 +44,16 @@ export default function UserAnalysis() {
     const loadData = async () => {
       setLoading(true)
       // Always load all users data
-      const signalData = await api.getData()
-      // Ensure data is always an array
-      setData(Array.isArray(signalData) ? signalData : [])
+      const signalData = await api.getData(undefined, { dataset })
+      setData(signalData.rows)
+      setDataTotal(signalData.total)
       
-      const coverage = await api.getCoverage()
-      setSummary(Array.isArray(coverage) ? coverage.slice(0, 50) : [])
+      const coverage = await api.getCoverage(dataset)
+      setSummary(Array.isArray(coverage) ? coverage : [])
       setLoading(false)
     }
     loadData()
-  }, [])
+  }, [dataset])
 
   if (loading) {
     return (
@@ -89,10 +101,11 @@ export default function UserAnalysis() {
         position,
         icon: getPositionIcon(position),
         mean,
-        min: Math.min(...nums),
-        max: Math.max(...nums),
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
         median: sorted[Math.floor(sorted.length / 2)],
         count: nums.length,
+        ciHalfWidth: nums.length > 1 ? summarizeGroup(position, nums).ciHigh - mean : 0, // 95%
         std: Math.sqrt(nums.reduce((sum: number, val: number) => sum + Math.pow(val - mean, 2), 0) / nums.length),
         order: positionOrder.indexOf(position) >= 0 ? positionOrder.indexOf(position) : 999,
       }
@@ -100,15 +113,16 @@ export default function UserAnalysis() {
     .filter((stat): stat is NonNullable<typeof stat> => stat !== null)
     .sort((a, b) => a.order - b.order) // Sort by preferred order
 
+  const positionGroups: Record<string, number[]> = Object.fromEntries(
+    bodyPositionStats.map(stat => [stat.position, bodyPositionData[stat.position]])
+  )
+
   // RSSI distribution by position
   const rssiDistributionByPosition = bodyPositionStats.map(stat => {
     const pos = stat.position
     return {
       position: `${stat.icon} ${pos}`,
-      excellent: safeData.filter(d => normalizePosition(d.body_position) === pos && d.rssi! > -70).length,
-      good: safeData.filter(d => normalizePosition(d.body_position) === pos && d.rssi! > -85 && d.rssi! <= -70).length,
-      fair: safeData.filter(d => normalizePosition(d.body_position) === pos && d.rssi! > -100 && d.rssi! <= -85).length,
-      poor: safeData.filter(d => normalizePosition(d.body_position) === pos && d.rssi! <= -100).length,
+      ...countByQuality(safeData.filter(d => normalizePosition(d.body_position) === pos), profile),
     }
   })
 
@@ -129,6 +143,7 @@ export default function UserAnalysis() {
           x: d.x, 
           y: d.y, 
           rssi: d.rssi,
+          quality: qualityOf(d, profile),
           position: normalizePosition(d.body_position),
         }))
     : []
@@ -144,15 +159,15 @@ export default function UserAnalysis() {
       position: normalizePosition(d.body_position),
     }))
 
-  // Signal quality categories - count records with RSSI
-  const totalWithRssi = safeData.filter(d => d.rssi !== undefined).length
+  // Signal quality categories, each record judged by its technology's headline metric
+  const qualityCounts = countByQuality(safeData, profile)
   const signalQuality = {
-    excellent: safeData.filter(d => d.rssi !== undefined && d.rssi! > -70).length,
-    good: safeData.filter(d => d.rssi !== undefined && d.rssi! > -85 && d.rssi! <= -70).length,
-    fair: safeData.filter(d => d.rssi !== undefined && d.rssi! > -100 && d.rssi! <= -85).length,
-    poor: safeData.filter(d => d.rssi !== undefined && d.rssi! <= -100).length,
-    total: totalWithRssi,
+    ...qualityCounts,
+    total: QUALITIES.reduce((sum, quality) => sum + qualityCounts[quality], 0),
   }
+  // Legends show thresholds only when every record uses the same metric
+  const metricsPresent = headlineMetrics(safeData)
+  const legendMetric = metricsPresent.length === 1 ? metricsPresent[0] : null
 
   return (
     <div className="space-y-6">
@@ -161,6 +176,8 @@ export default function UserAnalysis() {
         <p className="text-blue-100">Comprehensive signal analysis across all users and body positions</p>
       </div>
 
+      <DataLimitNote loaded={data.length} total={dataTotal} />
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white shadow-lg rounded-lg p-4 border-l-4 border-blue-500">
@@ -213,25 +230,22 @@ export default function UserAnalysis() {
       <div className="bg-white shadow-lg rounded-lg p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Signal Quality Distribution</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {[
-            { label: 'Excellent (>-70 dBm)', value: signalQuality.excellent, color: 'bg-green-500' },
-            { label: 'Good (-70 to -85 dBm)', value: signalQuality.good, color: 'bg-blue-500' },
-            { label: 'Fair (-85 to -100 dBm)', value: signalQuality.fair, color: 'bg-yellow-500' },
-            { label: 'Poor (<-100 dBm)', value: signalQuality.poor, color: 'bg-red-500' },
-          ].map((item, idx) => {
+          {QUALITIES.map(quality => {
+            const value = signalQuality[quality]
             const percentage = signalQuality.total > 0 
-              ? ((item.value / signalQuality.total) * 100).toFixed(1)
+              ? ((value / signalQuality.total) * 100).toFixed(1)
               : '0.0'
             return (
-              <div key={idx} className="text-center p-4 bg-gray-50 rounded-lg">
-                <div className={`${item.color} w-full h-2 rounded mb-2`}></div>
-                <p className="text-sm text-gray-600">{item.label}</p>
-                <p className="text-2xl font-bold text-gray-900">{item.value.toLocaleString()}</p>
+              <div key={quality} className="text-center p-4 bg-gray-50 rounded-lg">
+                <div className={`${QUALITY_CLASSES[quality].bar} w-full h-2 rounded mb-2`}></div>
+                <p className="text-sm text-gray-600">{qualityLabel(quality, legendMetric, profile)}</p>
+                <p className="text-2xl font-bold text-gray-900">{value.toLocaleString()}</p>
                 <p className="text-xs text-gray-500">{percentage}%</p>
               </div>
             )
           })}
         </div>
+        <ProfileNote />
       </div>
 
       {/* Body Position Comparison */}
@@ -270,12 +284,17 @@ export default function UserAnalysis() {
                 {bodyPositionStats.map((stat, index) => (
                   <Cell key={`cell-${index}`} fill={getPositionColor(stat.position)} />
                 ))}
+                <ErrorBar dataKey="ciHalfWidth" width={8} strokeWidth={2} stroke="#374151" />
               </Bar>
             </BarChart>
           </ResponsiveContainer>
+          <p className="text-xs text-gray-500">Error bars show the 95% confidence interval of each mean.</p>
         </div>
       )}
 
+      {/* Significance of Position Differences */}
+      <PositionSignificance groups={positionGroups} />
+
       {/* Signal Quality by Position */}
       {rssiDistributionByPosition.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
@@ -291,12 +310,12 @@ export default function UserAnalysis() {
               />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="excellent" stackId="a" fill="#10b981" name="Excellent" />
-              <Bar dataKey="good" stackId="a" fill="#3b82f6" name="Good" />
-              <Bar dataKey="fair" stackId="a" fill="#f59e0b" name="Fair" />
-              <Bar dataKey="poor" stackId="a" fill="#ef4444" name="Poor" />
+              {QUALITIES.map(quality => (
+                <Bar key={quality} dataKey={quality} stackId="a" fill={QUALITY_COLORS[quality]} name={qualityLabel(quality, legendMetric, profile)} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
+          <ProfileNote />
         </div>
       )}
 
@@ -354,11 +373,7 @@ export default function UserAnalysis() {
                 {locationData.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={
-                      entry.rssi! > -70 ? '#10b981' : 
-                      entry.rssi! > -85 ? '#3b82f6' : 
-                      entry.rssi! > -100 ? '#f59e0b' : '#ef4444'
-                    }
+                    fill={QUALITY_COLORS[entry.quality ?? 'poor']}
                   />
                 ))}
               </Scatter>
@@ -367,10 +382,18 @@ export default function UserAnalysis() {
         </div>
       )}
 
+      {/* Handovers */}
+      <HandoverPanel data={safeData} total={dataTotal} />
+
       {/* Coverage Summary Table */}
       {summary.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Coverage Summary</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Coverage Summary</h2>
+            <Link to="/cells" className="text-sm text-primary-600 hover:text-primary-800 font-medium">
+              View all {summary.length.toLocaleString()} cells
+            </Link>
+          </div>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -384,7 +407,11 @@ export default function UserAnalysis() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {summary.slice(0, 20).map((row, idx) => (
                   <tr key={idx} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.cell_id}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <Link to={`/cells/${encodeURIComponent(row.cell_id)}`} className="text-primary-600 hover:text-primary-800">
+                        {row.cell_id}
+                      </Link>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.rssi_mean.toFixed(2)}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.rssi_count}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.stability_score.toFixed(3)}</td>
@@ -1,6 +1,13 @@
 import { useEffect, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
 import { api, SignalData } from '../utils/api'
+import { useDataset } from '../components/DatasetContext'
+import DataLimitNote from '../components/DataLimitNote'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
 import { normalizePosition, getPositionColor, getPositionIcon } from '../utils/bodyPositions'
+import { projectSignalData } from '../utils/geo'
+import { QUALITIES, QUALITY_COLORS, countByQuality, headlineMetrics, qualityColor, qualityLabel, qualityOf } from '../utils/metrics'
+import { summarizeGroup } from '../utils/stats'
 import {
   BarChart,
   Bar,
@@ -19,22 +26,28 @@ import {
   Pie,
   ComposedChart,
   Line,
+  ErrorBar,
 } from 'recharts'
 
 export default function Visualizations() {
+  const { dataset } = useDataset()
+  const { profile } = useQualityProfile()
+  const navigate = useNavigate()
   const [data, setData] = useState<SignalData[]>([])
+  const [dataTotal, setDataTotal] = useState(0)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     const loadData = async () => {
       setLoading(true)
-      const signalData = await api.getData()
-      // Ensure data is always an array
-      setData(Array.isArray(signalData) ? signalData : [])
+      const signalData = await api.getData(undefined, { dataset })
+      // lat/lon rows are mapped in meters
+      setData(projectSignalData(signalData.rows).data)
+      setDataTotal(signalData.total)
       setLoading(false)
     }
     loadData()
-  }, [])
+  }, [dataset])
 
   if (loading) {
     return (
@@ -67,14 +80,16 @@ export default function Visualizations() {
       const nums = values.filter((v: number) => !isNaN(v))
       if (nums.length === 0) return null
       const sorted = [...nums].sort((a: number, b: number) => a - b)
+      const summary = summarizeGroup(position, nums)
       return {
         position,
         icon: getPositionIcon(position),
-        mean: nums.reduce((a: number, b: number) => a + b, 0) / nums.length,
-        min: Math.min(...nums),
-        max: Math.max(...nums),
+        mean: summary.mean,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
         median: sorted[Math.floor(sorted.length / 2)],
         count: nums.length,
+        ciHalfWidth: nums.length > 1 ? summary.ciHigh - summary.mean : 0, // 95%
         q1: sorted[Math.floor(sorted.length * 0.25)],
         q3: sorted[Math.floor(sorted.length * 0.75)],
         order: positionOrder.indexOf(position) >= 0 ? positionOrder.indexOf(position) : 999,
@@ -95,13 +110,13 @@ export default function Visualizations() {
     }
   })
 
-  // Signal quality pie chart
-  const signalQualityPie = [
-    { name: 'Excellent (>-70)', value: safeData.filter(d => d.rssi !== undefined && d.rssi! > -70).length, fill: '#10b981' },
-    { name: 'Good (-70 to -85)', value: safeData.filter(d => d.rssi !== undefined && d.rssi! > -85 && d.rssi! <= -70).length, fill: '#3b82f6' },
-    { name: 'Fair (-85 to -100)', value: safeData.filter(d => d.rssi !== undefined && d.rssi! > -100 && d.rssi! <= -85).length, fill: '#f59e0b' },
-    { name: 'Poor (<-100)', value: safeData.filter(d => d.rssi !== undefined && d.rssi! <= -100).length, fill: '#ef4444' },
-  ].filter(item => item.value > 0)
+  // Signal quality pie chart, by each row's headline metric
+  const metricsPresent = headlineMetrics(safeData)
+  const legendMetric = metricsPresent.length === 1 ? metricsPresent[0] : null
+  const qualityCounts = countByQuality(safeData, profile)
+  const signalQualityPie = QUALITIES
+    .map(quality => ({ name: qualityLabel(quality, legendMetric, profile), value: qualityCounts[quality], fill: QUALITY_COLORS[quality] }))
+    .filter(item => item.value > 0)
 
   // Body position distribution
   const positionDistribution = bodyPositionStats.map(stat => ({
@@ -119,6 +134,7 @@ export default function Visualizations() {
           x: d.x, 
           y: d.y, 
           rssi: d.rssi,
+          quality: qualityOf(d, profile),
           position: normalizePosition(d.body_position),
         }))
     : []
@@ -150,7 +166,7 @@ export default function Visualizations() {
       const nums = values.filter((v: number) => !isNaN(v))
       if (nums.length === 0) return null
       return {
-        cellId: cellId.substring(0, 8) + '...',
+        cellId,
         mean: nums.reduce((a: number, b: number) => a + b, 0) / nums.length,
         count: nums.length,
       }
@@ -166,6 +182,8 @@ export default function Visualizations() {
         <p className="text-purple-100">Interactive analysis of cellular network signal data</p>
       </div>
 
+      <DataLimitNote loaded={data.length} total={dataTotal} />
+
       {/* Signal Quality Pie Chart */}
       {signalQualityPie.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
@@ -198,6 +216,7 @@ export default function Visualizations() {
                   <span className="text-sm font-semibold text-gray-900">{item.value.toLocaleString()}</span>
                 </div>
               ))}
+              <ProfileNote />
             </div>
           </div>
         </div>
@@ -217,11 +236,7 @@ export default function Visualizations() {
                 {rssiDistribution.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={
-                      entry.mid > -70 ? '#10b981' :
-                      entry.mid > -85 ? '#3b82f6' :
-                      entry.mid > -100 ? '#f59e0b' : '#ef4444'
-                    }
+                    fill={qualityColor(entry.mid, 'rssi', profile)}
                   />
                 ))}
               </Bar>
@@ -241,11 +256,17 @@ export default function Visualizations() {
               <YAxis label={{ value: 'RSSI (dBm)', angle: -90, position: 'insideLeft' }} />
               <Tooltip />
               <Bar dataKey="max" fill="#10b981" name="Max" />
-              <Bar dataKey="mean" fill="#3b82f6" name="Mean" />
+              <Bar dataKey="mean" fill="#3b82f6" name="Mean">
+                <ErrorBar dataKey="ciHalfWidth" width={6} strokeWidth={2} stroke="#1e3a8a" />
+              </Bar>
               <Bar dataKey="min" fill="#ef4444" name="Min" />
               <Line type="monotone" dataKey="median" stroke="#8b5cf6" strokeWidth={2} name="Median" />
             </ComposedChart>
           </ResponsiveContainer>
+          <p className="text-xs text-gray-500 mt-2">
+            Error bars show the 95% confidence interval of each mean. Whether positions differ significantly is tested on the{' '}
+            <Link to="/users" className="text-primary-600 hover:text-primary-800 font-medium">Signal Analysis</Link> page.
+          </p>
         </div>
       )}
 
@@ -312,11 +333,7 @@ export default function Visualizations() {
                 {locationData.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={
-                      entry.rssi! > -70 ? '#10b981' :
-                      entry.rssi! > -85 ? '#3b82f6' :
-                      entry.rssi! > -100 ? '#f59e0b' : '#ef4444'
-                    }
+                    fill={QUALITY_COLORS[entry.quality ?? 'poor']}
                   />
                 ))}
               </Scatter>
@@ -328,18 +345,29 @@ export default function Visualizations() {
       {/* Top Cells Performance */}
       {cellStats.length > 0 && (
         <div className="bg-white shadow-lg rounded-lg p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Top 20 Cells by Usage</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Top 20 Cells by Usage</h2>
+            <Link to="/cells" className="text-sm text-primary-600 hover:text-primary-800 font-medium">
+              All cells
+            </Link>
+          </div>
           <ResponsiveContainer width="100%" height={400}>
             <BarChart data={cellStats} layout="vertical">
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis type="number" />
-              <YAxis dataKey="cellId" type="category" width={100} />
+              <YAxis dataKey="cellId" type="category" width={140} interval={0} />
               <Tooltip />
-              <Bar dataKey="count" fill="#3b82f6" radius={[0, 8, 8, 0]}>
+              <Bar
+                dataKey="count"
+                fill="#3b82f6"
+                radius={[0, 8, 8, 0]}
+                cursor="pointer"
+                onClick={(entry: any) => navigate(`/cells/${encodeURIComponent(entry.cellId)}`)}
+              >
                 {cellStats.map((entry: any, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={entry.mean > -70 ? '#10b981' : entry.mean > -85 ? '#3b82f6' : '#f59e0b'}
+                    fill={qualityColor(entry.mean, 'rssi', profile)}
                   />
                 ))}
               </Bar>
@@ -1,24 +1,124 @@
-import { useState, useEffect } from 'react'
-import { Wifi, Signal, Activity, Shield, Globe, Radio } from 'lucide-react'
+import { useState, useEffect, useMemo } from 'react'
+import { Wifi, Signal, Activity, Shield, Globe, Radio, RefreshCw, History } from 'lucide-react'
+import {
+  ComposedChart,
+  LineChart,
+  Bar,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts'
+import { api, WiFiBand, WiFiScan, WiFiHistory } from '../utils/api'
+import { BAND_LABELS, channelOccupancy, recommendChannel } from '../utils/wifiChannels'
+import { QUALITIES, QUALITY_CLASSES, Quality, classify, qualityLabel } from '../utils/metrics'
+import { ProfileNote, useQualityProfile } from '../components/QualityProfileContext'
 
+const HISTORY_RANGES = [
+  { label: '15 min', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '6 hours', ms: 6 * 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+]
+// Points drawn per chart; longer histories are thinned evenly
+const MAX_CHART_POINTS = 720
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+const QUALITY_DESCRIPTIONS: Record<Quality, string> = {
+  excellent: 'Perfect signal',
+  good: 'Strong signal',
+  fair: 'Moderate signal',
+  poor: 'Weak signal',
+}
+
+// Fields the provider could not read are null. `simulated` marks demo values.
 interface WiFiInfo {
-  ssid: string
-  bssid: string
-  signalStrength: number
-  frequency: number
-  channel: number
-  security: string
-  quality: 'excellent' | 'good' | 'fair' | 'poor'
-  speed: string
-  ipAddress: string
-  subnet: string
-  gateway: string
+  interface?: string | null
+  ssid: string | null
+  bssid: string | null
+  signalStrength: number | null
+  frequency: number | null
+  channel: number | null
+  security: string | null
+  quality: Quality | null
+  speed: string | null
+  ipAddress: string | null
+  subnet: string | null
+  gateway: string | null
+  provider: string
+  simulated: boolean
 }
 
 export default function WiFiAnalyzer() {
+  const { profile } = useQualityProfile()
   const [wifiInfo, setWifiInfo] = useState<WiFiInfo | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [scan, setScan] = useState<WiFiScan | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [band, setBand] = useState<WiFiBand>('2.4')
+
+  const loadScan = async () => {
+    setScanning(true)
+    setScan(await api.getWiFiScan())
+    setScanning(false)
+  }
+
+  useEffect(() => {
+    loadScan()
+  }, [])
+
+  const bandNetworks = useMemo(
+    () => (scan?.networks ?? [])
+      .filter(n => n.band === band)
+      .sort((a, b) => (b.signalStrength ?? -200) - (a.signalStrength ?? -200)),
+    [scan, band]
+  )
+  const occupancy = useMemo(() => channelOccupancy(scan?.networks ?? [], band), [scan, band])
+  const recommendation = useMemo(() => recommendChannel(scan?.networks ?? [], band), [scan, band])
+  const connectedNetwork = scan?.networks.find(n => n.connected && n.band === band)
+
+  const [history, setHistory] = useState<WiFiHistory | null>(null)
+  const [historyRange, setHistoryRange] = useState(HISTORY_RANGES[1].ms)
+
+  useEffect(() => {
+    const loadHistory = async () => setHistory(await api.getWiFiHistory(Date.now() - historyRange))
+    loadHistory()
+    const interval = setInterval(loadHistory, 15000)
+    return () => clearInterval(interval)
+  }, [historyRange])
+
+  const historyChart = useMemo(() => {
+    const samples = history?.samples ?? []
+    const stride = Math.max(1, Math.ceil(samples.length / MAX_CHART_POINTS))
+    return samples
+      .filter((_, idx) => idx % stride === 0 || idx === samples.length - 1)
+      .map(s => ({ time: s.timestamp, rssi: s.signalStrength, speed: s.speedMbps, channel: s.channel }))
+  }, [history])
+
+  const historyStats = useMemo(() => {
+    const samples = history?.samples ?? []
+    const rssi = samples.map(s => s.signalStrength).filter((v): v is number => v !== null)
+    // A gap longer than three sampling intervals means the link was down (nothing was recorded)
+    const gapThreshold = (history?.intervalMs ?? 5000) * 3
+    let gaps = 0
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i].timestamp - samples[i - 1].timestamp > gapThreshold) gaps++
+    }
+    return {
+      count: samples.length,
+      minRssi: rssi.length > 0 ? Math.min(...rssi) : null,
+      meanRssi: rssi.length > 0 ? rssi.reduce((a, b) => a + b, 0) / rssi.length : null,
+      roams: history?.roamingEvents.length ?? 0,
+      gaps,
+    }
+  }, [history])
 
   useEffect(() => {
     const fetchWiFiInfo = async () => {
@@ -48,9 +148,11 @@ export default function WiFiAnalyzer() {
               security: 'WPA2',
               quality,
               speed: `${connection.downlink || 0} Mbps`,
-              ipAddress: 'Detecting...',
-              subnet: '255.255.255.0',
-              gateway: '192.168.1.1'
+              ipAddress: null,
+              subnet: null,
+              gateway: null,
+              provider: 'browser',
+              simulated: true
             })
           } else {
             // Show demo/placeholder data
@@ -65,7 +167,9 @@ export default function WiFiAnalyzer() {
               speed: '150 Mbps',
               ipAddress: '192.168.1.100',
               subnet: '255.255.255.0',
-              gateway: '192.168.1.1'
+              gateway: '192.168.1.1',
+              provider: 'simulated',
+              simulated: true
             })
           }
         }
@@ -84,7 +188,9 @@ export default function WiFiAnalyzer() {
           speed: '100 Mbps',
           ipAddress: '192.168.1.50',
           subnet: '255.255.255.0',
-          gateway: '192.168.1.1'
+          gateway: '192.168.1.1',
+          provider: 'simulated',
+          simulated: true
         })
       } finally {
         setLoading(false)
@@ -105,19 +211,17 @@ export default function WiFiAnalyzer() {
     return 'poor'
   }
 
-  const getSignalStrengthColor = (strength: number) => {
-    if (strength > -50) return 'text-green-600'
-    if (strength > -70) return 'text-blue-600'
-    if (strength > -85) return 'text-yellow-600'
-    return 'text-red-600'
+  const getSignalStrengthColor = (strength: number | null) => {
+    if (strength === null) return 'text-gray-400'
+    return QUALITY_CLASSES[classify(strength, 'wifi', profile)].text
   }
 
-  const getSignalStrengthBar = (strength: number) => {
+  const getSignalStrengthBar = (strength: number | null) => {
+    if (strength === null) {
+      return <div className="w-full bg-gray-200 rounded-full h-4"></div>
+    }
     const percentage = Math.max(0, Math.min(100, ((strength + 100) / 50) * 100))
-    let color = 'bg-green-500'
-    if (strength < -50) color = 'bg-blue-500'
-    if (strength < -70) color = 'bg-yellow-500'
-    if (strength < -85) color = 'bg-red-500'
+    const color = QUALITY_CLASSES[classify(strength, 'wifi', profile)].bar
     
     return (
       <div className="w-full bg-gray-200 rounded-full h-4">
@@ -147,6 +251,11 @@ export default function WiFiAnalyzer() {
 
   if (!wifiInfo) return null
 
+  // Measured levels follow the profile's WiFi bands; the browser fallback only knows the connection type
+  const quality: Quality | null = wifiInfo.signalStrength !== null && wifiInfo.provider !== 'browser'
+    ? classify(wifiInfo.signalStrength, 'wifi', profile)
+    : wifiInfo.quality
+
   return (
     <div className="space-y-6">
       <div className="bg-gradient-to-r from-green-600 to-teal-600 text-white shadow-lg rounded-lg p-6">
@@ -154,6 +263,19 @@ export default function WiFiAnalyzer() {
         <p className="text-green-100">Real-time analysis of your current WiFi connection</p>
       </div>
 
+      {wifiInfo.simulated ? (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded">
+          <p className="font-semibold">Simulated values</p>
+          <p className="text-sm">
+            No WiFi provider could read the connection on this machine, so the figures below are placeholders, not measurements.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-2 rounded text-sm">
+          Live values from the {wifiInfo.provider} provider{wifiInfo.interface ? ` (${wifiInfo.interface})` : ''}. Fields shown as "Unknown" could not be read.
+        </div>
+      )}
+
       {/* Main WiFi Info Card */}
       <div className="bg-white shadow-lg rounded-lg p-6">
         <div className="flex items-center justify-between mb-6">
@@ -162,17 +284,12 @@ export default function WiFiAnalyzer() {
               <Wifi className="w-8 h-8 text-green-600" />
             </div>
             <div>
-              <h2 className="text-2xl font-bold text-gray-900">{wifiInfo.ssid}</h2>
+              <h2 className="text-2xl font-bold text-gray-900">{wifiInfo.ssid ?? 'Unknown network'}</h2>
               <p className="text-sm text-gray-600">Network Information</p>
             </div>
           </div>
-          <div className={`px-4 py-2 rounded-full ${
-            wifiInfo.quality === 'excellent' ? 'bg-green-100 text-green-800' :
-            wifiInfo.quality === 'good' ? 'bg-blue-100 text-blue-800' :
-            wifiInfo.quality === 'fair' ? 'bg-yellow-100 text-yellow-800' :
-            'bg-red-100 text-red-800'
-          }`}>
-            <span className="font-semibold capitalize">{wifiInfo.quality}</span>
+          <div className={`px-4 py-2 rounded-full ${QUALITY_CLASSES[quality ?? 'poor'].badge}`}>
+            <span className="font-semibold capitalize">{quality ?? 'unknown'}</span>
           </div>
         </div>
 
@@ -181,7 +298,7 @@ export default function WiFiAnalyzer() {
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium text-gray-700">Signal Strength</span>
             <span className={`text-2xl font-bold ${getSignalStrengthColor(wifiInfo.signalStrength)}`}>
-              {wifiInfo.signalStrength} dBm
+              {wifiInfo.signalStrength !== null ? `${wifiInfo.signalStrength} dBm` : 'Unavailable'}
             </span>
           </div>
           {getSignalStrengthBar(wifiInfo.signalStrength)}
@@ -198,7 +315,7 @@ export default function WiFiAnalyzer() {
               <Radio className="w-5 h-5 text-gray-600" />
               <span className="text-sm text-gray-600">Frequency</span>
             </div>
-            <p className="text-xl font-bold text-gray-900">{wifiInfo.frequency} MHz</p>
+            <p className="text-xl font-bold text-gray-900">{wifiInfo.frequency !== null ? `${wifiInfo.frequency} MHz` : 'Unknown'}</p>
           </div>
 
           <div className="bg-gray-50 rounded-lg p-4">
@@ -214,7 +331,7 @@ export default function WiFiAnalyzer() {
               <Shield className="w-5 h-5 text-gray-600" />
               <span className="text-sm text-gray-600">Security</span>
             </div>
-            <p className="text-xl font-bold text-gray-900">{wifiInfo.security}</p>
+            <p className="text-xl font-bold text-gray-900">{wifiInfo.security ?? 'Unknown'}</p>
           </div>
 
           <div className="bg-gray-50 rounded-lg p-4">
@@ -222,7 +339,7 @@ export default function WiFiAnalyzer() {
               <Signal className="w-5 h-5 text-gray-600" />
               <span className="text-sm text-gray-600">Speed</span>
             </div>
-            <p className="text-xl font-bold text-gray-900">{wifiInfo.speed}</p>
+            <p className="text-xl font-bold text-gray-900">{wifiInfo.speed ?? 'Unknown'}</p>
           </div>
         </div>
       </div>
@@ -237,19 +354,19 @@ export default function WiFiAnalyzer() {
           <div className="space-y-3">
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">IP Address</span>
-              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.ipAddress}</span>
+              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.ipAddress ?? 'Unknown'}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">Subnet Mask</span>
-              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.subnet}</span>
+              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.subnet ?? 'Unknown'}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">Gateway</span>
-              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.gateway}</span>
+              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.gateway ?? 'Unknown'}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-600">BSSID</span>
-              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.bssid}</span>
+              <span className="text-sm font-mono font-semibold text-gray-900">{wifiInfo.bssid ?? 'Unknown'}</span>
             </div>
           </div>
         </div>
@@ -263,19 +380,16 @@ export default function WiFiAnalyzer() {
             <div>
               <div className="flex justify-between mb-1">
                 <span className="text-sm text-gray-600">Signal Quality</span>
-                <span className="text-sm font-semibold capitalize text-gray-900">{wifiInfo.quality}</span>
+                <span className="text-sm font-semibold capitalize text-gray-900">{quality ?? 'unknown'}</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
-                  className={`h-2 rounded-full ${
-                    wifiInfo.quality === 'excellent' ? 'bg-green-500' :
-                    wifiInfo.quality === 'good' ? 'bg-blue-500' :
-                    wifiInfo.quality === 'fair' ? 'bg-yellow-500' : 'bg-red-500'
-                  }`}
+                  className={`h-2 rounded-full ${QUALITY_CLASSES[quality ?? 'poor'].bar}`}
                   style={{
-                    width: wifiInfo.quality === 'excellent' ? '100%' :
-                           wifiInfo.quality === 'good' ? '75%' :
-                           wifiInfo.quality === 'fair' ? '50%' : '25%'
+                    width: quality === 'excellent' ? '100%' :
+                           quality === 'good' ? '75%' :
+                           quality === 'fair' ? '50%' :
+                           quality === 'poor' ? '25%' : '0%'
                   }}
                 ></div>
               </div>
@@ -284,16 +398,16 @@ export default function WiFiAnalyzer() {
             <div className="pt-4 border-t border-gray-200">
               <h4 className="text-sm font-medium text-gray-700 mb-2">Recommendations</h4>
               <ul className="text-sm text-gray-600 space-y-1">
-                {wifiInfo.signalStrength < -85 && (
+                {wifiInfo.signalStrength !== null && wifiInfo.signalStrength < profile.thresholds.wifi.fair && (
                   <li>• Move closer to the router for better signal</li>
                 )}
-                {wifiInfo.frequency === 2400 && (
+                {wifiInfo.frequency !== null && wifiInfo.frequency < 3000 && (
                   <li>• Consider switching to 5GHz for better performance</li>
                 )}
-                {wifiInfo.quality === 'poor' && (
+                {quality === 'poor' && (
                   <li>• Check for interference or obstacles</li>
                 )}
-                {wifiInfo.quality === 'excellent' || wifiInfo.quality === 'good' ? (
+                {quality === 'excellent' || quality === 'good' ? (
                   <li>• Your connection is optimal</li>
                 ) : null}
               </ul>
@@ -302,24 +416,231 @@ export default function WiFiAnalyzer() {
         </div>
       </div>
 
+      {/* Nearby Networks and Channel Interference */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Radio className="w-5 h-5 mr-2 text-teal-500" />
+            Channel Interference
+          </h3>
+          <div className="flex items-center space-x-2">
+            {(['2.4', '5', '6'] as WiFiBand[]).map(b => (
+              <button
+                key={b}
+                onClick={() => setBand(b)}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  band === b ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {BAND_LABELS[b]} ({scan?.networks.filter(n => n.band === b).length ?? 0})
+              </button>
+            ))}
+            <button
+              onClick={loadScan}
+              disabled={scanning}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 mr-1 ${scanning ? 'animate-spin' : ''}`} />
+              Rescan
+            </button>
+          </div>
+        </div>
+
+        {scan?.simulated && (
+          <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-2 rounded text-sm">
+            Simulated scan: no WiFi provider could list nearby networks on this machine.
+          </div>
+        )}
+        {scan && !scan.simulated && scan.networks.some(n => n.rssiEstimated) && (
+          <p className="mb-4 text-xs text-gray-500">
+            RSSI values are estimated from NetworkManager's signal percentage.
+          </p>
+        )}
+
+        {!scan ? (
+          <p className="text-sm text-gray-500">{scanning ? 'Scanning...' : 'Scan unavailable.'}</p>
+        ) : (
+          <>
+            <div className="mb-4 p-4 bg-teal-50 rounded-lg">
+              <p className="text-sm text-teal-900">
+                <span className="font-semibold">Least congested {BAND_LABELS[band]} channel: {recommendation.channel}</span>
+                {' '}(interference score {recommendation.interference.toFixed(2)})
+                {connectedNetwork && connectedNetwork.channel !== recommendation.channel && (
+                  <> — your network is on channel {connectedNetwork.channel}
+                    {' '}(score {occupancy.find(o => o.channel === connectedNetwork.channel)?.interference.toFixed(2) ?? 'n/a'})</>
+                )}
+              </p>
+              <p className="text-xs text-teal-700 mt-1">
+                Each neighbouring access point adds its signal weight (0 at -100 dBm, 1 at -30 dBm) times the share of the channel its bandwidth overlaps.
+              </p>
+            </div>
+
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={occupancy}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="channel" label={{ value: 'Channel', position: 'insideBottom', offset: -5 }} />
+                <YAxis yAxisId="count" allowDecimals={false} label={{ value: 'Networks', angle: -90, position: 'insideLeft' }} />
+                <YAxis yAxisId="score" orientation="right" label={{ value: 'Interference', angle: 90, position: 'insideRight' }} />
+                <Tooltip formatter={(value: number, name: string) => (name === 'Interference' ? value.toFixed(2) : value)} />
+                <Legend verticalAlign="top" />
+                <Bar yAxisId="count" dataKey="networks" name="Networks" fill="#14b8a6">
+                  {occupancy.map(entry => (
+                    <Cell key={entry.channel} fill={entry.channel === recommendation.channel ? '#10b981' : '#14b8a6'} />
+                  ))}
+                </Bar>
+                <Line yAxisId="score" type="monotone" dataKey="interference" name="Interference" stroke="#ef4444" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto mt-6">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['SSID', 'BSSID', 'Channel', 'Width', 'Frequency', 'RSSI', 'Security'].map(h => (
+                      <th key={h} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {bandNetworks.map(n => (
+                    <tr key={n.bssid} className={n.connected ? 'bg-green-50' : ''}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {n.ssid ?? <span className="italic text-gray-400">hidden</span>}
+                        {n.connected && <span className="ml-2 text-xs text-green-700">(connected)</span>}
+                      </td>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-600">{n.bssid}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{n.channel}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{n.width !== null ? `${n.width} MHz` : 'Unknown'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{n.frequency} MHz</td>
+                      <td className={`px-4 py-2 text-sm font-semibold ${getSignalStrengthColor(n.signalStrength)}`}>
+                        {n.signalStrength !== null ? `${n.rssiEstimated ? '≈' : ''}${n.signalStrength} dBm` : 'Unknown'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{n.security}</td>
+                    </tr>
+                  ))}
+                  {bandNetworks.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-4 text-sm text-center text-gray-500">No networks seen on {BAND_LABELS[band]}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Signal History */}
+      <div className="bg-white shadow-lg rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <History className="w-5 h-5 mr-2 text-indigo-500" />
+            Signal History
+          </h3>
+          <select
+            value={historyRange}
+            onChange={(e) => setHistoryRange(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          >
+            {HISTORY_RANGES.map(r => (
+              <option key={r.ms} value={r.ms}>Last {r.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {!history ? (
+          <p className="text-sm text-gray-500">History unavailable.</p>
+        ) : history.samples.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No samples recorded in this window. The server samples every {history.intervalMs / 1000} s and only keeps real readings, not simulated ones.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              {[
+                { label: 'Samples', value: historyStats.count.toLocaleString() },
+                { label: 'Mean RSSI', value: historyStats.meanRssi !== null ? `${historyStats.meanRssi.toFixed(1)} dBm` : 'n/a' },
+                { label: 'Worst RSSI', value: historyStats.minRssi !== null ? `${historyStats.minRssi} dBm` : 'n/a' },
+                { label: 'Roaming Events', value: historyStats.roams },
+                { label: 'Gaps', value: historyStats.gaps },
+              ].map(stat => (
+                <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-600">{stat.label}</p>
+                  <p className="text-lg font-bold text-gray-900">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <h4 className="text-sm font-medium text-gray-700 mb-2">RSSI and Link Speed</h4>
+            <ResponsiveContainer width="100%" height={280}>
+              <ComposedChart data={historyChart}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} />
+                <YAxis yAxisId="rssi" label={{ value: 'RSSI (dBm)', angle: -90, position: 'insideLeft' }} />
+                <YAxis yAxisId="speed" orientation="right" label={{ value: 'Mbps', angle: 90, position: 'insideRight' }} />
+                <Tooltip labelFormatter={(value: number) => new Date(value).toLocaleString()} />
+                <Legend verticalAlign="top" />
+                {history.roamingEvents.map(event => (
+                  <ReferenceLine
+                    key={event.timestamp}
+                    yAxisId="rssi"
+                    x={event.timestamp}
+                    stroke="#f59e0b"
+                    strokeDasharray="4 4"
+                    label={{ value: 'roam', position: 'top', fill: '#b45309', fontSize: 10 }}
+                  />
+                ))}
+                <Line yAxisId="rssi" type="monotone" dataKey="rssi" name="RSSI" stroke="#3b82f6" dot={false} connectNulls />
+                <Line yAxisId="speed" type="monotone" dataKey="speed" name="Link speed" stroke="#10b981" dot={false} connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+
+            <h4 className="text-sm font-medium text-gray-700 mt-6 mb-2">Channel</h4>
+            <ResponsiveContainer width="100%" height={160}>
+              <LineChart data={historyChart}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} />
+                <YAxis allowDecimals={false} domain={['dataMin', 'dataMax']} />
+                <Tooltip labelFormatter={(value: number) => new Date(value).toLocaleString()} />
+                {history.roamingEvents.map(event => (
+                  <ReferenceLine key={event.timestamp} x={event.timestamp} stroke="#f59e0b" strokeDasharray="4 4" />
+                ))}
+                <Line type="stepAfter" dataKey="channel" name="Channel" stroke="#8b5cf6" dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+
+            {history.roamingEvents.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Roaming Events</h4>
+                <ul className="text-sm text-gray-600 space-y-1 max-h-40 overflow-y-auto">
+                  {[...history.roamingEvents].reverse().map(event => (
+                    <li key={event.timestamp} className="font-mono">
+                      {new Date(event.timestamp).toLocaleString()}: {event.from} (ch {event.fromChannel ?? '?'}) → {event.to} (ch {event.toChannel ?? '?'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {history.logging && (
+              <p className="text-xs text-gray-500 mt-4">Samples are also being written to the server's WiFi log file.</p>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Signal Strength Comparison */}
       <div className="bg-white shadow-lg rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Signal Strength Guide</h3>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          {[
-            { range: '-30 to -50 dBm', label: 'Excellent', color: 'bg-green-500', desc: 'Perfect signal' },
-            { range: '-50 to -70 dBm', label: 'Good', color: 'bg-blue-500', desc: 'Strong signal' },
-            { range: '-70 to -85 dBm', label: 'Fair', color: 'bg-yellow-500', desc: 'Moderate signal' },
-            { range: '-85 to -100 dBm', label: 'Poor', color: 'bg-red-500', desc: 'Weak signal' },
-          ].map((item, idx) => (
-            <div key={idx} className="border border-gray-200 rounded-lg p-4">
-              <div className={`${item.color} w-full h-2 rounded mb-2`}></div>
-              <p className="font-semibold text-gray-900">{item.label}</p>
-              <p className="text-xs text-gray-600">{item.range}</p>
-              <p className="text-xs text-gray-500 mt-1">{item.desc}</p>
+          {QUALITIES.map(q => (
+            <div key={q} className="border border-gray-200 rounded-lg p-4">
+              <div className={`${QUALITY_CLASSES[q].bar} w-full h-2 rounded mb-2`}></div>
+              <p className="font-semibold text-gray-900">{qualityLabel(q, 'wifi', profile)}</p>
+              <p className="text-xs text-gray-500 mt-1">{QUALITY_DESCRIPTIONS[q]}</p>
             </div>
           ))}
         </div>
+        <ProfileNote />
       </div>
 
       {error && (
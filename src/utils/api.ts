@@ -1,4 +1,5 @@
 import axios from 'axios'
+import { MetricKey, QualityProfile } from './metrics'
 
 // Use environment variable for API base URL, fallback to /api for local development
 const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
@@ -24,6 +25,8 @@ export interface TowerRecommendation {
   priority?: string
   x?: number
   y?: number
+  lat?: number // WGS84 degrees
+  lon?: number
   tower_id?: number
 }
 
@@ -37,22 +40,170 @@ export interface CoverageSummary {
   stability_score: number
   coverage_score: number
   low_quality: boolean
+  metric?: MetricKey // computed rows: the headline metric the rssi_* fields describe, when not RSSI
 }
 
 export interface SignalData {
   timestamp?: number
-  cell_id?: number
+  cell_id?: string
   rssi?: number
   body_position?: string
+  user?: string
   x?: number
   y?: number
+  lat?: number // WGS84 degrees
+  lon?: number
+  technology?: string // GSM, UMTS, LTE or NR (2G-5G and common aliases are accepted)
+  rxlev?: number // GSM, dBm
+  rscp?: number // UMTS, dBm
+  ecno?: number // UMTS, dB
+  rsrp?: number // LTE, dBm
+  rsrq?: number // LTE, dB
+  sinr?: number // LTE, dB
+  ss_rsrp?: number // NR, dBm
+  ss_sinr?: number // NR, dB
   [key: string]: any
 }
 
+// Drive-test exports use epoch seconds, IndoorMapper sessions milliseconds
+export const toMillis = (timestamp: number) => (timestamp < 1e11 ? timestamp * 1000 : timestamp)
+
+export interface Dataset {
+  id: string
+  name: string
+  builtIn?: boolean
+  format?: 'csv' | 'json' | 'survey'
+  originalName?: string | null
+  rows?: number
+  rejectedRows?: number
+  columns?: string[]
+  uploadedAt?: string
+}
+
+export interface ParseError {
+  line: number
+  column?: string
+  value?: string
+  message: string
+}
+
+export interface ParseReport {
+  source: string
+  rowsParsed: number
+  rowsRejected: number
+  errors: ParseError[]
+  truncated: boolean
+}
+
+export interface DatasetUpload {
+  dataset: Dataset
+  report: ParseReport
+}
+
+export const DEFAULT_DATASET = 'default'
+
+export type WiFiBand = '2.4' | '5' | '6'
+
+export interface WiFiNetwork {
+  ssid: string | null
+  bssid: string
+  channel: number
+  frequency: number
+  band: WiFiBand
+  width: number | null // MHz; null when the scanner doesn't report it
+  signalStrength: number | null
+  rssiEstimated: boolean // converted from a 0-100% quality rather than measured in dBm
+  security: string
+  connected: boolean
+}
+
+export interface WiFiScan {
+  networks: WiFiNetwork[]
+  provider: string
+  simulated: boolean
+}
+
+export interface WiFiSample {
+  timestamp: number
+  ssid: string | null
+  bssid: string | null
+  signalStrength: number | null
+  speedMbps: number | null
+  channel: number | null
+  frequency: number | null
+  provider: string
+}
+
+export interface RoamingEvent {
+  timestamp: number
+  from: string
+  to: string
+  fromChannel: number | null
+  toChannel: number | null
+}
+
+export interface WiFiHistory {
+  samples: WiFiSample[]
+  roamingEvents: RoamingEvent[]
+  intervalMs: number
+  capacity: number
+  logging: boolean
+}
+
+export interface DataQuery {
+  dataset?: string
+  limit?: number
+  offset?: number
+  cursor?: string
+  rssi_min?: number
+  rssi_max?: number
+  cell_id?: string
+  body_position?: string
+  start?: number | string
+  end?: number | string
+}
+
+// Rows the analysis pages load at most, fetched in pages of the server's maximum limit
+export const MAX_DATA_ROWS = 200_000
+const DATA_PAGE_SIZE = 50_000
+
+export interface DataPage {
+  rows: SignalData[]
+  total: number
+  nextCursor: string | null
+}
+
+export type PositionSource = 'xy' | 'gnss' | 'trilateration'
+
+export interface LocatedPoint {
+  x: number // meters
+  y: number
+  rssi: number
+  timestamp: number | null
+  cell_id: string | null
+  source: PositionSource
+  accuracy?: number // RMS range residual of a trilateration fix (m)
+}
+
+// 'local': the data's own x/y. 'enu': east/north meters around origin. null: nothing could be placed
+export type PositionFrame = 'local' | 'enu'
+
+export interface Positions {
+  frame: PositionFrame | null
+  origin: { lat: number, lon: number } | null
+  sites: { cell_id: string, x: number, y: number }[]
+  unlocated: number
+  total: number
+  points: LocatedPoint[]
+}
+
 export const api = {
-  getSummary: async (): Promise<SummaryStats | null> => {
+  // Precomputed when the dataset ships summary_statistics.json, otherwise computed by the server
+  // Computed summaries count weak and good signal with the given quality profile
+  getSummary: async (dataset?: string, user?: string, profile?: string): Promise<SummaryStats | null> => {
     try {
-      const response = await axios.get<SummaryStats>(`${API_BASE}/summary`)
+      const endpoint = user && user !== 'all' ? `${API_BASE}/summary/${user}` : `${API_BASE}/summary`
+      const response = await axios.get<SummaryStats>(endpoint, { params: { dataset, profile } })
       return response.data
     } catch (error) {
       console.error('Error fetching summary:', error)
@@ -60,9 +211,9 @@ export const api = {
     }
   },
 
-  getTowers: async (): Promise<TowerRecommendation[]> => {
+  getTowers: async (dataset?: string): Promise<TowerRecommendation[]> => {
     try {
-      const response = await axios.get<TowerRecommendation[]>(`${API_BASE}/towers`)
+      const response = await axios.get<TowerRecommendation[]>(`${API_BASE}/towers`, { params: { dataset } })
       return response.data
     } catch (error) {
       console.error('Error fetching towers:', error)
@@ -70,9 +221,10 @@ export const api = {
     }
   },
 
-  getCoverage: async (): Promise<CoverageSummary[]> => {
+  // Datasets without a coverage file get one computed with the given quality profile
+  getCoverage: async (dataset?: string, profile?: string): Promise<CoverageSummary[]> => {
     try {
-      const response = await axios.get<CoverageSummary[]>(`${API_BASE}/coverage`)
+      const response = await axios.get<CoverageSummary[]>(`${API_BASE}/coverage`, { params: { dataset, profile } })
       return response.data
     } catch (error) {
       console.error('Error fetching coverage:', error)
@@ -80,25 +232,148 @@ export const api = {
     }
   },
 
-  getData: async (user?: string): Promise<SignalData[]> => {
+  // Every matching row, following X-Next-Cursor page by page up to maxRows. When the cap
+  // cuts the data short, rows.length is below total and nextCursor is set.
+  getData: async (user?: string, query: DataQuery = {}, maxRows = MAX_DATA_ROWS): Promise<DataPage> => {
+    const endpoint = user && user !== 'all' ? `${API_BASE}/data/${user}` : `${API_BASE}/data`
+    let rows: SignalData[] = []
+    let total = 0
+    let cursor = query.cursor ?? null
+    try {
+      do {
+        const params = { ...query, cursor: cursor ?? undefined, limit: Math.min(DATA_PAGE_SIZE, maxRows - rows.length) }
+        const response = await axios.get<SignalData[]>(endpoint, { params })
+        rows = rows.concat(response.data)
+        total = parseInt(response.headers['x-total-count'] ?? '', 10) || rows.length
+        cursor = response.headers['x-next-cursor'] ?? null
+      } while (cursor && rows.length < maxRows)
+      return { rows, total, nextCursor: cursor }
+    } catch (error) {
+      console.error('Error fetching data:', error)
+      return { rows, total: Math.max(total, rows.length), nextCursor: null }
+    }
+  },
+
+  getDataPage: async (user?: string, query?: DataQuery): Promise<DataPage> => {
     try {
       const endpoint = user && user !== 'all' ? `${API_BASE}/data/${user}` : `${API_BASE}/data`
-      const response = await axios.get<SignalData[]>(endpoint)
+      const response = await axios.get<SignalData[]>(endpoint, { params: query })
+      return {
+        rows: response.data,
+        total: parseInt(response.headers['x-total-count'] ?? '', 10) || response.data.length,
+        nextCursor: response.headers['x-next-cursor'] ?? null,
+      }
+    } catch (error) {
+      console.error('Error fetching data page:', error)
+      return { rows: [], total: 0, nextCursor: null }
+    }
+  },
+
+  getPositions: async (user?: string, query?: DataQuery): Promise<Positions | null> => {
+    try {
+      const endpoint = user && user !== 'all' ? `${API_BASE}/positions/${user}` : `${API_BASE}/positions`
+      const response = await axios.get<Positions>(endpoint, { params: query })
       return response.data
     } catch (error) {
-      console.error('Error fetching data:', error)
-      return []
+      console.error('Error fetching positions:', error)
+      return null
     }
   },
 
-  getUserSummary: async (user: string): Promise<CoverageSummary[]> => {
+  getUserSummary: async (user: string, dataset?: string): Promise<CoverageSummary[]> => {
     try {
-      const response = await axios.get<CoverageSummary[]>(`${API_BASE}/user/${user}/summary`)
+      const response = await axios.get<CoverageSummary[]>(`${API_BASE}/user/${user}/summary`, { params: { dataset } })
       return response.data
     } catch (error) {
       console.error('Error fetching user summary:', error)
       return []
     }
   },
-}
 
+  getDatasets: async (): Promise<Dataset[]> => {
+    try {
+      const response = await axios.get<Dataset[]>(`${API_BASE}/datasets`)
+      return response.data
+    } catch (error) {
+      console.error('Error fetching datasets:', error)
+      return []
+    }
+  },
+
+  // Throws with the server's validation message so the caller can show it
+  uploadDataset: async (file: File, name?: string): Promise<DatasetUpload> => {
+    const form = new FormData()
+    form.append('file', file)
+    if (name) form.append('name', name)
+    try {
+      const response = await axios.post<DatasetUpload>(`${API_BASE}/datasets`, form)
+      return response.data
+    } catch (error: any) {
+      console.error('Error uploading dataset:', error)
+      throw new Error(error.response?.data?.error || 'Upload failed')
+    }
+  },
+
+  uploadSurvey: async (name: string, rows: SignalData[]): Promise<DatasetUpload> => {
+    try {
+      const response = await axios.post<DatasetUpload>(`${API_BASE}/surveys`, { name, rows })
+      return response.data
+    } catch (error: any) {
+      console.error('Error uploading survey:', error)
+      throw new Error(error.response?.data?.error || 'Upload failed')
+    }
+  },
+
+  getQualityProfiles: async (): Promise<QualityProfile[]> => {
+    try {
+      const response = await axios.get<QualityProfile[]>(`${API_BASE}/quality-profiles`)
+      return response.data
+    } catch (error) {
+      console.error('Error fetching quality profiles:', error)
+      return []
+    }
+  },
+
+  // Creates the profile when it has no id yet. Throws with the server's validation message.
+  saveQualityProfile: async (profile: Pick<QualityProfile, 'name' | 'description' | 'thresholds'> & { id?: string }): Promise<QualityProfile> => {
+    const { id, ...body } = profile
+    try {
+      const response = id
+        ? await axios.put<QualityProfile>(`${API_BASE}/quality-profiles/${encodeURIComponent(id)}`, body)
+        : await axios.post<QualityProfile>(`${API_BASE}/quality-profiles`, body)
+      return response.data
+    } catch (error: any) {
+      console.error('Error saving quality profile:', error)
+      throw new Error(error.response?.data?.error || 'Save failed')
+    }
+  },
+
+  deleteQualityProfile: async (id: string): Promise<void> => {
+    try {
+      await axios.delete(`${API_BASE}/quality-profiles/${encodeURIComponent(id)}`)
+    } catch (error: any) {
+      console.error('Error deleting quality profile:', error)
+      throw new Error(error.response?.data?.error || 'Delete failed')
+    }
+  },
+
+  getWiFiScan: async (): Promise<WiFiScan | null> => {
+    try {
+      const response = await axios.get<WiFiScan>(`${API_BASE}/wifi/scan`)
+      return response.data
+    } catch (error) {
+      console.error('Error scanning WiFi:', error)
+      return null
+    }
+  },
+
+  getWiFiHistory: async (since?: number): Promise<WiFiHistory | null> => {
+    try {
+      const response = await axios.get<WiFiHistory>(`${API_BASE}/wifi/history`, { params: { since } })
+      return response.data
+    } catch (error) {
+      console.error('Error fetching WiFi history:', error)
+      return null
+    }
+  },
+}
@@ -0,0 +1,154 @@
+// Fits the log-distance model to measured drive-test data, one regression per serving cell
+
+import { SignalData } from './api'
+import { PropagationParams, Point, distanceMeters, freeSpacePathLoss } from './propagation'
+
+export interface CellCalibration {
+  cellId: string
+  site: Point               // estimated serving site location
+  samples: number
+  pathLossExponent: number
+  interceptDbm: number      // fitted RSSI at the reference distance
+  shadowingSigma: number    // residual std dev (dB)
+  rSquared: number
+  rmse: number
+}
+
+export interface CalibrationResult {
+  cells: CellCalibration[]
+  pooled: Omit<CellCalibration, 'cellId' | 'site'> | null
+}
+
+interface Regression {
+  n: number
+  meanX: number
+  meanY: number
+  sxx: number
+  sxy: number
+  syy: number
+  slope: number
+  intercept: number
+  sse: number
+}
+
+const MIN_SAMPLES = 20
+// Share of the strongest samples used to estimate where a cell's site is
+const SITE_SAMPLE_FRACTION = 0.1
+// Below this spread in log-distance the slope is meaningless
+const MIN_LOG_DISTANCE_SPREAD = 1e-3
+
+function linearRegression(xs: number[], ys: number[]): Regression {
+  const n = xs.length
+  const meanX = xs.reduce((a, b) => a + b, 0) / n
+  const meanY = ys.reduce((a, b) => a + b, 0) / n
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += Math.pow(xs[i] - meanX, 2)
+    sxy += (xs[i] - meanX) * (ys[i] - meanY)
+    syy += Math.pow(ys[i] - meanY, 2)
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0
+  const intercept = meanY - slope * meanX
+  const sse = Math.max(0, syy - slope * sxy)
+  return { n, meanX, meanY, sxx, sxy, syy, slope, intercept, sse }
+}
+
+// RSSI-weighted centroid of the strongest samples
+function estimateSite(points: { x: number, y: number, rssi: number }[]): Point {
+  const strongest = [...points]
+    .sort((a, b) => b.rssi - a.rssi)
+    .slice(0, Math.max(3, Math.ceil(points.length * SITE_SAMPLE_FRACTION)))
+  const minRssi = strongest[strongest.length - 1].rssi
+  let weightSum = 0
+  let x = 0
+  let y = 0
+  strongest.forEach(p => {
+    const weight = p.rssi - minRssi + 1
+    weightSum += weight
+    x += p.x * weight
+    y += p.y * weight
+  })
+  return { x: x / weightSum, y: y / weightSum }
+}
+
+export function calibrate(
+  data: SignalData[],
+  params: PropagationParams,
+  minSamples: number = MIN_SAMPLES
+): CalibrationResult {
+  const byCell = new Map<string, { x: number, y: number, rssi: number }[]>()
+  data.forEach(d => {
+    if (d.cell_id === undefined || d.cell_id === null) return
+    if (d.x === undefined || d.y === undefined || d.rssi === undefined || d.rssi >= 0) return
+    const key = String(d.cell_id)
+    if (!byCell.has(key)) byCell.set(key, [])
+    byCell.get(key)!.push({ x: d.x, y: d.y, rssi: d.rssi })
+  })
+
+  const d0 = Math.max(params.referenceDistance, 1)
+  const cells: CellCalibration[] = []
+  const fits: Regression[] = []
+
+  byCell.forEach((points, cellId) => {
+    if (points.length < minSamples) return
+
+    const site = estimateSite(points)
+    const xs = points.map(p => Math.log10(Math.max(distanceMeters(site, p, params), d0) / d0))
+    const ys = points.map(p => p.rssi)
+    const fit = linearRegression(xs, ys)
+    if (fit.sxx / fit.n < MIN_LOG_DISTANCE_SPREAD) return
+
+    const rmse = Math.sqrt(fit.sse / fit.n)
+    fits.push(fit)
+    cells.push({
+      cellId,
+      site,
+      samples: fit.n,
+      pathLossExponent: -fit.slope / 10,
+      interceptDbm: fit.intercept,
+      shadowingSigma: Math.sqrt(fit.sse / Math.max(1, fit.n - 2)),
+      rSquared: fit.syy > 0 ? 1 - fit.sse / fit.syy : 0,
+      rmse,
+    })
+  })
+
+  if (fits.length === 0) return { cells, pooled: null }
+
+  // Within-cell pooled regression: common slope, each cell keeps its own intercept
+  const samples = fits.reduce((sum, f) => sum + f.n, 0)
+  const sxx = fits.reduce((sum, f) => sum + f.sxx, 0)
+  const sxy = fits.reduce((sum, f) => sum + f.sxy, 0)
+  const syy = fits.reduce((sum, f) => sum + f.syy, 0)
+  const slope = sxy / sxx
+  const sse = Math.max(0, syy - slope * sxy)
+  // Each cell's intercept under the common slope, weighted by its sample count
+  const interceptDbm = fits.reduce((sum, f) => sum + f.n * (f.meanY - slope * f.meanX), 0) / samples
+
+  return {
+    cells: cells.sort((a, b) => b.samples - a.samples),
+    pooled: {
+      samples,
+      pathLossExponent: -slope / 10,
+      interceptDbm,
+      shadowingSigma: Math.sqrt(sse / Math.max(1, samples - fits.length - 1)),
+      rSquared: syy > 0 ? 1 - sse / syy : 0,
+      rmse: Math.sqrt(sse / samples),
+    },
+  }
+}
+
+// Log-distance parameters that reproduce the pooled fit; EIRP is chosen so the
+// model predicts the fitted intercept at the reference distance
+export function applyCalibration(params: PropagationParams, result: CalibrationResult): PropagationParams {
+  if (!result.pooled) return params
+  const d0 = Math.max(params.referenceDistance, 1)
+  return {
+    ...params,
+    model: 'log-distance',
+    pathLossExponent: result.pooled.pathLossExponent,
+    txPowerDbm: result.pooled.interceptDbm + freeSpacePathLoss(d0, params.frequencyMhz),
+    shadowingSigma: result.pooled.shadowingSigma,
+  }
+}
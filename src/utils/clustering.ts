@@ -0,0 +1,202 @@
+// Weighted k-means with k-means++ seeding, plus silhouette/elbow analysis for choosing k
+
+import { Point } from './propagation'
+import { mulberry32 } from './random'
+
+export interface WeightedPoint extends Point {
+  weight: number
+}
+
+export interface KMeansOptions {
+  maxIterations?: number
+  tolerance?: number // stop once no centroid moves further than this
+  seed?: number
+}
+
+export interface KMeansResult {
+  centroids: Point[]
+  assignments: number[]
+  inertia: number // weighted sum of squared distances to assigned centroids
+  iterations: number
+  converged: boolean
+}
+
+export interface KScore {
+  k: number
+  silhouette: number
+  inertia: number
+}
+
+export interface KSuggestion {
+  k: number
+  scores: KScore[]
+}
+
+const DEFAULT_MAX_ITERATIONS = 100
+const DEFAULT_TOLERANCE = 1e-4
+// Silhouette is O(n²); larger inputs are scored on an evenly spaced sample
+const SILHOUETTE_SAMPLE_SIZE = 400
+
+function squaredDistance(a: Point, b: Point): number {
+  return Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2)
+}
+
+function nearestCentroid(point: Point, centroids: Point[]): { index: number, distance: number } {
+  let index = 0
+  let distance = Infinity
+  centroids.forEach((centroid, idx) => {
+    const d = squaredDistance(point, centroid)
+    if (d < distance) {
+      distance = d
+      index = idx
+    }
+  })
+  return { index, distance }
+}
+
+// Picks each new seed with probability proportional to weight × squared distance to the nearest seed
+function seedPlusPlus(points: WeightedPoint[], k: number, random: () => number): Point[] {
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0)
+  let target = random() * totalWeight
+  let first = points[points.length - 1]
+  for (const p of points) {
+    target -= p.weight
+    if (target <= 0) {
+      first = p
+      break
+    }
+  }
+  const centroids: Point[] = [{ x: first.x, y: first.y }]
+
+  while (centroids.length < k) {
+    const scores = points.map(p => p.weight * nearestCentroid(p, centroids).distance)
+    const total = scores.reduce((a, b) => a + b, 0)
+    if (total === 0) break // every remaining point coincides with a seed
+    let pick = random() * total
+    let chosen = points.length - 1
+    for (let i = 0; i < scores.length; i++) {
+      pick -= scores[i]
+      if (pick <= 0) {
+        chosen = i
+        break
+      }
+    }
+    centroids.push({ x: points[chosen].x, y: points[chosen].y })
+  }
+  return centroids
+}
+
+export function kmeans(points: WeightedPoint[], k: number, options: KMeansOptions = {}): KMeansResult {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+  if (points.length === 0 || k < 1) {
+    return { centroids: [], assignments: [], inertia: 0, iterations: 0, converged: true }
+  }
+
+  const random = mulberry32(options.seed ?? 1)
+  const centroids = seedPlusPlus(points, Math.min(k, points.length), random)
+  let assignments = new Array<number>(points.length).fill(0)
+  let iterations = 0
+  let converged = false
+
+  while (iterations < maxIterations && !converged) {
+    iterations++
+    assignments = points.map(p => nearestCentroid(p, centroids).index)
+
+    const sums = centroids.map(() => ({ x: 0, y: 0, weight: 0 }))
+    points.forEach((p, idx) => {
+      const sum = sums[assignments[idx]]
+      sum.x += p.x * p.weight
+      sum.y += p.y * p.weight
+      sum.weight += p.weight
+    })
+
+    let maxShift = 0
+    sums.forEach((sum, idx) => {
+      let next: Point
+      if (sum.weight > 0) {
+        next = { x: sum.x / sum.weight, y: sum.y / sum.weight }
+      } else {
+        // Empty cluster: move it to the point its current centroid explains worst
+        let worst = 0
+        let worstCost = -1
+        points.forEach((p, pIdx) => {
+          const cost = p.weight * squaredDistance(p, centroids[assignments[pIdx]])
+          if (cost > worstCost) {
+            worstCost = cost
+            worst = pIdx
+          }
+        })
+        next = { x: points[worst].x, y: points[worst].y }
+        assignments[worst] = idx
+      }
+      maxShift = Math.max(maxShift, Math.sqrt(squaredDistance(next, centroids[idx])))
+      centroids[idx] = next
+    })
+
+    converged = maxShift <= tolerance
+  }
+
+  assignments = points.map(p => nearestCentroid(p, centroids).index)
+  const inertia = points.reduce(
+    (sum, p, idx) => sum + p.weight * squaredDistance(p, centroids[assignments[idx]]),
+    0
+  )
+
+  return { centroids, assignments, inertia, iterations, converged }
+}
+
+// Weighted mean silhouette coefficient in [-1, 1]; higher means tighter, better separated clusters
+export function silhouetteScore(points: WeightedPoint[], assignments: number[], k: number): number {
+  if (k < 2 || points.length <= k) return 0
+
+  const stride = Math.max(1, points.length / SILHOUETTE_SAMPLE_SIZE)
+  const sample: number[] = []
+  for (let i = 0; i < points.length; i += stride) sample.push(Math.floor(i))
+
+  let scoreSum = 0
+  let weightSum = 0
+  sample.forEach(i => {
+    const distSums = new Array<number>(k).fill(0)
+    const weights = new Array<number>(k).fill(0)
+    sample.forEach(j => {
+      if (i === j) return
+      distSums[assignments[j]] += points[j].weight * Math.sqrt(squaredDistance(points[i], points[j]))
+      weights[assignments[j]] += points[j].weight
+    })
+    const own = assignments[i]
+    weightSum += points[i].weight
+    if (weights[own] === 0) return // singleton clusters score 0 by convention and stay in the average
+
+    const a = distSums[own] / weights[own]
+    let b = Infinity
+    for (let c = 0; c < k; c++) {
+      if (c !== own && weights[c] > 0) b = Math.min(b, distSums[c] / weights[c])
+    }
+    if (!Number.isFinite(b)) return
+
+    const s = Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0
+    scoreSum += s * points[i].weight
+  })
+
+  return weightSum > 0 ? scoreSum / weightSum : 0
+}
+
+// Scores k = 2..maxK and recommends the k with the best silhouette
+export function suggestK(points: WeightedPoint[], maxK: number, options: KMeansOptions = {}): KSuggestion | null {
+  const upper = Math.min(maxK, points.length - 1)
+  if (upper < 2) return null
+
+  const scores: KScore[] = []
+  for (let k = 2; k <= upper; k++) {
+    const result = kmeans(points, k, options)
+    scores.push({
+      k,
+      silhouette: silhouetteScore(points, result.assignments, result.centroids.length),
+      inertia: result.inertia,
+    })
+  }
+
+  const best = scores.reduce((a, b) => (b.silhouette > a.silhouette ? b : a))
+  return { k: best.k, scores }
+}
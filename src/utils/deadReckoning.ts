@@ -0,0 +1,196 @@
+// Pedestrian dead reckoning: step detection on accelerometer magnitude, smoothed
+// compass heading and Weinberg stride length, plus deterministic trace replay
+
+export type SensorSample =
+  | { type: 'motion', t: number, x: number, y: number, z: number } // accelerationIncludingGravity, m/s²
+  | { type: 'orientation', t: number, heading: number }              // degrees clockwise from north
+  | { type: 'rssi', t: number, rssi: number }
+
+export interface SensorTrace {
+  version: 1
+  recordedAt: number
+  samples: SensorSample[]
+}
+
+export interface PdrOptions {
+  strideK?: number           // Weinberg constant; calibrate with calibrateStride
+  stepThreshold?: number     // m/s² above gravity a filtered peak must reach
+  minStepIntervalMs?: number
+  headingSmoothing?: number  // 0..1 weight of each new heading reading
+  relativeHeading?: boolean  // treat the first heading as +Y instead of north
+}
+
+export interface StepEvent {
+  t: number
+  x: number
+  y: number
+  heading: number // degrees, in the map frame
+  length: number  // meters
+  feature: number // (aMax - aMin)^¼, kept for stride calibration
+}
+
+export interface ReplayPoint extends StepEvent {
+  rssi: number | null
+}
+
+export const DEFAULT_STRIDE_K = 0.45
+const GRAVITY = 9.81
+const DEFAULTS: Required<PdrOptions> = {
+  strideK: DEFAULT_STRIDE_K,
+  stepThreshold: 1.2,
+  minStepIntervalMs: 300,
+  headingSmoothing: 0.2,
+  relativeHeading: true,
+}
+const FILTER_ALPHA = 0.3
+// A step ends once the filtered magnitude falls back below this share of the threshold
+const HYSTERESIS = 0.3
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180
+const normalizeDegrees = (deg: number) => ((deg % 360) + 360) % 360
+
+// Compass heading from a DeviceOrientationEvent; iOS exposes it directly,
+// elsewhere absolute alpha runs counter-clockwise from north
+export function headingFromOrientation(event: DeviceOrientationEvent): number | null {
+  const compass = (event as any).webkitCompassHeading
+  if (typeof compass === 'number') return compass
+  if (event.alpha === null) return null
+  return normalizeDegrees(360 - event.alpha)
+}
+
+export class DeadReckoner {
+  private options: Required<PdrOptions>
+  private filtered = GRAVITY
+  private aboveThreshold = false
+  private peak = -Infinity
+  private trough = Infinity
+  private lastStepAt = -Infinity
+  private headingSin = 0
+  private headingCos = 1
+  private hasHeading = false
+  private initialHeading = 0
+
+  x = 0
+  y = 0
+  steps = 0
+
+  constructor(options: PdrOptions = {}) {
+    this.options = { ...DEFAULTS, ...options }
+  }
+
+  get heading(): number {
+    const absolute = (Math.atan2(this.headingSin, this.headingCos) * 180) / Math.PI
+    return normalizeDegrees(absolute - (this.options.relativeHeading ? this.initialHeading : 0))
+  }
+
+  // Feed one sample; returns the step it completed, if any
+  update(sample: SensorSample): StepEvent | null {
+    if (sample.type === 'orientation') {
+      this.updateHeading(sample.heading)
+      return null
+    }
+    if (sample.type !== 'motion') return null
+
+    const magnitude = Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z)
+    this.filtered += FILTER_ALPHA * (magnitude - this.filtered)
+    const { stepThreshold, minStepIntervalMs } = this.options
+
+    if (!this.aboveThreshold) {
+      this.trough = Math.min(this.trough, this.filtered)
+      if (this.filtered > GRAVITY + stepThreshold && sample.t - this.lastStepAt >= minStepIntervalMs) {
+        this.aboveThreshold = true
+        this.peak = this.filtered
+      }
+      return null
+    }
+
+    this.peak = Math.max(this.peak, this.filtered)
+    if (this.filtered > GRAVITY + stepThreshold * HYSTERESIS) return null
+
+    // Peak finished: count the step
+    this.aboveThreshold = false
+    this.lastStepAt = sample.t
+    const feature = Math.pow(Math.max(0, this.peak - this.trough), 0.25)
+    this.trough = this.filtered
+    return this.advance(sample.t, feature)
+  }
+
+  reset() {
+    this.x = 0
+    this.y = 0
+    this.steps = 0
+    this.filtered = GRAVITY
+    this.aboveThreshold = false
+    this.trough = Infinity
+    this.lastStepAt = -Infinity
+    this.hasHeading = false
+    this.headingSin = 0
+    this.headingCos = 1
+  }
+
+  private updateHeading(heading: number) {
+    const rad = toRadians(heading)
+    if (!this.hasHeading) {
+      this.hasHeading = true
+      this.initialHeading = heading
+      this.headingSin = Math.sin(rad)
+      this.headingCos = Math.cos(rad)
+      return
+    }
+    // Smooth on the unit circle so 359° → 1° doesn't swing through 180°
+    const w = this.options.headingSmoothing
+    this.headingSin += w * (Math.sin(rad) - this.headingSin)
+    this.headingCos += w * (Math.cos(rad) - this.headingCos)
+  }
+
+  private advance(t: number, feature: number): StepEvent {
+    const length = this.options.strideK * feature
+    const heading = this.heading
+    this.x += length * Math.sin(toRadians(heading))
+    this.y += length * Math.cos(toRadians(heading))
+    this.steps++
+    return { t, x: this.x, y: this.y, heading, length, feature }
+  }
+}
+
+// Weinberg constant that makes the walked steps add up to a measured distance
+export function calibrateStride(features: number[], distanceMeters: number): number | null {
+  const total = features.reduce((a, b) => a + b, 0)
+  return total > 0 && distanceMeters > 0 ? distanceMeters / total : null
+}
+
+// Runs a recorded trace through a fresh engine; the same trace and options always
+// give the same path. Each step carries the latest RSSI seen before it.
+export function replayTrace(trace: SensorTrace, options: PdrOptions = {}): ReplayPoint[] {
+  const engine = new DeadReckoner(options)
+  const points: ReplayPoint[] = []
+  let rssi: number | null = null
+
+  const samples = [...trace.samples].sort((a, b) => a.t - b.t)
+  for (const sample of samples) {
+    if (sample.type === 'rssi') {
+      rssi = sample.rssi
+      continue
+    }
+    const step = engine.update(sample)
+    if (step) points.push({ ...step, rssi })
+  }
+  return points
+}
+
+// Parses an uploaded trace file, throwing on anything that isn't a version 1 trace
+export function parseTrace(text: string): SensorTrace {
+  const data = JSON.parse(text)
+  if (!data || data.version !== 1 || !Array.isArray(data.samples)) {
+    throw new Error('Not a version 1 sensor trace')
+  }
+  const valid = data.samples.every((s: any) =>
+    typeof s?.t === 'number' && (
+      (s.type === 'motion' && [s.x, s.y, s.z].every(v => typeof v === 'number')) ||
+      (s.type === 'orientation' && typeof s.heading === 'number') ||
+      (s.type === 'rssi' && typeof s.rssi === 'number')
+    )
+  )
+  if (!valid) throw new Error('Trace contains malformed samples')
+  return data as SensorTrace
+}
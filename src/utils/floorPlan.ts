@@ -0,0 +1,140 @@
+// Floor-plan georeferencing: maps walk coordinates (meters) onto plan image pixels
+// and assigns positions to room polygons drawn on the plan
+
+import { Point } from './propagation'
+
+export interface RoomPolygon {
+  name: string
+  points: Point[] // image pixels
+}
+
+export interface FloorPlan {
+  image: string  // data URL
+  width: number  // image pixels
+  height: number
+  metersPerPixel: number | null // null until the scale has been set
+  origin: Point  // pixel where the walk starts
+  rotation: number // degrees clockwise from the image's up direction to the walk's +Y
+  rooms: RoomPolygon[]
+}
+
+export const FLOOR_PLAN_STORAGE_KEY = 'indoorFloorPlan'
+// Used when an SVG has no intrinsic size
+const FALLBACK_SIZE = { width: 1000, height: 750 }
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+// Scale from two marked pixels a known distance apart
+export function scaleFromPoints(a: Point, b: Point, meters: number): number | null {
+  const pixels = distance(a, b)
+  return pixels > 0 && meters > 0 ? meters / pixels : null
+}
+
+// Image y grows downwards, walk y grows forwards
+export function metersToPixels(plan: FloorPlan, point: Point): Point | null {
+  if (!plan.metersPerPixel) return null
+  const r = toRadians(plan.rotation)
+  const x = point.x * Math.cos(r) + point.y * Math.sin(r)
+  const y = -point.x * Math.sin(r) + point.y * Math.cos(r)
+  return {
+    x: plan.origin.x + x / plan.metersPerPixel,
+    y: plan.origin.y - y / plan.metersPerPixel,
+  }
+}
+
+export function pixelsToMeters(plan: FloorPlan, pixel: Point): Point | null {
+  if (!plan.metersPerPixel) return null
+  const r = toRadians(plan.rotation)
+  const x = (pixel.x - plan.origin.x) * plan.metersPerPixel
+  const y = (plan.origin.y - pixel.y) * plan.metersPerPixel
+  return {
+    x: x * Math.cos(r) - y * Math.sin(r),
+    y: x * Math.sin(r) + y * Math.cos(r),
+  }
+}
+
+// Ray casting; points on an edge may fall either side
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Room containing a walk position; later rooms win where polygons overlap
+export function roomAt(plan: FloorPlan | null, point: Point): string | undefined {
+  if (!plan) return undefined
+  const pixel = metersToPixels(plan, point)
+  if (!pixel) return undefined
+  for (let i = plan.rooms.length - 1; i >= 0; i--) {
+    if (pointInPolygon(pixel, plan.rooms[i].points)) return plan.rooms[i].name
+  }
+  return undefined
+}
+
+export function polygonCentroid(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+// Reads an uploaded PNG/JPEG/SVG into a new, unscaled plan
+export function loadFloorPlanImage(file: File): Promise<FloorPlan> {
+  return new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) {
+      reject(new Error('Floor plan must be an image or SVG file'))
+      return
+    }
+    const reader = new FileReader()
+    reader.onerror = () => reject(new Error('Could not read the floor plan file'))
+    reader.onload = () => {
+      const image = reader.result as string
+      const img = new Image()
+      img.onerror = () => reject(new Error('Floor plan image could not be decoded'))
+      img.onload = () => {
+        const width = img.naturalWidth || FALLBACK_SIZE.width
+        const height = img.naturalHeight || FALLBACK_SIZE.height
+        resolve({
+          image,
+          width,
+          height,
+          metersPerPixel: null,
+          origin: { x: width / 2, y: height / 2 },
+          rotation: 0,
+          rooms: [],
+        })
+      }
+      img.src = image
+    }
+    reader.readAsDataURL(file)
+  })
+}
+
+export function loadStoredFloorPlan(): FloorPlan | null {
+  try {
+    const stored = localStorage.getItem(FLOOR_PLAN_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+// Returns false when the plan is too large for localStorage
+export function storeFloorPlan(plan: FloorPlan | null): boolean {
+  try {
+    if (plan) localStorage.setItem(FLOOR_PLAN_STORAGE_KEY, JSON.stringify(plan))
+    else localStorage.removeItem(FLOOR_PLAN_STORAGE_KEY)
+    return true
+  } catch {
+    return false
+  }
+}
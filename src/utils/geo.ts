@@ -0,0 +1,66 @@
+// Geographic coordinates and a local tangent-plane (East-North-Up) projection, so
+// lat/lon drive tests are gridded and planned in meters. No map tiles are involved.
+
+import { SignalData, TowerRecommendation } from './api'
+import { Point } from './propagation'
+import { enuFrame } from '../../server/geodesy.js'
+
+export interface LatLon {
+  lat: number
+  lon: number
+}
+
+export interface Projection {
+  origin: LatLon
+  toLocal: (point: LatLon) => Point // x east, y north, meters
+  toGeographic: (point: Point) => LatLon
+}
+
+// Tangent plane at origin, from the same geodesy module the server's /api/positions uses
+export function createProjection(origin: LatLon): Projection {
+  return { origin, ...enuFrame(origin) }
+}
+
+export function geoPosition(row: { lat?: number | null, lon?: number | null }): LatLon | null {
+  const { lat, lon } = row
+  if (typeof lat !== 'number' || typeof lon !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lon)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null
+  return { lat, lon }
+}
+
+function hasLocalXY(row: { x?: number | null, y?: number | null }): boolean {
+  return typeof row.x === 'number' && Number.isFinite(row.x) && typeof row.y === 'number' && Number.isFinite(row.y)
+}
+
+// Projection centred on the mean of the points, or null when there are none
+export function projectionFor(points: LatLon[]): Projection | null {
+  if (points.length === 0) return null
+  return createProjection({
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lon: points.reduce((sum, p) => sum + p.lon, 0) / points.length,
+  })
+}
+
+// Fills x/y in meters from lat/lon. Data that already has x/y keeps its own frame,
+// the same rule the server's /api/positions follows.
+export function projectSignalData(data: SignalData[]): { data: SignalData[], projection: Projection | null } {
+  if (data.some(hasLocalXY)) return { data, projection: null }
+  const projection = projectionFor(data.map(geoPosition).filter((p): p is LatLon => p !== null))
+  if (!projection) return { data, projection: null }
+  return {
+    data: data.map(row => {
+      const geo = geoPosition(row)
+      return geo ? { ...row, ...projection.toLocal(geo) } : row
+    }),
+    projection,
+  }
+}
+
+// Towers listed by lat/lon only get x/y in the signal data's frame
+export function projectTowers(towers: TowerRecommendation[], projection: Projection | null): TowerRecommendation[] {
+  if (!projection) return towers
+  return towers.map(tower => {
+    const geo = geoPosition(tower)
+    return geo && !hasLocalXY(tower) ? { ...tower, ...projection.toLocal(geo) } : tower
+  })
+}
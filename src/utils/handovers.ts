@@ -0,0 +1,210 @@
+// Serving-cell changes in time-ordered readings: handovers, ping-pongs, dwell time per
+// cell and the signal level either side of each handover
+
+import { SignalData, toMillis } from './api'
+import { MetricKey, headlineLevel } from './metrics'
+
+export interface HandoverOptions {
+  pingPongWindowMs?: number // A→B→A with B held no longer than this is a ping-pong
+  maxGapMs?: number // a cell change across a longer recording gap is a reselection
+  levelSamples?: number // readings averaged on each side of a handover
+}
+
+export type CellChangeKind = 'handover' | 'reselection'
+
+export interface CellChange {
+  user: string | null
+  timestamp: number // ms, first reading on the new cell
+  from: string
+  to: string
+  kind: CellChangeKind
+  pingPong: boolean // set on the A→B leg when the device is back on A within the window
+  levelBefore: number | null
+  levelAfter: number | null
+  levelDelta: number | null // only when both sides report the same metric
+  metric: MetricKey | null
+}
+
+export interface CellDwell {
+  cellId: string
+  stays: number
+  totalMs: number
+  meanMs: number
+  medianMs: number
+  handoversOut: number
+  pingPongs: number
+  pingPongRate: number // share of handovers out of this cell that were ping-pongs
+}
+
+export interface HandoverAnalysis {
+  changes: CellChange[]
+  handovers: number
+  reselections: number
+  pingPongs: number
+  matrix: Record<string, Record<string, number>> // handover counts, from → to
+  cells: CellDwell[] // most handovers out first
+  meanLevelDelta: number | null
+}
+
+const DEFAULT_PING_PONG_WINDOW_MS = 10_000
+const DEFAULT_MAX_GAP_MS = 60_000
+const DEFAULT_LEVEL_SAMPLES = 3
+
+interface Reading {
+  time: number
+  cell: string
+  level: { metric: MetricKey, value: number } | null
+}
+
+// Consecutive readings on one cell with no recording gap longer than maxGapMs
+interface Stay {
+  cell: string
+  readings: Reading[]
+  start: number
+  end: number // first reading on the next cell after a handover, else the last reading here
+}
+
+function meanLevel(readings: Reading[]): { metric: MetricKey, value: number } | null {
+  const levels = readings.flatMap(r => (r.level ? [r.level] : []))
+  if (levels.length === 0) return null
+  // Average the most common metric so an inter-RAT stay doesn't mix units
+  const counts = new Map<MetricKey, number>()
+  levels.forEach(l => counts.set(l.metric, (counts.get(l.metric) ?? 0) + 1))
+  const metric = Array.from(counts).sort((a, b) => b[1] - a[1])[0][0]
+  const values = levels.filter(l => l.metric === metric).map(l => l.value)
+  return { metric, value: values.reduce((a, b) => a + b, 0) / values.length }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+// Readings are grouped by user (rows without one form a single trace) and ordered by
+// timestamp; rows missing a timestamp or cell_id are ignored
+export function analyzeHandovers(rows: SignalData[], options: HandoverOptions = {}): HandoverAnalysis {
+  const pingPongWindowMs = options.pingPongWindowMs ?? DEFAULT_PING_PONG_WINDOW_MS
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS
+  const levelSamples = Math.max(1, options.levelSamples ?? DEFAULT_LEVEL_SAMPLES)
+
+  const traces = new Map<string | null, Reading[]>()
+  rows.forEach(row => {
+    const cell = row.cell_id !== undefined && row.cell_id !== null ? String(row.cell_id).trim() : ''
+    if (!cell || typeof row.timestamp !== 'number' || !Number.isFinite(row.timestamp)) return
+    const user = row.user ? String(row.user) : null
+    if (!traces.has(user)) traces.set(user, [])
+    traces.get(user)!.push({ time: toMillis(row.timestamp), cell, level: headlineLevel(row) })
+  })
+
+  const stays: Stay[] = []
+  const changes: CellChange[] = []
+  const sides: { change: CellChange, before: Stay, after: Stay }[] = []
+
+  traces.forEach((readings, user) => {
+    readings.sort((a, b) => a.time - b.time)
+    let stay: Stay | null = null
+    let changeBefore: CellChange | null = null // the change that started the current stay
+
+    readings.forEach(reading => {
+      if (stay && reading.cell === stay.cell && reading.time - stay.end <= maxGapMs) {
+        stay.readings.push(reading)
+        stay.end = reading.time
+        return
+      }
+
+      const next: Stay = { cell: reading.cell, readings: [reading], start: reading.time, end: reading.time }
+      let change: CellChange | null = null
+      if (stay && reading.cell !== stay.cell) {
+        const kind: CellChangeKind = reading.time - stay.end > maxGapMs ? 'reselection' : 'handover'
+        // A stay ended by a handover lasts until the device is heard on the new cell
+        if (kind === 'handover') stay.end = reading.time
+        change = {
+          user,
+          timestamp: reading.time,
+          from: stay.cell,
+          to: reading.cell,
+          kind,
+          pingPong: false,
+          levelBefore: null,
+          levelAfter: null,
+          levelDelta: null,
+          metric: null,
+        }
+        changes.push(change)
+        sides.push({ change, before: stay, after: next })
+
+        if (
+          kind === 'handover' &&
+          changeBefore?.kind === 'handover' &&
+          changeBefore.from === reading.cell &&
+          reading.time - changeBefore.timestamp <= pingPongWindowMs
+        ) {
+          changeBefore.pingPong = true
+        }
+      }
+      if (stay) stays.push(stay)
+      stay = next
+      changeBefore = change
+    })
+    if (stay) stays.push(stay)
+  })
+
+  // Levels either side come from the stays around each handover, once all readings are in
+  sides.forEach(({ change, before, after }) => {
+    if (change.kind !== 'handover') return
+    const levelBefore = meanLevel(before.readings.slice(-levelSamples))
+    const levelAfter = meanLevel(after.readings.slice(0, levelSamples))
+    change.levelBefore = levelBefore?.value ?? null
+    change.levelAfter = levelAfter?.value ?? null
+    if (levelBefore && levelAfter && levelBefore.metric === levelAfter.metric) {
+      change.metric = levelBefore.metric
+      change.levelDelta = levelAfter.value - levelBefore.value
+    }
+  })
+
+  const handovers = changes.filter(c => c.kind === 'handover')
+
+  const matrix: Record<string, Record<string, number>> = {}
+  const outgoing = new Map<string, { handovers: number, pingPongs: number }>()
+  handovers.forEach(({ from, to, pingPong }) => {
+    if (!matrix[from]) matrix[from] = {}
+    matrix[from][to] = (matrix[from][to] ?? 0) + 1
+    const counts = outgoing.get(from) ?? { handovers: 0, pingPongs: 0 }
+    counts.handovers++
+    if (pingPong) counts.pingPongs++
+    outgoing.set(from, counts)
+  })
+
+  const dwellTimes = new Map<string, number[]>()
+  stays.forEach(stay => {
+    if (!dwellTimes.has(stay.cell)) dwellTimes.set(stay.cell, [])
+    dwellTimes.get(stay.cell)!.push(stay.end - stay.start)
+  })
+  const cells: CellDwell[] = Array.from(dwellTimes, ([cellId, times]) => {
+    const out = outgoing.get(cellId) ?? { handovers: 0, pingPongs: 0 }
+    const totalMs = times.reduce((a, b) => a + b, 0)
+    return {
+      cellId,
+      stays: times.length,
+      totalMs,
+      meanMs: totalMs / times.length,
+      medianMs: median(times),
+      handoversOut: out.handovers,
+      pingPongs: out.pingPongs,
+      pingPongRate: out.handovers > 0 ? out.pingPongs / out.handovers : 0,
+    }
+  }).sort((a, b) => b.handoversOut - a.handoversOut || a.cellId.localeCompare(b.cellId, undefined, { numeric: true }))
+
+  const deltas = handovers.flatMap(h => (h.levelDelta !== null ? [h.levelDelta] : []))
+
+  return {
+    changes,
+    handovers: handovers.length,
+    reselections: changes.length - handovers.length,
+    pingPongs: handovers.filter(h => h.pingPong).length,
+    matrix,
+    cells,
+    meanLevelDelta: deltas.length > 0 ? deltas.reduce((a, b) => a + b, 0) / deltas.length : null,
+  }
+}
@@ -0,0 +1,352 @@
+// Spatial interpolation of RSSI samples onto a continuous raster: inverse-distance
+// weighting and ordinary kriging with a fitted variogram, both with per-cell uncertainty
+
+import { Point } from './propagation'
+
+export type InterpolationMethod = 'idw' | 'kriging'
+export type VariogramModel = 'spherical' | 'exponential' | 'gaussian'
+
+export interface SamplePoint extends Point {
+  value: number
+}
+
+// Row 0 is the southernmost row; NaN marks cells too far from any sample
+export interface Raster {
+  x0: number
+  y0: number
+  cellSize: number
+  cols: number
+  rows: number
+  values: Float64Array
+  uncertainty: Float64Array // standard deviation, same units as the values
+}
+
+export interface VariogramBin {
+  distance: number
+  semivariance: number
+  pairs: number
+}
+
+export interface Variogram {
+  model: VariogramModel
+  nugget: number
+  sill: number  // partial sill; total sill is nugget + sill
+  range: number
+  bins: VariogramBin[]
+}
+
+export interface InterpolationOptions {
+  method?: InterpolationMethod
+  cellSize: number
+  neighbours?: number   // nearest samples used per cell
+  maxDistance?: number  // cells further than this from every sample stay empty
+  power?: number        // IDW distance exponent
+  model?: VariogramModel
+}
+
+export interface InterpolationResult {
+  raster: Raster
+  variogram: Variogram | null
+  cellSize: number // may be coarser than requested to respect MAX_CELLS
+}
+
+const DEFAULT_NEIGHBOURS = 16
+const DEFAULT_POWER = 2
+const MAX_CELLS = 20000
+const VARIOGRAM_LAGS = 12
+// Empirical variogram is O(n²) in samples; larger inputs use an evenly spaced subset
+const VARIOGRAM_SAMPLE_SIZE = 500
+// Kriging input beyond this is re-binned coarser until it fits
+const MAX_KRIGING_SAMPLES = 5000
+const RANGE_CANDIDATES = 40
+
+// Bounding box by a single pass; spreading 10⁵+ values into Math.min overflows the stack
+export function extentOf(points: Point[]): { minX: number, maxX: number, minY: number, maxY: number } {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity
+  for (const p of points) {
+    if (p.x < minX) minX = p.x
+    if (p.x > maxX) maxX = p.x
+    if (p.y < minY) minY = p.y
+    if (p.y > maxY) maxY = p.y
+  }
+  return { minX, maxX, minY, maxY }
+}
+
+// Averages samples that share a bin, so repeated readings at one spot count once
+// and the kriging system stays non-singular
+export function aggregateSamples(samples: SamplePoint[], resolution: number): SamplePoint[] {
+  const bins = new Map<string, { x: number, y: number, value: number, count: number }>()
+  samples.forEach(s => {
+    const key = `${Math.floor(s.x / resolution)},${Math.floor(s.y / resolution)}`
+    const bin = bins.get(key)
+    if (bin) {
+      bin.x += s.x
+      bin.y += s.y
+      bin.value += s.value
+      bin.count++
+    } else {
+      bins.set(key, { x: s.x, y: s.y, value: s.value, count: 1 })
+    }
+  })
+  return Array.from(bins.values()).map(b => ({ x: b.x / b.count, y: b.y / b.count, value: b.value / b.count }))
+}
+
+// Bucket index for k-nearest-neighbour queries
+class SampleIndex {
+  private buckets = new Map<string, number[]>()
+  private bucketSize: number
+
+  constructor(private samples: SamplePoint[], bucketSize: number) {
+    this.bucketSize = bucketSize
+    samples.forEach((s, idx) => {
+      const key = this.key(Math.floor(s.x / bucketSize), Math.floor(s.y / bucketSize))
+      const bucket = this.buckets.get(key)
+      if (bucket) bucket.push(idx)
+      else this.buckets.set(key, [idx])
+    })
+  }
+
+  private key(bx: number, by: number): string {
+    return `${bx},${by}`
+  }
+
+  // Indices of up to k samples within maxDistance, nearest first
+  nearest(point: Point, k: number, maxDistance: number): { index: number, distance: number }[] {
+    const bx = Math.floor(point.x / this.bucketSize)
+    const by = Math.floor(point.y / this.bucketSize)
+    const maxRing = Math.ceil(maxDistance / this.bucketSize) + 1
+    const found: { index: number, distance: number }[] = []
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue
+          this.buckets.get(this.key(bx + dx, by + dy))?.forEach(index => {
+            const s = this.samples[index]
+            const distance = Math.hypot(s.x - point.x, s.y - point.y)
+            if (distance <= maxDistance) found.push({ index, distance })
+          })
+        }
+      }
+      // Everything outside this ring is at least ring × bucketSize away
+      if (found.length >= k) {
+        found.sort((a, b) => a.distance - b.distance)
+        if (found[k - 1].distance <= ring * this.bucketSize) return found.slice(0, k)
+      }
+    }
+    return found.sort((a, b) => a.distance - b.distance).slice(0, k)
+  }
+}
+
+function variogramShape(model: VariogramModel, h: number, range: number): number {
+  if (h === 0) return 0
+  const r = h / range
+  if (model === 'spherical') return r >= 1 ? 1 : 1.5 * r - 0.5 * r * r * r
+  if (model === 'exponential') return 1 - Math.exp(-3 * r)
+  return 1 - Math.exp(-3 * r * r)
+}
+
+export function semivariance(variogram: Variogram, h: number): number {
+  if (h === 0) return 0
+  return variogram.nugget + variogram.sill * variogramShape(variogram.model, h, variogram.range)
+}
+
+function evenlySpaced<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items
+  const step = items.length / size
+  return Array.from({ length: size }, (_, i) => items[Math.floor(i * step)])
+}
+
+export function empiricalVariogram(samples: SamplePoint[], maxDistance: number, lags = VARIOGRAM_LAGS): VariogramBin[] {
+  const subset = evenlySpaced(samples, VARIOGRAM_SAMPLE_SIZE)
+  const width = maxDistance / lags
+  const sums = new Array(lags).fill(0)
+  const distances = new Array(lags).fill(0)
+  const counts = new Array(lags).fill(0)
+
+  for (let i = 0; i < subset.length; i++) {
+    for (let j = i + 1; j < subset.length; j++) {
+      const h = Math.hypot(subset[i].x - subset[j].x, subset[i].y - subset[j].y)
+      if (h === 0 || h >= maxDistance) continue
+      const lag = Math.floor(h / width)
+      sums[lag] += 0.5 * Math.pow(subset[i].value - subset[j].value, 2)
+      distances[lag] += h
+      counts[lag]++
+    }
+  }
+
+  return counts
+    .map((pairs, lag) => ({ distance: pairs ? distances[lag] / pairs : 0, semivariance: pairs ? sums[lag] / pairs : 0, pairs }))
+    .filter(bin => bin.pairs > 0)
+}
+
+// Weighted least squares: for a fixed range the model is linear in nugget and sill,
+// so each candidate range is solved exactly and the best one kept
+export function fitVariogram(samples: SamplePoint[], model: VariogramModel = 'spherical'): Variogram | null {
+  if (samples.length < 3) return null
+  const { minX, maxX, minY, maxY } = extentOf(samples)
+  const diagonal = Math.hypot(maxX - minX, maxY - minY)
+  if (diagonal === 0) return null
+
+  // Beyond half the extent too few pairs remain to trust the estimate
+  const bins = empiricalVariogram(samples, diagonal / 2)
+  if (bins.length < 2) return null
+
+  let best: Variogram | null = null
+  let bestError = Infinity
+  for (let i = 1; i <= RANGE_CANDIDATES; i++) {
+    const range = (diagonal / 2) * (i / RANGE_CANDIDATES)
+    let sw = 0, sf = 0, sff = 0, sg = 0, sfg = 0
+    bins.forEach(b => {
+      const f = variogramShape(model, b.distance, range)
+      const w = b.pairs
+      sw += w
+      sf += w * f
+      sff += w * f * f
+      sg += w * b.semivariance
+      sfg += w * f * b.semivariance
+    })
+    const det = sw * sff - sf * sf
+    let sill = det !== 0 ? (sw * sfg - sf * sg) / det : 0
+    let nugget = det !== 0 ? (sg - sill * sf) / sw : sg / sw
+    // Keep both parameters non-negative
+    if (sill < 0) {
+      sill = 0
+      nugget = sg / sw
+    }
+    if (nugget < 0) {
+      nugget = 0
+      sill = sff > 0 ? sfg / sff : 0
+    }
+
+    const error = bins.reduce((sum, b) => {
+      const predicted = nugget + sill * variogramShape(model, b.distance, range)
+      return sum + b.pairs * Math.pow(predicted - b.semivariance, 2)
+    }, 0)
+    if (error < bestError) {
+      bestError = error
+      best = { model, nugget, sill, range, bins }
+    }
+  }
+  return best
+}
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+function solve(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length
+  const a = matrix.map((row, i) => [...row, rhs[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k]
+    }
+  }
+  const x = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n]
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k]
+    x[row] = sum / a[row][row]
+  }
+  return x
+}
+
+function idwEstimate(samples: SamplePoint[], near: { index: number, distance: number }[], power: number) {
+  if (near[0].distance === 0) return { value: samples[near[0].index].value, uncertainty: 0 }
+  let sw = 0, sv = 0
+  near.forEach(n => {
+    const w = 1 / Math.pow(n.distance, power)
+    sw += w
+    sv += w * samples[n.index].value
+  })
+  const value = sv / sw
+  // Weighted spread of the neighbours around the estimate
+  const variance = near.reduce((sum, n) => sum + (1 / Math.pow(n.distance, power)) * Math.pow(samples[n.index].value - value, 2), 0) / sw
+  return { value, uncertainty: Math.sqrt(variance) }
+}
+
+function krigingEstimate(samples: SamplePoint[], near: { index: number, distance: number }[], variogram: Variogram) {
+  const n = near.length
+  const neighbours = near.map(nb => samples[nb.index])
+  const matrix: number[][] = []
+  for (let i = 0; i < n; i++) {
+    const row: number[] = []
+    for (let j = 0; j < n; j++) {
+      row.push(semivariance(variogram, Math.hypot(neighbours[i].x - neighbours[j].x, neighbours[i].y - neighbours[j].y)))
+    }
+    row.push(1)
+    matrix.push(row)
+  }
+  matrix.push([...new Array(n).fill(1), 0])
+  const rhs = [...near.map(nb => semivariance(variogram, nb.distance)), 1]
+
+  const weights = solve(matrix, rhs)
+  if (!weights) return null
+  let value = 0
+  let variance = weights[n] // Lagrange multiplier
+  for (let i = 0; i < n; i++) {
+    value += weights[i] * neighbours[i].value
+    variance += weights[i] * rhs[i]
+  }
+  return { value, uncertainty: Math.sqrt(Math.max(0, variance)) }
+}
+
+export function interpolate(samples: SamplePoint[], options: InterpolationOptions): InterpolationResult | null {
+  if (samples.length === 0 || !(options.cellSize > 0)) return null
+  const method = options.method ?? 'idw'
+  const neighbours = options.neighbours ?? DEFAULT_NEIGHBOURS
+  const power = options.power ?? DEFAULT_POWER
+
+  const { minX, maxX, minY, maxY } = extentOf(samples)
+
+  let cellSize = options.cellSize
+  const cellsFor = (size: number) => (Math.floor((maxX - minX) / size) + 1) * (Math.floor((maxY - minY) / size) + 1)
+  while (cellsFor(cellSize) > MAX_CELLS) cellSize *= 1.5
+
+  let resolution = cellSize / 2
+  let points = aggregateSamples(samples, resolution)
+  // Every kriged cell solves a system over its neighbours, so keep the input bounded
+  while (method === 'kriging' && points.length > MAX_KRIGING_SAMPLES) {
+    resolution *= 1.5
+    points = aggregateSamples(samples, resolution)
+  }
+  const diagonal = Math.hypot(maxX - minX, maxY - minY)
+  const maxDistance = options.maxDistance ?? Math.max(cellSize * 3, diagonal * 0.1)
+  const variogram = method === 'kriging' ? fitVariogram(points, options.model) : null
+
+  const x0 = Math.floor(minX / cellSize) * cellSize
+  const y0 = Math.floor(minY / cellSize) * cellSize
+  const cols = Math.floor((maxX - x0) / cellSize) + 1
+  const rows = Math.floor((maxY - y0) / cellSize) + 1
+  const values = new Float64Array(cols * rows).fill(NaN)
+  const uncertainty = new Float64Array(cols * rows).fill(NaN)
+  const index = new SampleIndex(points, Math.max(cellSize, maxDistance / 4))
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const centre = { x: x0 + (col + 0.5) * cellSize, y: y0 + (row + 0.5) * cellSize }
+      const near = index.nearest(centre, neighbours, maxDistance)
+      if (near.length === 0) continue
+      // Kriging falls back to IDW when the variogram is flat or the system is singular
+      const estimate = (variogram && variogram.sill > 0 && near.length > 1 && krigingEstimate(points, near, variogram))
+        || idwEstimate(points, near, power)
+      values[row * cols + col] = estimate.value
+      uncertainty[row * cols + col] = estimate.uncertainty
+    }
+  }
+
+  return { raster: { x0, y0, cellSize, cols, rows, values, uncertainty }, variogram, cellSize }
+}
+
+export function rasterValueAt(raster: Raster, point: Point): { value: number, uncertainty: number } | null {
+  const col = Math.floor((point.x - raster.x0) / raster.cellSize)
+  const row = Math.floor((point.y - raster.y0) / raster.cellSize)
+  if (col < 0 || row < 0 || col >= raster.cols || row >= raster.rows) return null
+  const value = raster.values[row * raster.cols + col]
+  return Number.isNaN(value) ? null : { value, uncertainty: raster.uncertainty[row * raster.cols + col] }
+}
@@ -0,0 +1,113 @@
+// Technology-specific signal metrics and the quality bands each is classified into
+
+import {
+  METRICS,
+  MetricKey,
+  STANDARD_THRESHOLDS,
+  ThresholdKey,
+  Thresholds,
+  headlineLevel,
+} from '../../server/metrics.js'
+import { SignalData } from './api'
+
+// The metric tables and row classification are shared with the server
+export type { MetricDefinition, MetricKey, Technology, ThresholdKey, Thresholds } from '../../server/metrics.js'
+export { HEADLINE_METRIC, METRICS, STANDARD_THRESHOLDS, headlineLevel, metricValue, technologyOf } from '../../server/metrics.js'
+
+export type Quality = 'excellent' | 'good' | 'fair' | 'poor'
+
+export const QUALITIES: Quality[] = ['excellent', 'good', 'fair', 'poor']
+
+// Named threshold tables, managed on the Settings page and stored by the server
+export interface QualityProfile {
+  id: string
+  name: string
+  description: string
+  builtIn: boolean
+  thresholds: Record<ThresholdKey, Thresholds>
+  updatedAt?: string
+}
+
+export const THRESHOLD_KEYS: ThresholdKey[] = [...(Object.keys(METRICS) as MetricKey[]), 'wifi']
+
+export function thresholdLabel(key: ThresholdKey): string {
+  return key === 'wifi' ? 'WiFi RSSI' : METRICS[key].label
+}
+
+export function thresholdUnit(key: ThresholdKey): 'dBm' | 'dB' {
+  return key === 'wifi' ? 'dBm' : METRICS[key].unit
+}
+
+// The server's Standard profile; used until the profiles have loaded
+export const STANDARD_PROFILE: QualityProfile = {
+  id: 'standard',
+  name: 'Standard',
+  description: "Bands for each technology's own metrics; -70/-85/-100 dBm for RSSI",
+  builtIn: true,
+  thresholds: STANDARD_THRESHOLDS,
+}
+
+export const QUALITY_COLORS: Record<Quality, string> = {
+  excellent: '#10b981',
+  good: '#3b82f6',
+  fair: '#f59e0b',
+  poor: '#ef4444',
+}
+
+// Tailwind classes for quality bars, badges and values
+export const QUALITY_CLASSES: Record<Quality, { bar: string, badge: string, text: string }> = {
+  excellent: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-800', text: 'text-green-600' },
+  good: { bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800', text: 'text-blue-600' },
+  fair: { bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-800', text: 'text-yellow-600' },
+  poor: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-800', text: 'text-red-600' },
+}
+
+export function classify(value: number, key: ThresholdKey, profile: QualityProfile): Quality {
+  const { excellent, good, fair } = profile.thresholds[key]
+  if (value >= excellent) return 'excellent'
+  if (value >= good) return 'good'
+  if (value >= fair) return 'fair'
+  return 'poor'
+}
+
+export function qualityOf(row: SignalData, profile: QualityProfile): Quality | null {
+  const level = headlineLevel(row)
+  return level ? classify(level.value, level.metric, profile) : null
+}
+
+export function qualityColor(value: number, key: ThresholdKey, profile: QualityProfile): string {
+  return QUALITY_COLORS[classify(value, key, profile)]
+}
+
+export function countByQuality(rows: SignalData[], profile: QualityProfile): Record<Quality, number> {
+  const counts: Record<Quality, number> = { excellent: 0, good: 0, fair: 0, poor: 0 }
+  rows.forEach(row => {
+    const quality = qualityOf(row, profile)
+    if (quality) counts[quality]++
+  })
+  return counts
+}
+
+// Headline metrics present in the rows, most common first
+export function headlineMetrics(rows: SignalData[]): MetricKey[] {
+  const counts = new Map<MetricKey, number>()
+  rows.forEach(row => {
+    const level = headlineLevel(row)
+    if (level) counts.set(level.metric, (counts.get(level.metric) ?? 0) + 1)
+  })
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([metric]) => metric)
+}
+
+// "Good (-70 to -85 dBm)" for one metric; just "Good" when rows mix metrics
+export function qualityLabel(quality: Quality, key: ThresholdKey | null, profile: QualityProfile): string {
+  const name = quality.charAt(0).toUpperCase() + quality.slice(1)
+  if (!key) return name
+  const thresholds = profile.thresholds[key]
+  const unit = thresholdUnit(key)
+  switch (quality) {
+    case 'excellent': return `${name} (≥${thresholds.excellent} ${unit})`
+    case 'good': return `${name} (${thresholds.excellent} to ${thresholds.good} ${unit})`
+    case 'fair': return `${name} (${thresholds.good} to ${thresholds.fair} ${unit})`
+    case 'poor': return `${name} (<${thresholds.fair} ${unit})`
+  }
+}
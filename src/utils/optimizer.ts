@@ -0,0 +1,246 @@
+// Budget-constrained tower placement by simulated annealing, producing a coverage/cost Pareto front
+
+import { PropagationParams, Point, predictRssi, distanceMeters } from './propagation'
+import { mulberry32 } from './random'
+
+export type Polygon = Point[]
+
+export interface DemandPoint extends Point {
+  weight: number // weak measurements in this cell
+}
+
+export interface OptimizerConstraints {
+  maxTowers: number
+  budget: number
+  siteCost: number
+  minSiteDistance: number // meters
+  exclusionZones: Polygon[]
+}
+
+export interface OptimizerInput {
+  demand: DemandPoint[]
+  candidates: Point[]
+  params: PropagationParams
+  requiredRssi: number
+  constraints: OptimizerConstraints
+  iterations?: number
+  seed?: number
+}
+
+export interface PlacementSolution {
+  towers: Point[]
+  cost: number
+  coveredWeight: number
+  coveragePercent: number
+  pareto: boolean
+}
+
+export type OptimizerMessage =
+  | { type: 'progress', done: number, total: number }
+  | { type: 'result', solutions: PlacementSolution[] }
+  | { type: 'error', message: string }
+
+const MAX_CANDIDATES = 600
+const DEFAULT_ITERATIONS = 3000
+const START_TEMPERATURE = 0.05
+const END_TEMPERATURE = 1e-4
+
+// Ray casting point-in-polygon test
+export function pointInPolygon(point: Point, polygon: Polygon): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Parses one polygon per line as "x,y x,y x,y ..."; lines with fewer than 3 vertices are dropped
+export function parseExclusionZones(text: string): Polygon[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().split(/\s+/)
+      .map(pair => pair.split(',').map(Number))
+      .filter(pair => pair.length === 2 && pair.every(v => Number.isFinite(v)))
+      .map(([x, y]) => ({ x, y })))
+    .filter(polygon => polygon.length >= 3)
+}
+
+function allowedCandidates(input: OptimizerInput): Point[] {
+  const allowed = input.candidates.filter(c =>
+    !input.constraints.exclusionZones.some(zone => pointInPolygon(c, zone))
+  )
+  if (allowed.length <= MAX_CANDIDATES) return allowed
+  const stride = allowed.length / MAX_CANDIDATES
+  return Array.from({ length: MAX_CANDIDATES }, (_, i) => allowed[Math.floor(i * stride)])
+}
+
+class CoverageState {
+  counts: Int32Array
+  covered = 0
+
+  constructor(private coverage: Int32Array[], private weights: number[]) {
+    this.counts = new Int32Array(weights.length)
+  }
+
+  gainOfAdding(site: number): number {
+    let gain = 0
+    this.coverage[site].forEach(d => {
+      if (this.counts[d] === 0) gain += this.weights[d]
+    })
+    return gain
+  }
+
+  add(site: number) {
+    this.coverage[site].forEach(d => {
+      if (this.counts[d] === 0) this.covered += this.weights[d]
+      this.counts[d]++
+    })
+  }
+
+  remove(site: number) {
+    this.coverage[site].forEach(d => {
+      this.counts[d]--
+      if (this.counts[d] === 0) this.covered -= this.weights[d]
+    })
+  }
+}
+
+export function optimizePlacement(
+  input: OptimizerInput,
+  onProgress?: (done: number, total: number) => void
+): PlacementSolution[] {
+  const { demand, params, requiredRssi, constraints } = input
+  const candidates = allowedCandidates(input)
+  const weights = demand.map(d => d.weight)
+  const totalWeight = weights.reduce((a, b) => a + b, 0)
+  const affordable = constraints.siteCost > 0 ? Math.floor(constraints.budget / constraints.siteCost) : Infinity
+  const maxTowers = Math.min(constraints.maxTowers, affordable, candidates.length)
+  if (maxTowers < 1 || totalWeight === 0) return []
+
+  // Demand indices each candidate would bring above the required level
+  const coverage = candidates.map(site => {
+    const covered: number[] = []
+    demand.forEach((d, idx) => {
+      if (predictRssi(site, d, params) >= requiredRssi) covered.push(idx)
+    })
+    return Int32Array.from(covered)
+  })
+
+  const tooClose = (a: number, b: number) =>
+    distanceMeters(candidates[a], candidates[b], params) < constraints.minSiteDistance
+  const fits = (site: number, chosen: number[], skip = -1) =>
+    chosen.every((other, idx) => idx === skip || (other !== site && !tooClose(site, other)))
+
+  const random = mulberry32(input.seed ?? 1)
+  const iterations = input.iterations ?? DEFAULT_ITERATIONS
+  const solutions: PlacementSolution[] = []
+
+  for (let k = 1; k <= maxTowers; k++) {
+    // Greedy start, then anneal by swapping one site at a time
+    const state = new CoverageState(coverage, weights)
+    const chosen: number[] = []
+    while (chosen.length < k) {
+      let best = -1
+      let bestGain = -1
+      for (let c = 0; c < candidates.length; c++) {
+        if (!fits(c, chosen)) continue
+        const gain = state.gainOfAdding(c)
+        if (gain > bestGain) {
+          bestGain = gain
+          best = c
+        }
+      }
+      if (best < 0) break
+      chosen.push(best)
+      state.add(best)
+    }
+    if (chosen.length < k) break
+
+    let bestSites = [...chosen]
+    let bestCovered = state.covered
+    for (let iter = 0; iter < iterations; iter++) {
+      const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, iter / iterations)
+      const slot = Math.floor(random() * chosen.length)
+      const next = Math.floor(random() * candidates.length)
+      if (!fits(next, chosen, slot)) continue
+
+      const before = state.covered
+      const previous = chosen[slot]
+      state.remove(previous)
+      state.add(next)
+      const delta = (state.covered - before) / totalWeight
+      if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+        chosen[slot] = next
+        if (state.covered > bestCovered) {
+          bestCovered = state.covered
+          bestSites = [...chosen]
+        }
+      } else {
+        state.remove(next)
+        state.add(previous)
+      }
+    }
+
+    solutions.push({
+      towers: bestSites.map(idx => candidates[idx]),
+      cost: k * constraints.siteCost,
+      coveredWeight: bestCovered,
+      coveragePercent: (bestCovered / totalWeight) * 100,
+      pareto: false,
+    })
+    onProgress?.(k, maxTowers)
+  }
+
+  // Cost rises with every extra tower, so a solution is non-dominated when it beats all cheaper ones
+  let bestSoFar = -1
+  solutions.forEach(solution => {
+    if (solution.coveredWeight > bestSoFar) {
+      solution.pareto = true
+      bestSoFar = solution.coveredWeight
+    }
+  })
+
+  return solutions
+}
+
+// Runs the optimizer off the main thread; call cancel() to terminate the worker.
+// The promise always settles: a cancelled run resolves to null.
+export function runOptimizerInWorker(
+  input: OptimizerInput,
+  onProgress: (done: number, total: number) => void
+): { promise: Promise<PlacementSolution[] | null>, cancel: () => void } {
+  const worker = new Worker(new URL('../workers/optimizer.worker.ts', import.meta.url), { type: 'module' })
+  let settle: (solutions: PlacementSolution[] | null) => void = () => {}
+  const promise = new Promise<PlacementSolution[] | null>((resolve, reject) => {
+    settle = resolve
+    worker.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress(message.done, message.total)
+      } else if (message.type === 'result') {
+        worker.terminate()
+        resolve(message.solutions)
+      } else {
+        worker.terminate()
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+  })
+  worker.postMessage(input)
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate()
+      settle(null)
+    },
+  }
+}
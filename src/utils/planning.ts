@@ -0,0 +1,189 @@
+// Coverage-gap analysis and tower placement shared by the planning pages
+
+import { SignalData } from './api'
+import { Thresholds } from './metrics'
+import { PropagationParams, Point, predictGrid, predictRssi, fadeMargin } from './propagation'
+import { calibrate, applyCalibration } from './calibration'
+import { kmeans } from './clustering'
+
+export type Priority = 'high' | 'medium' | 'low'
+
+// Placement strategies that run synchronously; the budget optimizer lives in ./optimizer
+export type HeuristicAlgorithm = 'kmeans' | 'coverage' | 'density'
+
+export interface GridCell {
+  x: number
+  y: number
+  avgRssi: number
+  count: number
+  weakCount: number
+}
+
+export interface CoverageGap {
+  x: number
+  y: number
+  avgRssi: number
+  count: number
+  priority: Priority
+}
+
+export interface TowerSite {
+  id: number
+  x: number
+  y: number
+  priority: Priority
+}
+
+export interface PlannedTower extends TowerSite {
+  estimatedCoverage: number // % of weak measurements this tower alone brings into coverage
+}
+
+export interface PlanOptions {
+  algorithm: HeuristicAlgorithm
+  towerCount: number
+  coverageThreshold: number
+  thresholds: Thresholds    // the active profile's RSSI bands, which set gap priority
+  propagation: PropagationParams
+  useCalibration: boolean
+}
+
+export const GRID_SIZE = 2.0
+
+const PRIORITY_ORDER: Record<Priority, number> = { high: 3, medium: 2, low: 1 }
+
+// Bin located measurements into grid cells
+export function buildCoverageGrid(data: SignalData[], coverageThreshold: number): GridCell[] {
+  const grid: Map<string, GridCell> = new Map()
+
+  data.forEach(d => {
+    if (d.x === undefined || d.y === undefined || d.rssi === undefined || d.rssi >= 0) return
+    const gridX = Math.floor(d.x / GRID_SIZE) * GRID_SIZE
+    const gridY = Math.floor(d.y / GRID_SIZE) * GRID_SIZE
+    const gridKey = `${gridX},${gridY}`
+
+    if (!grid.has(gridKey)) {
+      grid.set(gridKey, { x: gridX, y: gridY, avgRssi: 0, count: 0, weakCount: 0 })
+    }
+    const cell = grid.get(gridKey)!
+    cell.avgRssi += d.rssi
+    cell.count++
+    if (d.rssi < coverageThreshold) cell.weakCount++
+  })
+
+  return Array.from(grid.values()).map(cell => ({ ...cell, avgRssi: cell.avgRssi / cell.count }))
+}
+
+// Cells whose average falls below the threshold, busiest first. A gap the profile rates
+// poor is high priority, one it rates fair is medium, anything better is low.
+export function findCoverageGaps(cells: GridCell[], coverageThreshold: number, thresholds: Thresholds): CoverageGap[] {
+  const gaps: CoverageGap[] = cells
+    .filter(cell => cell.avgRssi < coverageThreshold)
+    .map(cell => ({
+      x: cell.x,
+      y: cell.y,
+      avgRssi: cell.avgRssi,
+      count: cell.count,
+      priority: cell.avgRssi < thresholds.fair ? 'high' : cell.avgRssi < thresholds.good ? 'medium' : 'low'
+    }))
+
+  return gaps.sort((a, b) => b.count - a.count)
+}
+
+// Gaps weighted by how many measurements they hold and how far below the threshold they sit
+export function gapWeight(gap: CoverageGap, coverageThreshold: number): number {
+  return gap.count * Math.max(1, coverageThreshold - gap.avgRssi)
+}
+
+// Priority of the gap a tower sits on, if any
+export function priorityAt(point: Point, gaps: CoverageGap[]): Priority {
+  return gaps.find(g => Math.abs(g.x - point.x) < 1 && Math.abs(g.y - point.y) < 1)?.priority || 'medium'
+}
+
+// Weak measurements a set of towers would lift to the required level
+export function countNewlyCovered(
+  towers: Point[],
+  cells: GridCell[],
+  params: PropagationParams,
+  requiredRssi: number
+): number {
+  if (towers.length === 0) return 0
+  const predicted = predictGrid(towers, cells, params)
+  return cells.reduce((sum, cell, idx) => sum + (predicted[idx] >= requiredRssi ? cell.weakCount : 0), 0)
+}
+
+export function placeTowers(
+  algorithm: HeuristicAlgorithm,
+  gaps: CoverageGap[],
+  towerCount: number,
+  coverageThreshold: number,
+  params: PropagationParams,
+  requiredRssi: number
+): TowerSite[] {
+  if (gaps.length === 0) return []
+
+  if (algorithm === 'kmeans') {
+    const weighted = gaps.map(gap => ({ x: gap.x, y: gap.y, weight: gapWeight(gap, coverageThreshold) }))
+    const result = kmeans(weighted, towerCount)
+
+    // A cluster takes the priority of its heaviest gap
+    const heaviest: number[] = result.centroids.map(() => -1)
+    gaps.forEach((_, idx) => {
+      const cluster = result.assignments[idx]
+      const current = heaviest[cluster]
+      if (current < 0 || weighted[idx].weight > weighted[current].weight) heaviest[cluster] = idx
+    })
+
+    return result.centroids.map((centroid, idx) => ({
+      id: idx + 1,
+      x: centroid.x,
+      y: centroid.y,
+      priority: heaviest[idx] >= 0 ? gaps[heaviest[idx]].priority : 'medium',
+    }))
+  }
+
+  if (algorithm === 'density') {
+    // Place towers in highest density weak areas
+    return [...gaps]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, towerCount)
+      .map((gap, idx) => ({ id: idx + 1, x: gap.x, y: gap.y, priority: gap.priority }))
+  }
+
+  // Coverage-based - greedily place towers on gaps the model says are still uncovered
+  const towers: TowerSite[] = []
+  const sortedGaps = [...gaps].sort((a, b) => PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority])
+
+  for (const gap of sortedGaps) {
+    if (towers.length >= towerCount) break
+    const covered = towers.some(tower => predictRssi(tower, gap, params) >= requiredRssi)
+    if (!covered) {
+      towers.push({ id: towers.length + 1, x: gap.x, y: gap.y, priority: gap.priority })
+    }
+  }
+
+  return towers
+}
+
+export function withEstimatedCoverage(
+  sites: TowerSite[],
+  cells: GridCell[],
+  params: PropagationParams,
+  requiredRssi: number
+): PlannedTower[] {
+  const totalWeak = cells.reduce((sum, cell) => sum + cell.weakCount, 0)
+  return sites.map(site => ({
+    ...site,
+    estimatedCoverage: totalWeak > 0 ? (countNewlyCovered([site], cells, params, requiredRssi) / totalWeak) * 100 : 0
+  }))
+}
+
+// Full planning pipeline with one set of options, for pages that only need the result
+export function planNetwork(data: SignalData[], options: PlanOptions): PlannedTower[] {
+  const { algorithm, towerCount, coverageThreshold, thresholds, propagation, useCalibration } = options
+  const cells = buildCoverageGrid(data, coverageThreshold)
+  const gaps = findCoverageGaps(cells, coverageThreshold, thresholds)
+  const params = useCalibration ? applyCalibration(propagation, calibrate(data, propagation)) : propagation
+  const requiredRssi = coverageThreshold + fadeMargin(params)
+  const sites = placeTowers(algorithm, gaps, towerCount, coverageThreshold, params, requiredRssi)
+  return withEstimatedCoverage(sites, cells, params, requiredRssi)
+}
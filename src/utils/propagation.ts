@@ -0,0 +1,158 @@
+// Radio propagation models used to predict received signal levels from a tower
+
+export type PropagationModel = 'free-space' | 'log-distance' | 'okumura-hata' | 'cost231'
+
+export type Environment = 'urban' | 'suburban' | 'rural'
+
+export interface PropagationParams {
+  model: PropagationModel
+  txPowerDbm: number        // EIRP at the antenna
+  antennaHeight: number     // base station height (m)
+  mobileHeight: number      // handset height (m)
+  frequencyMhz: number
+  pathLossExponent: number  // used by the log-distance model
+  referenceDistance: number // d0 for the log-distance model (m)
+  environment: Environment
+  metersPerUnit: number     // scale of the data's x/y coordinates
+  shadowingSigma: number    // log-normal shadowing std dev (dB)
+  reliability: number       // target probability a covered location clears the threshold
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export const PROPAGATION_MODELS: { value: PropagationModel; label: string; description: string }[] = [
+  { value: 'free-space', label: 'Free Space (Friis)', description: 'Line-of-sight loss, no obstructions' },
+  { value: 'log-distance', label: 'Log-Distance', description: 'Free space to d0, then 10·n·log(d/d0)' },
+  { value: 'okumura-hata', label: 'Okumura-Hata', description: 'Empirical macro-cell model, 150–1500 MHz' },
+  { value: 'cost231', label: 'COST-231 Hata', description: 'Hata extension for 1500–2000 MHz' },
+]
+
+export const DEFAULT_PROPAGATION: PropagationParams = {
+  model: 'log-distance',
+  txPowerDbm: 43,
+  antennaHeight: 30,
+  mobileHeight: 1.5,
+  frequencyMhz: 1800,
+  pathLossExponent: 3.5,
+  referenceDistance: 1,
+  environment: 'urban',
+  metersPerUnit: 10,
+  shadowingSigma: 0,
+  reliability: 0.5,
+}
+
+// Hata-family formulas are fitted for 1–20 km; closer than this they diverge
+const HATA_MIN_DISTANCE_M = 20
+const MIN_DISTANCE_M = 1
+
+export function freeSpacePathLoss(distanceM: number, frequencyMhz: number): number {
+  const dKm = Math.max(distanceM, MIN_DISTANCE_M) / 1000
+  return 20 * Math.log10(dKm) + 20 * Math.log10(frequencyMhz) + 32.44
+}
+
+// Mobile antenna correction factor a(hm)
+function mobileCorrection(params: PropagationParams): number {
+  const { frequencyMhz: f, mobileHeight: hm, environment } = params
+  if (environment === 'urban') {
+    return f >= 300
+      ? 3.2 * Math.pow(Math.log10(11.75 * hm), 2) - 4.97
+      : 8.29 * Math.pow(Math.log10(1.54 * hm), 2) - 1.1
+  }
+  return (1.1 * Math.log10(f) - 0.7) * hm - (1.56 * Math.log10(f) - 0.8)
+}
+
+function hataPathLoss(distanceM: number, params: PropagationParams): number {
+  const { frequencyMhz: f, antennaHeight: hb, environment } = params
+  const dKm = Math.max(distanceM, HATA_MIN_DISTANCE_M) / 1000
+  const urban =
+    69.55 + 26.16 * Math.log10(f) - 13.82 * Math.log10(hb) - mobileCorrection(params) +
+    (44.9 - 6.55 * Math.log10(hb)) * Math.log10(dKm)
+
+  if (environment === 'suburban') {
+    return urban - 2 * Math.pow(Math.log10(f / 28), 2) - 5.4
+  }
+  if (environment === 'rural') {
+    return urban - 4.78 * Math.pow(Math.log10(f), 2) + 18.33 * Math.log10(f) - 40.94
+  }
+  return urban
+}
+
+function cost231PathLoss(distanceM: number, params: PropagationParams): number {
+  const { frequencyMhz: f, antennaHeight: hb, environment } = params
+  const dKm = Math.max(distanceM, HATA_MIN_DISTANCE_M) / 1000
+  const cm = environment === 'urban' ? 3 : 0
+  return (
+    46.3 + 33.9 * Math.log10(f) - 13.82 * Math.log10(hb) - mobileCorrection(params) +
+    (44.9 - 6.55 * Math.log10(hb)) * Math.log10(dKm) + cm
+  )
+}
+
+export function pathLoss(distanceM: number, params: PropagationParams): number {
+  switch (params.model) {
+    case 'free-space':
+      return freeSpacePathLoss(distanceM, params.frequencyMhz)
+    case 'log-distance': {
+      const d0 = Math.max(params.referenceDistance, MIN_DISTANCE_M)
+      const d = Math.max(distanceM, d0)
+      return freeSpacePathLoss(d0, params.frequencyMhz) + 10 * params.pathLossExponent * Math.log10(d / d0)
+    }
+    case 'okumura-hata':
+      return hataPathLoss(distanceM, params)
+    case 'cost231':
+      return cost231PathLoss(distanceM, params)
+  }
+}
+
+export function distanceMeters(a: Point, b: Point, params: PropagationParams): number {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2)) * params.metersPerUnit
+}
+
+export function predictRssi(tower: Point, point: Point, params: PropagationParams): number {
+  return params.txPowerDbm - pathLoss(distanceMeters(tower, point, params), params)
+}
+
+// Best-server RSSI at each cell, i.e. the strongest prediction over all towers
+export function predictGrid(towers: Point[], cells: Point[], params: PropagationParams): number[] {
+  return cells.map(cell => {
+    let best = -Infinity
+    towers.forEach(tower => {
+      const rssi = predictRssi(tower, cell, params)
+      if (rssi > best) best = rssi
+    })
+    return best
+  })
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const pLow = 0.02425
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p)
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// Extra dB above the threshold a median prediction needs to reach the target reliability
+export function fadeMargin(params: PropagationParams): number {
+  if (params.shadowingSigma <= 0) return 0
+  return Math.max(0, normalQuantile(params.reliability)) * params.shadowingSigma
+}
@@ -0,0 +1,150 @@
+// Indoor mapping sessions: IndexedDB persistence plus validation of exported JSON files
+
+import { SignalData } from './api'
+
+export interface Measurement {
+  id: string
+  x: number
+  y: number
+  rssi: number
+  timestamp: number
+  room?: string
+  rssiSimulated?: boolean
+  anchor: boolean // placed by a survey tap rather than estimated
+}
+
+export interface IndoorSession {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  measurements: Measurement[]
+}
+
+export type SessionSummary = Omit<IndoorSession, 'measurements'> & { measurementCount: number }
+
+// Written into every export; files without a version predate it and use the same fields
+export const EXPORT_VERSION = 1
+
+const DB_NAME = 'cellplan'
+const DB_VERSION = 1
+const STORE = 'indoorSessions'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error ?? new Error('Could not open session storage'))
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Session storage request failed'))
+  })
+}
+
+export function newSession(name: string, measurements: Measurement[] = []): IndoorSession {
+  const now = Date.now()
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    measurements,
+  }
+}
+
+// Most recently updated first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const sessions = await withStore<IndoorSession[]>('readonly', store => store.getAll())
+  return sessions
+    .map(({ measurements, ...session }) => ({ ...session, measurementCount: measurements.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getSession(id: string): Promise<IndoorSession | null> {
+  return (await withStore<IndoorSession | undefined>('readonly', store => store.get(id))) ?? null
+}
+
+export async function saveSession(session: IndoorSession): Promise<void> {
+  await withStore('readwrite', store => store.put({ ...session, updatedAt: Date.now() }))
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+function isMeasurement(value: any): boolean {
+  return value !== null && typeof value === 'object'
+    && typeof value.id === 'string'
+    && ['x', 'y', 'rssi', 'timestamp'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key]))
+    && (value.room === undefined || typeof value.room === 'string')
+    && (value.rssiSimulated === undefined || typeof value.rssiSimulated === 'boolean')
+    && (value.anchor === undefined || typeof value.anchor === 'boolean')
+}
+
+// Parses an exported session file, throwing with the reason it can't be imported
+export function parseSessionExport(text: string): { name: string | null, measurements: Measurement[] } {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.measurements)) {
+    throw new Error('File is not an indoor mapper export')
+  }
+  if (data.version !== undefined && data.version !== EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${data.version}; this version reads version ${EXPORT_VERSION}`)
+  }
+  const invalid = data.measurements.findIndex((m: any) => !isMeasurement(m))
+  if (invalid !== -1) {
+    throw new Error(`Measurement ${invalid + 1} is missing fields or has the wrong types`)
+  }
+  return {
+    name: typeof data.name === 'string' ? data.name : null,
+    measurements: data.measurements.map((m: any) => ({ ...m, anchor: m.anchor ?? false })),
+  }
+}
+
+// Adds imported measurements that aren't already present, keeping time order
+export function mergeMeasurements(existing: Measurement[], incoming: Measurement[]): { measurements: Measurement[], added: number } {
+  const ids = new Set(existing.map(m => m.id))
+  const fresh = incoming.filter(m => !ids.has(m.id))
+  return {
+    measurements: [...existing, ...fresh].sort((a, b) => a.timestamp - b.timestamp),
+    added: fresh.length,
+  }
+}
+
+// One SignalData row per measurement so the analysis pages can read an uploaded
+// survey; the session name stands in for the user
+export function toSignalData(name: string, measurements: Measurement[]): SignalData[] {
+  return measurements.map(m => ({
+    timestamp: m.timestamp,
+    x: m.x,
+    y: m.y,
+    rssi: m.rssi,
+    room: m.room ?? null,
+    user: name,
+    anchor: m.anchor,
+    rssi_simulated: m.rssiSimulated ?? false,
+  }))
+}
@@ -0,0 +1,359 @@
+// Significance tests for comparing signal levels between groups (body positions, cells):
+// one-way ANOVA and Kruskal-Wallis across all groups, pairwise Welch t and Mann-Whitney U
+// tests with multiple-comparison correction, and t confidence intervals on each mean
+
+export type TestMethod = 'parametric' | 'rank' // ANOVA + Welch t, or Kruskal-Wallis + Mann-Whitney U
+export type Correction = 'holm' | 'bonferroni'
+
+export interface GroupSummary {
+  name: string
+  n: number
+  mean: number
+  std: number // sample standard deviation
+  ciLow: number
+  ciHigh: number
+}
+
+export interface OmnibusResult {
+  test: 'anova' | 'kruskal-wallis'
+  statistic: number // F or H
+  df: [number, number] | number // (between, within) for F, k - 1 for H
+  pValue: number
+}
+
+export interface PairwiseResult {
+  a: string
+  b: string
+  meanDifference: number // mean(a) - mean(b)
+  ciLow: number // Welch interval on the difference
+  ciHigh: number
+  statistic: number // t or z
+  pValue: number
+  adjustedPValue: number
+  significant: boolean
+}
+
+export interface GroupComparison {
+  method: TestMethod
+  correction: Correction
+  alpha: number
+  groups: GroupSummary[]
+  omnibus: OmnibusResult | null // null with fewer than two usable groups
+  pairs: PairwiseResult[] // smallest adjusted p first
+}
+
+export interface CompareOptions {
+  method?: TestMethod
+  correction?: Correction
+  alpha?: number
+  minGroupSize?: number // smaller groups are left out of every test
+}
+
+const DEFAULT_ALPHA = 0.05
+const DEFAULT_MIN_GROUP_SIZE = 3
+const MAX_ITERATIONS = 300
+const EPSILON = 3e-14
+
+// ---------------------------------------------------------------------------
+// Special functions
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+]
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  const z = x - 1
+  let sum = 0.99999999999980993
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1)
+  })
+  const t = z + LANCZOS.length - 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let h = d
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    h *= d * c
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return h
+}
+
+// I_x(a, b)
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b
+}
+
+// Q(a, x) = 1 - P(a, x), the upper regularized gamma function
+function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1
+  const logFront = -x + a * Math.log(x) - logGamma(a)
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break
+    }
+    return 1 - sum * Math.exp(logFront)
+  }
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let n = 1; n <= MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return Math.exp(logFront) * h
+}
+
+// ---------------------------------------------------------------------------
+// Distribution tails
+
+// P(F > f) for F(d1, d2)
+export function fSurvival(f: number, d1: number, d2: number): number {
+  if (!(f > 0)) return 1
+  return regularizedBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2)
+}
+
+// P(|T| > |t|) for Student's t with df degrees of freedom
+export function tTwoTailed(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5)
+}
+
+// P(X > x) for chi-square with k degrees of freedom
+export function chiSquareSurvival(x: number, k: number): number {
+  return regularizedGammaQ(k / 2, x / 2)
+}
+
+// P(|Z| > |z|) for the standard normal
+export function normalTwoTailed(z: number): number {
+  return regularizedGammaQ(0.5, (z * z) / 2)
+}
+
+// t such that P(|T| > t) = p, by bisection on the tail
+export function tCritical(p: number, df: number): number {
+  let low = 0
+  let high = 1
+  while (tTwoTailed(high, df) > p && high < 1e6) high *= 2
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (tTwoTailed(mid, df) > p) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+// ---------------------------------------------------------------------------
+// Descriptive statistics
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length
+}
+
+function sampleVariance(values: number[], m = mean(values)): number {
+  if (values.length < 2) return 0
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1)
+}
+
+export function summarizeGroup(name: string, values: number[], alpha = DEFAULT_ALPHA): GroupSummary {
+  const m = mean(values)
+  const std = Math.sqrt(sampleVariance(values, m))
+  const halfWidth = values.length > 1 ? tCritical(alpha, values.length - 1) * std / Math.sqrt(values.length) : NaN
+  return { name, n: values.length, mean: m, std, ciLow: m - halfWidth, ciHigh: m + halfWidth }
+}
+
+// Average ranks (1-based) with ties sharing their mean rank, plus the tie term Σ(t³ - t)
+function rank(values: number[]): { ranks: number[], ties: number } {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const ranks = new Array<number>(values.length)
+  let ties = 0
+  for (let i = 0; i < order.length;) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+    const shared = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) ranks[order[k].index] = shared
+    const t = j - i + 1
+    ties += t * t * t - t
+    i = j + 1
+  }
+  return { ranks, ties }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+
+export function oneWayAnova(groups: number[][]): OmnibusResult {
+  const all = groups.flat()
+  const grandMean = mean(all)
+  let ssBetween = 0
+  let ssWithin = 0
+  groups.forEach(values => {
+    const m = mean(values)
+    ssBetween += values.length * (m - grandMean) * (m - grandMean)
+    values.forEach(v => {
+      ssWithin += (v - m) * (v - m)
+    })
+  })
+  const dfBetween = groups.length - 1
+  const dfWithin = all.length - groups.length
+  const statistic = ssWithin > 0 ? (ssBetween / dfBetween) / (ssWithin / dfWithin) : ssBetween > 0 ? Infinity : 0
+  return {
+    test: 'anova',
+    statistic,
+    df: [dfBetween, dfWithin],
+    pValue: Number.isFinite(statistic) ? fSurvival(statistic, dfBetween, dfWithin) : 0,
+  }
+}
+
+export function kruskalWallis(groups: number[][]): OmnibusResult {
+  const all = groups.flat()
+  const n = all.length
+  const { ranks, ties } = rank(all)
+  let offset = 0
+  let sum = 0
+  groups.forEach(values => {
+    let rankSum = 0
+    for (let i = 0; i < values.length; i++) rankSum += ranks[offset + i]
+    sum += (rankSum * rankSum) / values.length
+    offset += values.length
+  })
+  const h = (12 / (n * (n + 1))) * sum - 3 * (n + 1)
+  const tieCorrection = 1 - ties / (n * n * n - n)
+  const statistic = tieCorrection > 0 ? h / tieCorrection : 0
+  const df = groups.length - 1
+  return { test: 'kruskal-wallis', statistic, df, pValue: chiSquareSurvival(statistic, df) }
+}
+
+// Welch's t-test; also gives the interval on mean(a) - mean(b)
+export function welchTTest(a: number[], b: number[], alpha = DEFAULT_ALPHA) {
+  const meanA = mean(a)
+  const meanB = mean(b)
+  const va = sampleVariance(a, meanA) / a.length
+  const vb = sampleVariance(b, meanB) / b.length
+  const difference = meanA - meanB
+  const se = Math.sqrt(va + vb)
+  if (se === 0) {
+    return { statistic: difference === 0 ? 0 : Infinity, pValue: difference === 0 ? 1 : 0, ciLow: difference, ciHigh: difference }
+  }
+  const df = ((va + vb) * (va + vb)) / ((va * va) / (a.length - 1) + (vb * vb) / (b.length - 1))
+  const statistic = difference / se
+  const halfWidth = tCritical(alpha, df) * se
+  return { statistic, pValue: tTwoTailed(statistic, df), ciLow: difference - halfWidth, ciHigh: difference + halfWidth }
+}
+
+// Mann-Whitney U by the normal approximation, with tie and continuity corrections
+export function mannWhitneyU(a: number[], b: number[]) {
+  const n1 = a.length
+  const n2 = b.length
+  const n = n1 + n2
+  const { ranks, ties } = rank([...a, ...b])
+  let rankSumA = 0
+  for (let i = 0; i < n1; i++) rankSumA += ranks[i]
+  const u = rankSumA - (n1 * (n1 + 1)) / 2
+  const expected = (n1 * n2) / 2
+  const variance = ((n1 * n2) / 12) * (n + 1 - ties / (n * (n - 1)))
+  if (variance <= 0) return { statistic: 0, pValue: 1 }
+  const diff = u - expected
+  const statistic = (diff - Math.sign(diff) * 0.5) / Math.sqrt(variance)
+  return { statistic, pValue: normalTwoTailed(statistic) }
+}
+
+// Adjusted p-values in the input order
+export function adjustPValues(pValues: number[], correction: Correction): number[] {
+  const m = pValues.length
+  if (correction === 'bonferroni') return pValues.map(p => Math.min(1, p * m))
+  // Holm: step down through the sorted p-values, keeping the adjusted values monotone
+  const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p)
+  const adjusted = new Array<number>(m)
+  let running = 0
+  order.forEach(({ p, index }, i) => {
+    running = Math.max(running, Math.min(1, (m - i) * p))
+    adjusted[index] = running
+  })
+  return adjusted
+}
+
+// Every group against every other, after an omnibus test across all of them
+export function compareGroups(groups: Record<string, number[]>, options: CompareOptions = {}): GroupComparison {
+  const method = options.method ?? 'parametric'
+  const correction = options.correction ?? 'holm'
+  const alpha = options.alpha ?? DEFAULT_ALPHA
+  const minGroupSize = Math.max(2, options.minGroupSize ?? DEFAULT_MIN_GROUP_SIZE)
+
+  const usable = Object.entries(groups)
+    .map(([name, values]) => [name, values.filter(Number.isFinite)] as const)
+    .filter(([, values]) => values.length >= minGroupSize)
+
+  const summaries = usable.map(([name, values]) => summarizeGroup(name, values, alpha))
+  if (usable.length < 2) return { method, correction, alpha, groups: summaries, omnibus: null, pairs: [] }
+
+  const valueSets = usable.map(([, values]) => values)
+  const omnibus = method === 'parametric' ? oneWayAnova(valueSets) : kruskalWallis(valueSets)
+
+  const raw: Omit<PairwiseResult, 'adjustedPValue' | 'significant'>[] = []
+  for (let i = 0; i < usable.length; i++) {
+    for (let j = i + 1; j < usable.length; j++) {
+      const [nameA, a] = usable[i]
+      const [nameB, b] = usable[j]
+      const welch = welchTTest(a, b, alpha)
+      const test = method === 'parametric' ? welch : mannWhitneyU(a, b)
+      raw.push({
+        a: nameA,
+        b: nameB,
+        meanDifference: summaries[i].mean - summaries[j].mean,
+        ciLow: welch.ciLow,
+        ciHigh: welch.ciHigh,
+        statistic: test.statistic,
+        pValue: test.pValue,
+      })
+    }
+  }
+  const adjusted = adjustPValues(raw.map(r => r.pValue), correction)
+  const pairs = raw
+    .map((r, index) => ({ ...r, adjustedPValue: adjusted[index], significant: adjusted[index] < alpha }))
+    .sort((x, y) => x.adjustedPValue - y.adjustedPValue)
+
+  return { method, correction, alpha, groups: summaries, omnibus, pairs }
+}
@@ -0,0 +1,30 @@
+// Tap-to-place surveys: the user taps where they stand, and readings taken between
+// two taps are placed along the straight line between them by timestamp
+
+import { Point } from './propagation'
+
+export interface SurveyAnchor extends Point {
+  timestamp: number
+}
+
+export interface SurveySample {
+  timestamp: number
+  rssi: number
+  simulated: boolean
+}
+
+export interface PlacedSample extends SurveySample, Point {}
+
+// Assumes a constant walking speed between the two anchors; samples outside the
+// anchors' time span are clamped to the nearer anchor
+export function interpolateSamples(from: SurveyAnchor, to: SurveyAnchor, samples: SurveySample[]): PlacedSample[] {
+  const span = to.timestamp - from.timestamp
+  return samples.map(sample => {
+    const f = span > 0 ? Math.min(1, Math.max(0, (sample.timestamp - from.timestamp) / span)) : 1
+    return {
+      ...sample,
+      x: from.x + (to.x - from.x) * f,
+      y: from.y + (to.y - from.y) * f,
+    }
+  })
+}
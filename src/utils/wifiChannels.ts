@@ -0,0 +1,95 @@
+// WiFi channel geometry and overlap-aware interference scoring
+
+import { channelFrequency } from '../../server/wifi/channels.js'
+import { WiFiBand, WiFiNetwork } from './api'
+
+export interface ChannelOccupancy {
+  channel: number
+  networks: number    // access points whose primary channel this is
+  interference: number
+}
+
+export interface ChannelRecommendation {
+  channel: number
+  interference: number
+}
+
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = []
+  for (let v = start; v <= end; v += step) values.push(v)
+  return values
+}
+
+// 20 MHz channels shown per band
+export const BAND_CHANNELS: Record<WiFiBand, number[]> = {
+  '2.4': range(1, 13, 1),
+  '5': [...range(36, 64, 4), ...range(100, 144, 4), ...range(149, 177, 4)],
+  '6': range(1, 233, 4),
+}
+
+// Channels worth recommending: the non-overlapping 2.4 GHz trio, every 5 GHz
+// channel, and the 6 GHz preferred scanning channels clients look for first
+const CANDIDATE_CHANNELS: Record<WiFiBand, number[]> = {
+  '2.4': [1, 6, 11],
+  '5': BAND_CHANNELS['5'],
+  '6': range(5, 229, 16),
+}
+
+export const BAND_LABELS: Record<WiFiBand, string> = {
+  '2.4': '2.4 GHz',
+  '5': '5 GHz',
+  '6': '6 GHz',
+}
+
+// Spectrum an access point occupies, in MHz. 2.4 GHz 20 MHz signals spill to 22 MHz;
+// wider 5/6 GHz channels bond fixed blocks of 20 MHz channels.
+export function channelSpan(band: WiFiBand, channel: number, width: number | null): [number, number] {
+  const bandwidth = width ?? 20
+  const centre = channelFrequency(band, channel)
+
+  if (band === '2.4') {
+    if (bandwidth < 40) return [centre - 11, centre + 11]
+    // HT40+ is the norm on channels 1-7, HT40- above
+    return channel <= 7 ? [centre - 10, centre + 30] : [centre - 30, centre + 10]
+  }
+
+  const perBlock = Math.max(1, Math.round(bandwidth / 20))
+  const base = band === '6' ? 1 : channel >= 149 ? 149 : 36
+  const first = base + Math.floor((channel - base) / 4 / perBlock) * perBlock * 4
+  const last = first + (perBlock - 1) * 4
+  return [channelFrequency(band, first) - 10, channelFrequency(band, last) + 10]
+}
+
+function overlap(a: [number, number], b: [number, number]): number {
+  return Math.max(0, Math.min(a[1], b[1]) - Math.max(a[0], b[0]))
+}
+
+// 0 at -100 dBm, 1 at -30 dBm and above; unknown levels count as moderate
+function signalWeight(rssi: number | null): number {
+  if (rssi === null) return 0.5
+  return Math.max(0, Math.min(1, (rssi + 100) / 70))
+}
+
+// Interference a 20 MHz channel would see: each other access point contributes its
+// signal weight times the share of the channel its spectrum overlaps
+export function channelInterference(networks: WiFiNetwork[], band: WiFiBand, channel: number): number {
+  const span = channelSpan(band, channel, 20)
+  const spanWidth = span[1] - span[0]
+  return networks
+    .filter(n => n.band === band && !n.connected)
+    .reduce((sum, n) => sum + signalWeight(n.signalStrength) * overlap(span, channelSpan(band, n.channel, n.width)) / spanWidth, 0)
+}
+
+export function channelOccupancy(networks: WiFiNetwork[], band: WiFiBand): ChannelOccupancy[] {
+  return BAND_CHANNELS[band].map(channel => ({
+    channel,
+    networks: networks.filter(n => n.band === band && n.channel === channel).length,
+    interference: channelInterference(networks, band, channel),
+  }))
+}
+
+export function recommendChannel(networks: WiFiNetwork[], band: WiFiBand): ChannelRecommendation {
+  return CANDIDATE_CHANNELS[band]
+    .map(channel => ({ channel, interference: channelInterference(networks, band, channel) }))
+    .reduce((best, next) => (next.interference < best.interference ? next : best))
+}
@@ -0,0 +1,12 @@
+import { optimizePlacement, OptimizerInput, OptimizerMessage } from '../utils/optimizer'
+
+const post = (message: OptimizerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<OptimizerInput>) => {
+  try {
+    const solutions = optimizePlacement(event.data, (done, total) => post({ type: 'progress', done, total }))
+    post({ type: 'result', solutions })
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || 'Optimizer failed' })
+  }
+}
@@ -0,0 +1,80 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCSV, streamCSV, parseObjects, formatCSV, createParseReport } from '../server/csv.js';
+import { SIGNAL_DATA_SCHEMA, SURVEY_SCHEMA } from '../server/schemas.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'csv-test-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+async function collect(iterable) {
+  const rows = [];
+  for await (const row of iterable) rows.push(row);
+  return rows;
+}
+
+test('parseCSV handles quotes, embedded newlines, CRLF and a BOM', () => {
+  const text = '\uFEFFcell_id,body_position,rssi\r\n"007","Hand, left",-71\r\n0101,"Bag ""outer""\nzip",-88\r\n';
+  assert.deepEqual(parseCSV(text, SIGNAL_DATA_SCHEMA), [
+    { cell_id: '007', body_position: 'Hand, left', rssi: -71 },
+    { cell_id: '0101', body_position: 'Bag "outer"\nzip', rssi: -88 },
+  ]);
+});
+
+test('rows that do not fit the schema are skipped and reported by line', () => {
+  const report = createParseReport('inline');
+  const text = 'timestamp,rssi,x,y\n1600000000,-70,1,2\n1600000001,loud,1,2\n1600000002,-71,1\n"oops"x,-72,1,2\n';
+  const rows = parseCSV(text, SIGNAL_DATA_SCHEMA, report);
+  assert.equal(rows.length, 1);
+  assert.equal(report.rowsParsed, 1);
+  assert.equal(report.rowsRejected, 3);
+  assert.deepEqual(report.errors.map(e => e.line), [3, 4, 5]);
+  assert.equal(report.errors[0].column, 'rssi');
+});
+
+test('timestamps accept epoch numbers and ISO dates; nulls stay null', () => {
+  const rows = parseCSV('timestamp,rssi,room\n1600000000,-70,NA\n2020-09-13T12:26:40Z,-71,\n', SIGNAL_DATA_SCHEMA);
+  assert.deepEqual(rows.map(r => r.timestamp), [1600000000, 1600000000000]);
+  assert.deepEqual(rows.map(r => r.room), [null, null]);
+});
+
+test('a missing required column fails the whole file', () => {
+  assert.throws(() => parseCSV('timestamp,rssi\n1,-70\n', SURVEY_SCHEMA), /Missing required columns: x, y/);
+});
+
+test('streamCSV yields the same rows as parseCSV across chunk boundaries', async () => {
+  // Quoted multi-line fields on every row, over several 64 KiB read chunks
+  const lines = ['timestamp,cell_id,body_position,rssi'];
+  for (let i = 0; i < 3000; i++) {
+    lines.push(`${1600000000 + i},"${String(i).padStart(5, '0')}","Pocket, ""rear""\nrow ${i}",${-60 - (i % 40)}`);
+  }
+  const text = lines.join('\r\n') + '\r\n';
+  const path = join(dir, 'signal.csv');
+  writeFileSync(path, text, 'utf-8');
+
+  const streamed = await collect(streamCSV(path, SIGNAL_DATA_SCHEMA));
+  assert.equal(streamed.length, 3000);
+  assert.deepEqual(streamed, parseCSV(text, SIGNAL_DATA_SCHEMA));
+  assert.equal(streamed[2999].body_position, 'Pocket, "rear"\nrow 2999');
+});
+
+test('formatCSV round-trips through parseCSV', () => {
+  const rows = [
+    { cell_id: '007', body_position: 'Hand, "left"', rssi: -70, room: null },
+    { cell_id: '008', body_position: 'Bag\nside', rssi: -81, room: 'Lab' },
+  ];
+  assert.deepEqual(parseCSV(formatCSV(rows), SIGNAL_DATA_SCHEMA), rows);
+});
+
+test('parseObjects validates structured records with the same rules', () => {
+  const report = createParseReport('inline');
+  const rows = parseObjects(
+    [{ timestamp: 1, rssi: -70, x: 0, y: 0, anchor: 'yes' }, { timestamp: 2, rssi: null, x: 0, y: 0 }],
+    SURVEY_SCHEMA,
+    report
+  );
+  assert.deepEqual(rows, [{ timestamp: 1, rssi: -70, x: 0, y: 0, anchor: true }]);
+  assert.equal(report.errors[0].message, 'Missing required value');
+});
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_TX_POWER_DBM,
+  DEFAULT_FREQUENCY_MHZ,
+  DEFAULT_PATH_LOSS_EXPONENT,
+  localize,
+  rssiToDistance,
+  trilaterate,
+} from '../server/localization.js';
+import { enuFrame } from '../server/geodesy.js';
+
+const SITE_MODEL = {
+  txPowerDbm: DEFAULT_TX_POWER_DBM,
+  frequencyMhz: DEFAULT_FREQUENCY_MHZ,
+  pathLossExponent: DEFAULT_PATH_LOSS_EXPONENT,
+};
+
+// The RSSI the log-distance model predicts at distance meters; inverse of rssiToDistance
+function rssiAt(distance) {
+  const referenceLoss = 20 * Math.log10(0.001) + 20 * Math.log10(DEFAULT_FREQUENCY_MHZ) + 32.44;
+  return DEFAULT_TX_POWER_DBM - referenceLoss - 10 * DEFAULT_PATH_LOSS_EXPONENT * Math.log10(distance);
+}
+
+const rangesTo = (sites, point) => sites.map(s => ({ ...s, distance: Math.hypot(point.x - s.x, point.y - s.y) }));
+
+test('rssiToDistance inverts the log-distance model', () => {
+  for (const distance of [10, 350, 4200]) {
+    assert.ok(Math.abs(rssiToDistance(rssiAt(distance), SITE_MODEL) - distance) < 1e-6);
+  }
+});
+
+test('trilaterate fixes a point among sites kilometers apart', () => {
+  const sites = [{ x: 0, y: 0 }, { x: 5000, y: 0 }, { x: 0, y: 5000 }];
+  const fix = trilaterate(rangesTo(sites, { x: 1500, y: 2000 }));
+  assert.ok(fix);
+  assert.ok(Math.hypot(fix.x - 1500, fix.y - 2000) < 0.1);
+  assert.ok(fix.accuracy < 0.1);
+});
+
+test('trilaterate returns null for collinear sites', () => {
+  const sites = [{ x: 0, y: 0 }, { x: 2500, y: 0 }, { x: 5000, y: 0 }];
+  assert.equal(trilaterate(rangesTo(sites, { x: 1000, y: 0 })), null);
+});
+
+test('measured x/y win over lat/lon and keep their own frame', () => {
+  const result = localize([
+    { x: 3, y: 4, rssi: -70, timestamp: 1 },
+    { lat: 52.5, lon: 13.4, rssi: -80, timestamp: 2 },
+  ]);
+  assert.equal(result.frame, 'local');
+  assert.equal(result.origin, null);
+  assert.deepEqual(result.points.map(p => [p.index, p.x, p.y, p.source]), [[0, 3, 4, 'xy']]);
+  assert.equal(result.unlocated, 1);
+});
+
+test('lat/lon rows are projected around their mean with the shared ENU frame', () => {
+  const rows = [
+    { lat: 52.51, lon: 13.39, rssi: -70, timestamp: 1 },
+    { lat: 52.53, lon: 13.42, rssi: -80, timestamp: 2 },
+    { lat: 52.52, lon: 13.4, timestamp: 3 }, // no reading
+  ];
+  const result = localize(rows);
+  assert.equal(result.frame, 'enu');
+  // Every row with a position sets the origin, read or not
+  assert.ok(Math.abs(result.origin.lat - 52.52) < 1e-9);
+  assert.ok(Math.abs(result.origin.lon - (13.39 + 13.42 + 13.4) / 3) < 1e-9);
+
+  const frame = enuFrame(result.origin);
+  result.points.forEach(point => {
+    const expected = frame.toLocal(rows[point.index]);
+    assert.equal(point.source, 'gnss');
+    assert.ok(Math.abs(point.x - expected.x) < 1e-9 && Math.abs(point.y - expected.y) < 1e-9);
+  });
+  assert.ok(result.points[1].x > 1000 && result.points[1].y > 1000); // north-east of the origin
+  assert.equal(result.unlocated, 0);
+});
+
+test('readings sharing a timestamp are trilaterated against cell sites', () => {
+  const sites = [
+    { cell_id: '101', x: 0, y: 0 },
+    { cell_id: '202', x: 5000, y: 0 },
+    { cell_id: '303', x: 0, y: 5000 },
+  ];
+  const at = { x: 1500, y: 2000 };
+  const reading = (cell_id, timestamp, user = 'alice') => {
+    const site = sites.find(s => s.cell_id === cell_id);
+    return { user, timestamp, cell_id, rssi: rssiAt(Math.hypot(at.x - site.x, at.y - site.y)) };
+  };
+  const rows = [
+    reading('101', 10), reading('202', 10), reading('303', 10),
+    reading('101', 11), reading('202', 11), // only two sites heard
+    reading('303', 10, 'bob'),              // another user at the same time
+  ];
+
+  const result = localize(rows, sites);
+  assert.equal(result.frame, 'local');
+  assert.equal(result.sites.length, 3);
+  assert.deepEqual(result.points.map(p => p.index), [0, 1, 2]);
+  result.points.forEach(point => {
+    assert.equal(point.source, 'trilateration');
+    assert.ok(Math.hypot(point.x - at.x, point.y - at.y) < 1);
+  });
+  assert.equal(result.unlocated, 3);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_LIMIT, MAX_LIMIT, encodeCursor, parseDataQuery, parseTime, matchesFilters } from '../server/query.js';
+
+test('parseTime returns epoch milliseconds for every input form', () => {
+  assert.equal(parseTime(1600000000), 1600000000000);
+  assert.equal(parseTime('1600000000'), 1600000000000);
+  assert.equal(parseTime(1600000000000), 1600000000000);
+  assert.equal(parseTime('2020-09-13T12:26:40Z'), 1600000000000);
+  assert.equal(parseTime('yesterday'), undefined);
+  assert.equal(parseTime(''), undefined);
+});
+
+test('time windows match rows in seconds and in milliseconds alike', () => {
+  const { filters } = parseDataQuery({ start: '2020-09-13T12:26:40Z', end: '2020-09-13T12:27:40Z' });
+  assert.ok(matchesFilters({ timestamp: 1600000030 }, filters));
+  assert.ok(matchesFilters({ timestamp: 1600000030000 }, filters));
+  assert.ok(!matchesFilters({ timestamp: 1600000100 }, filters));
+  assert.ok(!matchesFilters({ timestamp: null }, filters));
+
+  const seconds = parseDataQuery({ start: '1600000000', end: '1600000060' }).filters;
+  assert.ok(matchesFilters({ timestamp: 1600000030000 }, seconds));
+  assert.ok(matchesFilters({ timestamp: '2020-09-13T12:27:00Z' }, seconds));
+});
+
+test('cursors carry the offset of the next page', () => {
+  const { limit, offset } = parseDataQuery({ limit: '500', cursor: encodeCursor(1500) });
+  assert.equal(limit, 500);
+  assert.equal(offset, 1500);
+  assert.equal(parseDataQuery({}).limit, DEFAULT_LIMIT);
+  assert.throws(() => parseDataQuery({ cursor: 'not-a-cursor' }), /Invalid cursor/);
+  assert.throws(() => parseDataQuery({ cursor: encodeCursor(-1) }), /Invalid cursor/);
+  assert.throws(() => parseDataQuery({ limit: String(MAX_LIMIT + 1) }), /limit must be an integer/);
+  assert.throws(() => parseDataQuery({ offset: '1.5' }), /offset must be/);
+});
+
+test('rssi, cell and body position filters', () => {
+  const { filters } = parseDataQuery({ rssi_min: '-90', rssi_max: '-60', cell_id: '007, 101', body_position: 'Hand,POCKET' });
+  assert.ok(matchesFilters({ rssi: -75, cell_id: '007', body_position: ' hand ' }, filters));
+  assert.ok(!matchesFilters({ rssi: -95, cell_id: '007', body_position: 'hand' }, filters));
+  assert.ok(!matchesFilters({ rssi: null, cell_id: '007', body_position: 'hand' }, filters));
+  assert.ok(!matchesFilters({ rssi: -75, cell_id: '7', body_position: 'hand' }, filters));
+  assert.ok(!matchesFilters({ rssi: -75, cell_id: 101, body_position: 'bag' }, filters));
+  assert.throws(() => parseDataQuery({ rssi_min: 'weak' }), /Invalid rssi_min/);
+});
@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { signalQuality } from '../../server/wifi/index.js';
+
+test('signalQuality treats each lower bound as inclusive', () => {
+  assert.equal(signalQuality(-50), 'excellent');
+  assert.equal(signalQuality(-51), 'good');
+  assert.equal(signalQuality(-70), 'good');
+  assert.equal(signalQuality(-85), 'fair');
+  assert.equal(signalQuality(-86), 'poor');
+  assert.equal(signalQuality(null), null);
+});
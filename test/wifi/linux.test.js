@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import {
+  splitTerse,
+  parseNmcliDevices,
+  parseNmcliWifiList,
+  parseNmcliDeviceShow,
+  parseNmcliScan,
+  parseIwLink,
+  parseIwScan,
+  parseProcWireless,
+  percentToDbm,
+  readLinuxWiFi,
+  scanLinuxWiFi,
+} from '../../server/wifi/linux.js';
+
+const fixture = (name) => readFileSync(new URL(`../fixtures/wifi/${name}`, import.meta.url), 'utf-8');
+
+// Stands in for child_process: each command line maps to a fixture, anything else fails
+function fakeSystem(outputs) {
+  return {
+    run: async (cmd, args) => {
+      const key = [cmd, ...args].join(' ');
+      const match = Object.keys(outputs).find(prefix => key.startsWith(prefix));
+      if (!match) throw new Error(`command not found: ${key}`);
+      return fixture(outputs[match]);
+    },
+    readText: async () => fixture('proc-net-wireless.txt'),
+  };
+}
+
+test('splitTerse unescapes colons inside values', () => {
+  assert.deepEqual(splitTerse('yes:Home\\:Net:A4\\:2B'), ['yes', 'Home:Net', 'A4:2B']);
+  assert.deepEqual(splitTerse('a::b'), ['a', '', 'b']);
+});
+
+test('parseNmcliDevices picks the connected wifi interface', () => {
+  assert.equal(parseNmcliDevices(fixture('nmcli-devices.txt')), 'wlp2s0');
+  assert.equal(parseNmcliDevices('enp3s0:ethernet:connected\n'), null);
+});
+
+test('parseNmcliWifiList returns the active access point', () => {
+  assert.deepEqual(parseNmcliWifiList(fixture('nmcli-wifi-list.txt')), {
+    ssid: 'HomeNet',
+    bssid: 'A4:2B:B0:12:34:56',
+    channel: 36,
+    frequency: 5180,
+    speed: '540 Mbps',
+    signalPercent: 80,
+    security: 'WPA2/WPA3',
+  });
+});
+
+test('parseNmcliDeviceShow reads the address, subnet and gateway', () => {
+  assert.deepEqual(parseNmcliDeviceShow(fixture('nmcli-device-show.txt')), {
+    ipAddress: '192.168.1.23',
+    subnet: '255.255.255.0',
+    gateway: '192.168.1.1',
+  });
+});
+
+test('percentToDbm inverts NetworkManager\'s -100..-40 dBm scale', () => {
+  assert.equal(percentToDbm(0), -100);
+  assert.equal(percentToDbm(100), -40);
+  assert.equal(percentToDbm(80), -52);
+  assert.equal(percentToDbm(27), -84);
+});
+
+test('parseNmcliScan converts percentages and flags them as estimated', () => {
+  const networks = parseNmcliScan(fixture('nmcli-scan.txt'));
+  assert.equal(networks.length, 4);
+  assert.deepEqual(networks[0], {
+    ssid: 'HomeNet',
+    bssid: 'A4:2B:B0:12:34:56',
+    channel: 36,
+    frequency: 5180,
+    band: '5',
+    width: 80,
+    signalStrength: -52,
+    rssiEstimated: true,
+    security: 'WPA2/WPA3',
+    connected: true,
+  });
+  assert.deepEqual(networks.map(n => n.signalStrength), [-52, -71, -84, -64]);
+  assert.deepEqual(networks.map(n => n.connected), [true, false, false, false]);
+  assert.equal(networks[2].security, 'Open');
+  assert.equal(networks[3].ssid, null);
+  assert.equal(networks[3].width, 160);
+});
+
+test('parseIwLink reads the association', () => {
+  assert.deepEqual(parseIwLink(fixture('iw-link.txt')), {
+    bssid: 'A4:2B:B0:12:34:56',
+    ssid: 'HomeNet',
+    frequency: 5180,
+    channel: 36,
+    signalStrength: -52,
+    speed: '390 Mbps',
+  });
+  assert.equal(parseIwLink(fixture('iw-link-disconnected.txt')), null);
+});
+
+test('parseIwScan reads width, security and signal per BSS', () => {
+  const networks = parseIwScan(fixture('iw-scan-dump.txt'));
+  assert.deepEqual(
+    networks.map(({ bssid, channel, band, width, signalStrength, security, connected }) => ({
+      bssid, channel, band, width, signalStrength, security, connected,
+    })),
+    [
+      { bssid: 'A4:2B:B0:12:34:56', channel: 36, band: '5', width: 80, signalStrength: -52, security: 'WPA2/WPA3', connected: true },
+      { bssid: 'AA:BB:CC:DD:EE:01', channel: 1, band: '2.4', width: 20, signalStrength: -71, security: 'WPA2', connected: false },
+      { bssid: '11:22:33:44:55:66', channel: 6, band: '2.4', width: 20, signalStrength: -84, security: 'Open', connected: false },
+      { bssid: '22:33:44:55:66:77', channel: 100, band: '5', width: 160, signalStrength: -64, security: 'WPA2-Enterprise', connected: false },
+    ]
+  );
+  assert.equal(networks[0].ssid, 'HomeNet');
+  assert.equal(networks[3].ssid, null);
+  assert.ok(networks.every(n => n.rssiEstimated === false));
+});
+
+test('parseProcWireless reads signed and unsigned levels', () => {
+  assert.deepEqual(parseProcWireless(fixture('proc-net-wireless.txt')), { interface: 'wlp2s0', signalStrength: -52 });
+  const unsigned = fixture('proc-net-wireless-unsigned.txt');
+  assert.deepEqual(parseProcWireless(unsigned), { interface: 'wlan0', signalStrength: -53 });
+  assert.deepEqual(parseProcWireless(unsigned, 'wlan1'), { interface: 'wlan1', signalStrength: -66 });
+  assert.equal(parseProcWireless(unsigned, 'wlan2'), null);
+});
+
+test('readLinuxWiFi prefers iw dBm and fills the rest from nmcli', async () => {
+  const info = await readLinuxWiFi(fakeSystem({
+    'nmcli -t -f DEVICE,TYPE,STATE dev': 'nmcli-devices.txt',
+    'iw dev wlp2s0 link': 'iw-link.txt',
+    'nmcli -t -f ACTIVE': 'nmcli-wifi-list.txt',
+    'nmcli -t -f IP4.ADDRESS': 'nmcli-device-show.txt',
+  }));
+  assert.deepEqual(info, {
+    interface: 'wlp2s0',
+    ssid: 'HomeNet',
+    bssid: 'A4:2B:B0:12:34:56',
+    signalStrength: -52,
+    frequency: 5180,
+    channel: 36,
+    security: 'WPA2/WPA3',
+    speed: '390 Mbps',
+    ipAddress: '192.168.1.23',
+    subnet: '255.255.255.0',
+    gateway: '192.168.1.1',
+  });
+});
+
+test('scanLinuxWiFi falls back to nmcli when iw is missing', async () => {
+  const networks = await scanLinuxWiFi(fakeSystem({
+    'nmcli -t -f DEVICE,TYPE,STATE dev': 'nmcli-devices.txt',
+    'nmcli -t -f IN-USE': 'nmcli-scan.txt',
+  }));
+  assert.equal(networks.length, 4);
+  assert.ok(networks.every(n => n.rssiEstimated));
+});
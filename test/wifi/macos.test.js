@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { parseAirport, parseAirportScan } from '../../server/wifi/macos.js';
+
+const fixture = (name) => readFileSync(new URL(`../fixtures/wifi/${name}`, import.meta.url), 'utf-8');
+
+test('parseAirport reads the current connection', () => {
+  assert.deepEqual(parseAirport(fixture('airport-info.txt')), {
+    interface: null,
+    ssid: 'HomeNet',
+    bssid: 'A4:2B:B0:12:34:56',
+    signalStrength: -58,
+    frequency: 5180,
+    channel: 36,
+    security: 'WPA2-PSK',
+    speed: '867 Mbps',
+    ipAddress: null,
+    subnet: null,
+    gateway: null,
+  });
+  assert.equal(parseAirport('AirPort: Off\n'), null);
+});
+
+test('parseAirportScan handles right-aligned SSIDs, widths and security', () => {
+  const networks = parseAirportScan(fixture('airport-scan.txt'));
+  assert.deepEqual(
+    networks.map(({ ssid, bssid, channel, frequency, band, width, signalStrength, security }) => ({
+      ssid, bssid, channel, frequency, band, width, signalStrength, security,
+    })),
+    [
+      { ssid: 'HomeNet', bssid: 'A4:2B:B0:12:34:56', channel: 36, frequency: 5180, band: '5', width: 40, signalStrength: -58, security: 'WPA2' },
+      { ssid: 'Neighbour', bssid: 'AA:BB:CC:DD:EE:01', channel: 1, frequency: 2412, band: '2.4', width: 20, signalStrength: -71, security: 'WPA2' },
+      { ssid: 'CafeGuest', bssid: '11:22:33:44:55:66', channel: 6, frequency: 2437, band: '2.4', width: 20, signalStrength: -84, security: 'Open' },
+      { ssid: 'Office 5G Wide', bssid: '22:33:44:55:66:77', channel: 149, frequency: 5745, band: '5', width: 80, signalStrength: -66, security: 'WPA2' },
+    ]
+  );
+  assert.ok(networks.every(n => n.rssiEstimated === false));
+});